@@ -0,0 +1,88 @@
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import type { Line2, LineSegments2 } from 'three-stdlib';
+import type { BevelOutlineSegment } from '../utils/geometry';
+
+/**
+ * Props for the BevelPreview component.
+ */
+export interface BevelPreviewProps {
+  /** The edges of the bevel to preview */
+  outline: BevelOutlineSegment[] | null;
+  /** Color of the preview lines @default '#ffff00' */
+  color?: string;
+  /** Width of the preview lines in pixels @default 3 */
+  lineWidth?: number;
+  /** Dash size @default 0.1 */
+  dashSize?: number;
+  /** Gap size between dashes @default 0.05 */
+  gapSize?: number;
+  /** Animation speed (dash offset per second) @default 0.5 */
+  animationSpeed?: number;
+}
+
+/**
+ * Animated preview component for bevel operations.
+ *
+ * Displays dashed lines along the edges a bevel would create, with
+ * animated movement like {@link LoopCutPreview}.
+ *
+ * @example
+ * ```tsx
+ * const outline = editor.getBevelPreview({ width: 0.1, segments: 3 });
+ * <BevelPreview outline={outline} color="#ffff00" />
+ * ```
+ */
+export function BevelPreview({
+  outline,
+  color = '#ffff00',
+  lineWidth = 3,
+  dashSize = 0.1,
+  gapSize = 0.05,
+  animationSpeed = 0.5,
+}: BevelPreviewProps) {
+  const lineRef = useRef<Line2 | LineSegments2>(null);
+  const dashOffsetRef = useRef(0);
+
+  // Flatten the segments to pairs of end points
+  const points = useMemo(() => {
+    if (!outline || outline.length === 0) return null;
+    return outline.flat();
+  }, [outline]);
+
+  // Animate the dash offset
+  useFrame((_, delta) => {
+    if (lineRef.current?.material) {
+      dashOffsetRef.current -= delta * animationSpeed;
+      // Reset to prevent floating point issues
+      if (dashOffsetRef.current < -1000) {
+        dashOffsetRef.current = 0;
+      }
+      const material = lineRef.current.material as { dashOffset?: number };
+      if ('dashOffset' in material) {
+        material.dashOffset = dashOffsetRef.current;
+      }
+    }
+  });
+
+  if (!points || points.length < 2) {
+    return null;
+  }
+
+  return (
+    <Line
+      ref={lineRef}
+      points={points}
+      segments
+      color={color}
+      lineWidth={lineWidth}
+      dashed
+      dashSize={dashSize}
+      gapSize={gapSize}
+      // Render on top
+      depthTest={false}
+      renderOrder={999}
+    />
+  );
+}
@@ -48,6 +48,10 @@ export interface EdgeLineProps {
   lineWidth?: number;
   /** Callback when edge is clicked for selection */
   onSelect?: (index: number, addToSelection: boolean) => void;
+  /** Callback when the edge is Alt+clicked to select its edge loop */
+  onSelectLoop?: (index: number, addToSelection: boolean) => void;
+  /** Callback when the edge is Ctrl+Alt+clicked to select its edge ring */
+  onSelectRing?: (index: number, addToSelection: boolean) => void;
   /** Callback to move vertices by a delta */
   onMoveVertices?: (vertexIndices: number[], delta: [number, number, number]) => void;
   /** Callback to apply rotation/scale transformation */
@@ -59,6 +63,10 @@ export interface EdgeLineProps {
   ) => void;
   /** Callback to capture initial positions before transform */
   onCaptureInitialPositions?: (vertexIndices: number[]) => void;
+  /** Callback when a control drag starts (used to group undo steps) */
+  onDragStart?: () => void;
+  /** Callback when a control drag ends */
+  onDragEnd?: () => void;
   /**
    * Render function for custom transform controls.
    * When provided, renders custom controls for the selected edge.
@@ -69,7 +77,8 @@ export interface EdgeLineProps {
 /**
  * Interactive edge line component.
  *
- * Renders a line between two vertices that can be selected.
+ * Renders a line between two vertices that can be selected. Alt+click
+ * selects the edge loop and Ctrl+Alt+click the edge ring, when handled.
  * Use the `renderControl` prop to provide custom transform controls.
  *
  * @example
@@ -99,9 +108,13 @@ export function EdgeLine({
   hoverColor = '#7bb3e0',
   lineWidth = 2,
   onSelect,
+  onSelectLoop,
+  onSelectRing,
   onMoveVertices,
   onTransformVertices,
   onCaptureInitialPositions,
+  onDragStart,
+  onDragEnd,
   renderControl,
 }: EdgeLineProps) {
   const [hovered, setHovered] = useState(false);
@@ -129,9 +142,15 @@ export function EdgeLine({
     (event: ThreeEvent<MouseEvent>) => {
       if (isDragging) return;
       event.stopPropagation();
-      onSelect?.(edge.index, event.shiftKey);
+      if (event.altKey && (event.ctrlKey || event.metaKey) && onSelectRing) {
+        onSelectRing(edge.index, event.shiftKey);
+      } else if (event.altKey && onSelectLoop) {
+        onSelectLoop(edge.index, event.shiftKey);
+      } else {
+        onSelect?.(edge.index, event.shiftKey);
+      }
     },
-    [edge.index, onSelect, isDragging]
+    [edge.index, onSelect, onSelectLoop, onSelectRing, isDragging]
   );
 
   const handlePointerOver = useCallback((event: ThreeEvent<PointerEvent>) => {
@@ -145,13 +164,15 @@ export function EdgeLine({
 
   const handleDragStart = useCallback(() => {
     setIsDragging(true);
-  }, []);
+    onDragStart?.();
+  }, [onDragStart]);
 
   const handleDragEnd = useCallback(() => {
+    onDragEnd?.();
     setTimeout(() => {
       setIsDragging(false);
     }, 100);
-  }, []);
+  }, [onDragEnd]);
 
   const handleMoveByDelta = useCallback(
     (delta: [number, number, number]) => {
@@ -1,11 +1,16 @@
-import type { BufferGeometry } from 'three';
-import { DoubleSide } from 'three';
+import { useEffect, useMemo } from 'react';
+import { DoubleSide, BufferGeometry, Float32BufferAttribute } from 'three';
+import type { EdgeData, VertexData } from '../types';
 
 export interface EditModeOverlayProps {
   geometry: BufferGeometry;
   opacity?: number;
   color?: string;
   wireframeColor?: string;
+  /** Mesh edges to draw instead of the triangle wireframe (hides triangulation diagonals) */
+  edges?: EdgeData[];
+  /** Vertices for edge position lookup */
+  vertices?: VertexData[];
 }
 
 export function EditModeOverlay({
@@ -13,7 +18,25 @@ export function EditModeOverlay({
   opacity = 0.3,
   color = '#6699cc',
   wireframeColor = '#ffffff',
+  edges,
+  vertices,
 }: EditModeOverlayProps) {
+  const edgeGeometry = useMemo(() => {
+    if (!edges || !vertices) return null;
+    const positions: number[] = [];
+    for (const edge of edges) {
+      const v1 = vertices[edge.vertexIndices[0]];
+      const v2 = vertices[edge.vertexIndices[1]];
+      if (v1 && v2) positions.push(...v1.position, ...v2.position);
+    }
+    const geo = new BufferGeometry();
+    geo.setAttribute('position', new Float32BufferAttribute(positions, 3));
+    return geo;
+  }, [edges, vertices]);
+
+  // Free the GPU buffers of each edge geometry once it is replaced
+  useEffect(() => () => edgeGeometry?.dispose(), [edgeGeometry]);
+
   return (
     <group>
       {/* Semi-transparent mesh */}
@@ -27,14 +50,20 @@ export function EditModeOverlay({
         />
       </mesh>
       {/* Wireframe overlay */}
-      <mesh geometry={geometry}>
-        <meshBasicMaterial
-          color={wireframeColor}
-          wireframe
-          transparent
-          opacity={0.5}
-        />
-      </mesh>
+      {edgeGeometry ? (
+        <lineSegments geometry={edgeGeometry}>
+          <lineBasicMaterial color={wireframeColor} transparent opacity={0.5} />
+        </lineSegments>
+      ) : (
+        <mesh geometry={geometry}>
+          <meshBasicMaterial
+            color={wireframeColor}
+            wireframe
+            transparent
+            opacity={0.5}
+          />
+        </mesh>
+      )}
     </group>
   );
 }
@@ -3,6 +3,8 @@ import type { Mesh } from 'three';
 import { BufferGeometry, Float32BufferAttribute, DoubleSide } from 'three';
 import type { ThreeEvent } from '@react-three/fiber';
 import type { FaceData, VertexData } from '../types';
+import { getFaceCenter } from '../utils/geometry';
+import { triangulatePolygon } from '../utils/triangulate';
 
 /**
  * Props passed to the custom control render function for faces.
@@ -60,6 +62,10 @@ export interface FaceHighlightProps {
   ) => void;
   /** Callback to capture initial positions before transform */
   onCaptureInitialPositions?: (vertexIndices: number[]) => void;
+  /** Callback when a control drag starts (used to group undo steps) */
+  onDragStart?: () => void;
+  /** Callback when a control drag ends */
+  onDragEnd?: () => void;
   /**
    * Render function for custom transform controls.
    * When provided, renders custom controls for the selected face.
@@ -103,44 +109,41 @@ export function FaceHighlight({
   onMoveVertices,
   onTransformVertices,
   onCaptureInitialPositions,
+  onDragStart,
+  onDragEnd,
   renderControl,
 }: FaceHighlightProps) {
   const meshRef = useRef<Mesh>(null);
   const [hovered, setHovered] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
 
+  const faceVertices = useMemo(
+    () => face.vertexIndices.map((index) => vertices[index]),
+    [face.vertexIndices, vertices]
+  );
+  const isComplete = faceVertices.length >= 3 && faceVertices.every(Boolean);
+
+  // The whole polygon is one pickable mesh, ear-clipped so concave faces render correctly
   const geometry = useMemo(() => {
-    const v1 = vertices[face.vertexIndices[0]];
-    const v2 = vertices[face.vertexIndices[1]];
-    const v3 = vertices[face.vertexIndices[2]];
+    if (!isComplete) return null;
 
-    if (!v1 || !v2 || !v3) return null;
+    const points = faceVertices.map((vertex) => vertex.position);
+    const positions: number[] = [];
+    for (const [a, b, c] of triangulatePolygon(points)) {
+      positions.push(...points[a], ...points[b], ...points[c]);
+    }
 
     const geo = new BufferGeometry();
-    const positions = new Float32Array([
-      ...v1.position,
-      ...v2.position,
-      ...v3.position,
-    ]);
     geo.setAttribute('position', new Float32BufferAttribute(positions, 3));
     geo.computeVertexNormals();
 
     return geo;
-  }, [face.vertexIndices, vertices]);
+  }, [faceVertices, isComplete]);
 
   const faceCenter = useMemo((): [number, number, number] => {
-    const v1 = vertices[face.vertexIndices[0]];
-    const v2 = vertices[face.vertexIndices[1]];
-    const v3 = vertices[face.vertexIndices[2]];
-
-    if (!v1 || !v2 || !v3) return [0, 0, 0];
-
-    return [
-      (v1.position[0] + v2.position[0] + v3.position[0]) / 3,
-      (v1.position[1] + v2.position[1] + v3.position[1]) / 3,
-      (v1.position[2] + v2.position[2] + v3.position[2]) / 3,
-    ];
-  }, [face.vertexIndices, vertices]);
+    if (!isComplete) return [0, 0, 0];
+    return getFaceCenter(face, vertices);
+  }, [face, vertices, isComplete]);
 
   const handleClick = useCallback(
     (event: ThreeEvent<MouseEvent>) => {
@@ -162,17 +165,19 @@ export function FaceHighlight({
 
   const handleDragStart = useCallback(() => {
     setIsDragging(true);
-  }, []);
+    onDragStart?.();
+  }, [onDragStart]);
 
   const handleDragEnd = useCallback(() => {
+    onDragEnd?.();
     setTimeout(() => {
       setIsDragging(false);
     }, 100);
-  }, []);
+  }, [onDragEnd]);
 
   const handleMoveByDelta = useCallback(
     (delta: [number, number, number]) => {
-      onMoveVertices?.(face.vertexIndices as unknown as number[], delta);
+      onMoveVertices?.(face.vertexIndices, delta);
     },
     [face.vertexIndices, onMoveVertices]
   );
@@ -183,7 +188,7 @@ export function FaceHighlight({
       scale: [number, number, number]
     ) => {
       onTransformVertices?.(
-        face.vertexIndices as unknown as number[],
+        face.vertexIndices,
         faceCenter,
         rotation,
         scale
@@ -193,7 +198,7 @@ export function FaceHighlight({
   );
 
   const handleCaptureInitialPositions = useCallback(() => {
-    onCaptureInitialPositions?.(face.vertexIndices as unknown as number[]);
+    onCaptureInitialPositions?.(face.vertexIndices);
   }, [face.vertexIndices, onCaptureInitialPositions]);
 
   const color = selected ? selectedColor : hovered ? hoverColor : defaultColor;
@@ -0,0 +1,68 @@
+import { useEffect, useMemo } from 'react';
+import { BufferGeometry, Float32BufferAttribute, Vector3 } from 'three';
+import type { FaceData, VertexData } from '../types';
+import { polygonNormal } from '../utils/triangulate';
+
+/**
+ * Props for the FaceNormals component.
+ */
+export interface FaceNormalsProps {
+  /** Faces to draw normals for */
+  faces: FaceData[];
+  /** Vertices for face position lookup */
+  vertices: VertexData[];
+  /** Length of the arrows in world units @default 0.2 */
+  length?: number;
+  /** Color of the arrows @default '#22d3ee' */
+  color?: string;
+}
+
+/**
+ * Overlay drawing an arrow along the normal of each face, from its center.
+ *
+ * Useful for spotting faces wound the wrong way, which can then be fixed
+ * with `flipFaces` or `recalculateNormals`.
+ *
+ * @example
+ * ```tsx
+ * <FaceNormals faces={editor.faces} vertices={editor.vertices} length={0.1} />
+ * ```
+ */
+export function FaceNormals({ faces, vertices, length = 0.2, color = '#22d3ee' }: FaceNormalsProps) {
+  const arrowGeometry = useMemo(() => {
+    const positions: number[] = [];
+    for (const face of faces) {
+      const points = face.vertexIndices.map((v) => vertices[v]?.position);
+      if (points.some((p) => !p)) continue;
+      const corners = points as Array<[number, number, number]>;
+      const normal = polygonNormal(corners);
+      if (normal.lengthSq() === 0) continue;
+
+      const center = new Vector3();
+      corners.forEach((p) => center.add(new Vector3(...p)));
+      center.divideScalar(corners.length);
+      const tip = center.clone().addScaledVector(normal, length);
+
+      // Arrow head in the plane of the normal and the first edge
+      const side = new Vector3(...corners[1]).sub(new Vector3(...corners[0]));
+      side.addScaledVector(normal, -side.dot(normal)).normalize().multiplyScalar(length * 0.1);
+      const base = tip.clone().addScaledVector(normal, -length * 0.25);
+
+      positions.push(...center.toArray(), ...tip.toArray());
+      positions.push(...tip.toArray(), ...base.clone().add(side).toArray());
+      positions.push(...tip.toArray(), ...base.clone().sub(side).toArray());
+    }
+    const geo = new BufferGeometry();
+    geo.setAttribute('position', new Float32BufferAttribute(positions, 3));
+    return geo;
+  }, [faces, vertices, length]);
+
+  // Free the GPU buffers of each arrow geometry once it is replaced
+  useEffect(() => () => arrowGeometry.dispose(), [arrowGeometry]);
+
+  return (
+    <lineSegments geometry={arrowGeometry}>
+      <lineBasicMaterial color={color} />
+    </lineSegments>
+  );
+}
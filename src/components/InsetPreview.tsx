@@ -0,0 +1,96 @@
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import type { Line2, LineSegments2 } from 'three-stdlib';
+import type { InsetOutline } from '../utils/geometry';
+
+/**
+ * Props for the InsetPreview component.
+ */
+export interface InsetPreviewProps {
+  /** The inner outlines of the inset to preview */
+  outlines: InsetOutline[] | null;
+  /** Color of the preview lines @default '#ffff00' */
+  color?: string;
+  /** Width of the preview lines in pixels @default 3 */
+  lineWidth?: number;
+  /** Dash size @default 0.1 */
+  dashSize?: number;
+  /** Gap size between dashes @default 0.05 */
+  gapSize?: number;
+  /** Animation speed (dash offset per second) @default 0.5 */
+  animationSpeed?: number;
+}
+
+/**
+ * Animated preview component for inset operations.
+ *
+ * Displays dashed lines along the inner border an inset would create,
+ * with animated movement like {@link LoopCutPreview}.
+ *
+ * @example
+ * ```tsx
+ * const outlines = editor.getInsetPreview(selectedFaces, 0.1, 0);
+ * <InsetPreview outlines={outlines} color="#ffff00" />
+ * ```
+ */
+export function InsetPreview({
+  outlines,
+  color = '#ffff00',
+  lineWidth = 3,
+  dashSize = 0.1,
+  gapSize = 0.05,
+  animationSpeed = 0.5,
+}: InsetPreviewProps) {
+  const lineRef = useRef<Line2 | LineSegments2>(null);
+  const dashOffsetRef = useRef(0);
+
+  // Convert the closed outlines to pairs of segment end points
+  const points = useMemo(() => {
+    if (!outlines || outlines.length === 0) return null;
+
+    const segmentPoints: [number, number, number][] = [];
+    for (const outline of outlines) {
+      outline.forEach((point, i) => {
+        segmentPoints.push(point, outline[(i + 1) % outline.length]);
+      });
+    }
+
+    return segmentPoints;
+  }, [outlines]);
+
+  // Animate the dash offset
+  useFrame((_, delta) => {
+    if (lineRef.current?.material) {
+      dashOffsetRef.current -= delta * animationSpeed;
+      // Reset to prevent floating point issues
+      if (dashOffsetRef.current < -1000) {
+        dashOffsetRef.current = 0;
+      }
+      const material = lineRef.current.material as { dashOffset?: number };
+      if ('dashOffset' in material) {
+        material.dashOffset = dashOffsetRef.current;
+      }
+    }
+  });
+
+  if (!points || points.length < 2) {
+    return null;
+  }
+
+  return (
+    <Line
+      ref={lineRef}
+      points={points}
+      segments
+      color={color}
+      lineWidth={lineWidth}
+      dashed
+      dashSize={dashSize}
+      gapSize={gapSize}
+      // Render on top
+      depthTest={false}
+      renderOrder={999}
+    />
+  );
+}
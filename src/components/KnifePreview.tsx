@@ -0,0 +1,79 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import type { Line2 } from 'three-stdlib';
+
+/**
+ * Props for the KnifePreview component.
+ */
+export interface KnifePreviewProps {
+  /** The knife points in order, including the point under the cursor */
+  points: [number, number, number][] | null;
+  /** Color of the preview line @default '#ffff00' */
+  color?: string;
+  /** Width of the preview line in pixels @default 3 */
+  lineWidth?: number;
+  /** Dash size @default 0.1 */
+  dashSize?: number;
+  /** Gap size between dashes @default 0.05 */
+  gapSize?: number;
+  /** Animation speed (dash offset per second) @default 0.5 */
+  animationSpeed?: number;
+}
+
+/**
+ * Animated preview component for knife cuts.
+ *
+ * Displays a dashed line through the knife points with animated movement
+ * like {@link LoopCutPreview}.
+ *
+ * @example
+ * ```tsx
+ * <KnifePreview points={[...points.map((p) => p.position), hover.position]} />
+ * ```
+ */
+export function KnifePreview({
+  points,
+  color = '#ffff00',
+  lineWidth = 3,
+  dashSize = 0.1,
+  gapSize = 0.05,
+  animationSpeed = 0.5,
+}: KnifePreviewProps) {
+  const lineRef = useRef<Line2>(null);
+  const dashOffsetRef = useRef(0);
+
+  // Animate the dash offset
+  useFrame((_, delta) => {
+    if (lineRef.current?.material) {
+      dashOffsetRef.current -= delta * animationSpeed;
+      // Reset to prevent floating point issues
+      if (dashOffsetRef.current < -1000) {
+        dashOffsetRef.current = 0;
+      }
+      const material = lineRef.current.material as { dashOffset?: number };
+      if ('dashOffset' in material) {
+        material.dashOffset = dashOffsetRef.current;
+      }
+    }
+  });
+
+  if (!points || points.length < 2) {
+    return null;
+  }
+
+  return (
+    <Line
+      ref={lineRef}
+      points={points}
+      color={color}
+      lineWidth={lineWidth}
+      dashed
+      dashSize={dashSize}
+      gapSize={gapSize}
+      // Render on top
+      depthTest={false}
+      renderOrder={999}
+    />
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useThree, type ThreeEvent } from '@react-three/fiber';
+import { DoubleSide, Raycaster, Vector2, Vector3, type Camera, type Mesh, type Object3D } from 'three';
+import type { UseMeshEditorReturn } from '../hooks/useMeshEditor';
+import { snapKnifePoint, type KnifePoint, type KnifeSnapResult } from '../utils/geometry';
+import { isTextInput } from '../utils/dom';
+import { KnifePreview } from './KnifePreview';
+
+/**
+ * Props for the KnifeTool component.
+ */
+export interface KnifeToolProps {
+  /** The editor to cut */
+  editor: UseMeshEditorReturn;
+  /** Distance in world units within which points snap to vertices and edges @default 0.08 */
+  snapDistance?: number;
+  /** Constrain segments to angle steps on screen (also enabled while Shift is held) @default false */
+  angleConstraint?: boolean;
+  /** Angle step of the constraint in degrees @default 45 */
+  angleStep?: number;
+  /** Color of the preview line @default '#ffff00' */
+  color?: string;
+  /** Color of the cursor marker when snapped to a vertex or edge @default '#ff6b00' */
+  snapColor?: string;
+  /** Width of the preview line in pixels @default 3 */
+  lineWidth?: number;
+  /** Size of the cursor marker in world units @default 0.03 */
+  markerSize?: number;
+  /** Callback fired after a cut is made */
+  onCut?: () => void;
+  /** Callback fired when the knife points are discarded with Escape */
+  onCancel?: () => void;
+}
+
+/**
+ * Options for the cutting planes, taken from the camera and expressed in the
+ * local space of `object`.
+ * @internal
+ */
+function viewOptions(camera: Camera, object: Object3D) {
+  object.updateWorldMatrix(true, false);
+  if ((camera as { isOrthographicCamera?: boolean }).isOrthographicCamera) {
+    const toLocal = object.matrixWorld.clone().invert();
+    return { viewDirection: camera.getWorldDirection(new Vector3()).transformDirection(toLocal).toArray() };
+  }
+  return { viewPosition: object.worldToLocal(camera.getWorldPosition(new Vector3())).toArray() };
+}
+
+/**
+ * Interactive knife tool, similar to Blender's K tool.
+ *
+ * Click successive points on the surface to draw the cut, then press Enter
+ * to cut every face the path crosses. Points snap to vertices, edge
+ * midpoints and edges. Hold Shift (or set `angleConstraint`) to constrain
+ * segments to angle steps on screen. Backspace removes the last point and
+ * Escape discards the path.
+ *
+ * Render it inside the Canvas alongside the edited mesh, under the same
+ * parent, so it shares the mesh's transform. Points are stored in the
+ * mesh's local space.
+ *
+ * @example
+ * ```tsx
+ * const editor = useMeshEditor({ geometry, initialMode: 'edit' });
+ * <KnifeTool editor={editor} snapDistance={0.05} />
+ * ```
+ */
+export function KnifeTool({
+  editor,
+  snapDistance = 0.08,
+  angleConstraint = false,
+  angleStep = 45,
+  color = '#ffff00',
+  snapColor = '#ff6b00',
+  lineWidth = 3,
+  markerSize = 0.03,
+  onCut,
+  onCancel,
+}: KnifeToolProps) {
+  const meshRef = useRef<Mesh>(null);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const [points, setPoints] = useState<KnifePoint[]>([]);
+  const [hover, setHover] = useState<KnifeSnapResult | null>(null);
+
+  // Placed points refer to faces by index, so they are dropped when the
+  // topology changes (undo, delete or any other topology operation)
+  useEffect(() => {
+    setPoints([]);
+    setHover(null);
+  }, [editor.mesh, editor.faces]);
+
+  // Snap the screen angle of the segment from the last point
+  const constrain = useCallback(
+    (event: ThreeEvent<PointerEvent>): { point: Vector3; triangle: number } | null => {
+      const last = points[points.length - 1];
+      if (!last || !meshRef.current) return null;
+      // Points are stored in the mesh's local space
+      const from = meshRef.current.localToWorld(new Vector3(...last.position)).project(event.camera);
+      const dx = ((event.pointer.x - from.x) * size.width) / 2;
+      const dy = ((event.pointer.y - from.y) * size.height) / 2;
+      const step = (angleStep * Math.PI) / 180;
+      const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+      const length = Math.hypot(dx, dy);
+      const ndc = new Vector2(
+        from.x + (Math.cos(angle) * length * 2) / size.width,
+        from.y + (Math.sin(angle) * length * 2) / size.height
+      );
+
+      const raycaster = new Raycaster();
+      raycaster.setFromCamera(ndc, event.camera);
+      const hit = raycaster.intersectObject(meshRef.current)[0];
+      if (!hit || hit.faceIndex === undefined || hit.faceIndex === null) return null;
+      return { point: hit.point, triangle: hit.faceIndex };
+    },
+    [points, angleStep, size]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      event.stopPropagation();
+      const mesh = meshRef.current;
+      if (event.faceIndex === undefined || !mesh) return;
+      const constrained = angleConstraint || event.shiftKey ? constrain(event) : null;
+      // Hits are in world space; the editable mesh is in the mesh's local space
+      const point = mesh.worldToLocal((constrained?.point ?? event.point).clone());
+      // The raycaster reports a buffer triangle; map it to its polygon face
+      const faceIndex = editor.mesh.triangleFaces[constrained?.triangle ?? event.faceIndex];
+      if (faceIndex === undefined) return;
+      const distance = snapDistance / mesh.matrixWorld.getMaxScaleOnAxis();
+      setHover(snapKnifePoint(editor.mesh, point.toArray(), faceIndex, distance));
+    },
+    [editor.mesh, angleConstraint, constrain, snapDistance]
+  );
+
+  const handlePointerOut = useCallback(() => {
+    setHover(null);
+  }, []);
+
+  const handleClick = useCallback(
+    (event: ThreeEvent<MouseEvent>) => {
+      event.stopPropagation();
+      if (!hover) return;
+      setPoints((prev) => [...prev, { position: hover.position, faceIndex: hover.faceIndex }]);
+    },
+    [hover]
+  );
+
+  // Enter cuts, Backspace removes the last point, Escape discards the path
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextInput(event.target)) return;
+      if (event.key === 'Enter') {
+        if (points.length < 2 || !meshRef.current) return;
+        editor.knifeCut(points, viewOptions(camera, meshRef.current));
+        setPoints([]);
+        setHover(null);
+        onCut?.();
+      } else if (event.key === 'Backspace') {
+        setPoints((prev) => prev.slice(0, -1));
+      } else if (event.key === 'Escape') {
+        setPoints([]);
+        onCancel?.();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editor, points, camera, onCut, onCancel]);
+
+  const previewPoints = hover
+    ? [...points.map((p) => p.position), hover.position]
+    : points.map((p) => p.position);
+  const snapped = hover !== null && hover.snap !== 'face';
+
+  return (
+    <group>
+      {/* Invisible surface for raycasting */}
+      <mesh
+        ref={meshRef}
+        geometry={editor.currentGeometry}
+        onPointerMove={handlePointerMove}
+        onPointerOut={handlePointerOut}
+        onClick={handleClick}
+      >
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} side={DoubleSide} />
+      </mesh>
+      <KnifePreview points={previewPoints} color={color} lineWidth={lineWidth} />
+      {/* Cursor marker */}
+      {hover && (
+        <mesh position={hover.position} renderOrder={1000}>
+          <sphereGeometry args={[snapped ? markerSize * 1.5 : markerSize, 12, 12]} />
+          <meshBasicMaterial color={snapped ? snapColor : color} depthTest={false} />
+        </mesh>
+      )}
+      {/* Placed points */}
+      {points.map((point, i) => (
+        <mesh key={i} position={point.position} renderOrder={1000}>
+          <sphereGeometry args={[markerSize, 12, 12]} />
+          <meshBasicMaterial color={color} depthTest={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
@@ -1,11 +1,17 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import type { BufferGeometry } from 'three';
-import type { EditorMode, EditMode } from '../types';
+import type { EditorMode, EditMode, PivotPoint, ProportionalEditOptions, SnapOptions } from '../types';
 import { useMeshEditor, type UseMeshEditorReturn } from '../hooks/useMeshEditor';
 import { VertexHandle, type VertexControlRenderProps } from './VertexHandle';
 import { EdgeLine, type EdgeControlRenderProps } from './EdgeLine';
 import { FaceHighlight, type FaceControlRenderProps } from './FaceHighlight';
 import { EditModeOverlay } from './EditModeOverlay';
+import { FaceNormals } from './FaceNormals';
 import { MeshOutline } from './MeshOutline';
+import { ProportionalPreview } from './ProportionalPreview';
+import { SnapIndicator } from './SnapIndicator';
+import { SelectionControl, type SelectionControlRenderProps } from './SelectionControl';
+import { getSelectionCenter } from '../utils/transform';
 
 /**
  * Props for the MeshEditor component.
@@ -23,6 +29,32 @@ export interface MeshEditorProps {
   onEditModeChange?: (editMode: EditMode) => void;
   /** Callback fired when geometry vertices are modified */
   onGeometryChange?: (geometry: BufferGeometry) => void;
+  /** Merge coplanar triangle pairs into quads when loading the geometry @default true */
+  mergeCoplanarTriangles?: boolean;
+  /** Keep the vertex, edge and face selections in sync across edit modes @default false */
+  syncSelection?: boolean;
+  /**
+   * Proportional editing settings. When set, transforms also move nearby
+   * unselected vertices, and the radius is drawn around the selection.
+   */
+  proportionalEditing?: ProportionalEditOptions;
+  /** Color of the proportional editing radius circle @default '#ffffff' */
+  proportionalColor?: string;
+  /**
+   * Snapping settings. When set, every control's moves snap to the grid or
+   * the mesh and its rotations and scales to their steps, with a marker on
+   * the snap target.
+   */
+  snapping?: SnapOptions;
+  /** Color of the snap target marker @default '#ff6b00' */
+  snapColor?: string;
+  /**
+   * Point rotations and scales of the selection pivot around, used by
+   * `renderSelectionControl` @default 'median'
+   */
+  pivotPoint?: PivotPoint;
+  /** Position of the 3D cursor, for the `'cursor'` pivot point @default [0, 0, 0] */
+  cursor?: [number, number, number];
   /** Size of vertex handle cubes in world units @default 0.05 */
   vertexSize?: number;
   /** Width of edge lines in pixels @default 2 */
@@ -33,6 +65,8 @@ export interface MeshEditorProps {
   defaultVertexColor?: string;
   /** Default color of unselected edges @default '#ffffff' */
   defaultEdgeColor?: string;
+  /** Color of unselected edges marked sharp @default '#00c8ff' */
+  sharpEdgeColor?: string;
   /** Default color of unselected faces @default '#4a90d9' */
   defaultFaceColor?: string;
   /** Color of hovered elements @default '#7bb3e0' */
@@ -43,6 +77,12 @@ export interface MeshEditorProps {
   overlayColor?: string;
   /** Color of the wireframe in edit mode @default '#ffffff' */
   wireframeColor?: string;
+  /** Whether to draw face normal arrows in edit mode @default false */
+  showFaceNormals?: boolean;
+  /** Length of the face normal arrows in world units @default 0.2 */
+  faceNormalLength?: number;
+  /** Color of the face normal arrows @default '#22d3ee' */
+  faceNormalColor?: string;
   /** Whether the object is selected (shows outline in object mode) @default false */
   selected?: boolean;
   /** Whether to show the selection outline @default true */
@@ -66,6 +106,11 @@ export interface MeshEditorProps {
    * Supports translation, rotation, and scale.
    */
   renderFaceControl?: (props: FaceControlRenderProps) => React.ReactNode;
+  /**
+   * Render function for one control shared by the whole selection, placed at
+   * the pivot point. When provided, it replaces the per-element controls.
+   */
+  renderSelectionControl?: (props: SelectionControlRenderProps) => React.ReactNode;
   /**
    * External editor instance for controlled mode.
    * When provided, the component uses this editor instead of creating its own.
@@ -84,7 +129,8 @@ export interface MeshEditorProps {
  * the BufferGeometry by reference.
  *
  * **Bring Your Own Controls:** Use the `renderVertexControl`, `renderEdgeControl`,
- * and `renderFaceControl` props to provide custom transform controls.
+ * and `renderFaceControl` props to provide custom transform controls, or
+ * `renderSelectionControl` for one control at the selection's pivot point.
  * See the Storybook examples for PivotControls integration.
  *
  * @example
@@ -125,16 +171,28 @@ export function MeshEditor({
   onModeChange: _onModeChange,
   onEditModeChange: _onEditModeChange,
   onGeometryChange,
+  mergeCoplanarTriangles = true,
+  syncSelection = false,
+  proportionalEditing,
+  proportionalColor = '#ffffff',
+  snapping,
+  snapColor = '#ff6b00',
+  pivotPoint,
+  cursor,
   vertexSize = 0.05,
   edgeLineWidth = 2,
   selectedColor = '#ff6b00',
   defaultVertexColor = '#4a90d9',
   defaultEdgeColor = '#ffffff',
+  sharpEdgeColor = '#00c8ff',
   defaultFaceColor = '#4a90d9',
   hoverColor = '#7bb3e0',
   transparentOpacity = 0.3,
   overlayColor = '#6699cc',
   wireframeColor = '#ffffff',
+  showFaceNormals = false,
+  faceNormalLength = 0.2,
+  faceNormalColor = '#22d3ee',
   selected = false,
   showOutline = true,
   outlineColor,
@@ -142,6 +200,7 @@ export function MeshEditor({
   renderVertexControl,
   renderEdgeControl,
   renderFaceControl,
+  renderSelectionControl,
   editor: externalEditor,
 }: MeshEditorProps) {
   const internalEditor = useMeshEditor({
@@ -149,6 +208,12 @@ export function MeshEditor({
     initialMode: externalMode ?? 'object',
     initialEditMode: externalEditMode ?? 'vertex',
     onGeometryChange,
+    mergeCoplanarTriangles,
+    syncSelection,
+    proportionalEditing,
+    snapping,
+    pivotPoint,
+    cursor,
   });
 
   // Use external editor if provided, otherwise use internal
@@ -157,6 +222,57 @@ export function MeshEditor({
   const mode = externalMode ?? editor.state.mode;
   const editMode = externalEditMode ?? editor.state.editMode;
 
+  // A controlled edit mode is applied to the editor, so its selection is converted
+  const { setEditMode } = editor;
+  useEffect(() => {
+    if (externalEditMode) setEditMode(externalEditMode);
+  }, [externalEditMode, setEditMode]);
+
+  // The proportional radius is drawn around the median of the selection
+  const { mesh, vertices, state } = editor;
+  const selectionCenter = useMemo(
+    () =>
+      getSelectionCenter(
+        mesh,
+        editMode,
+        editMode === 'vertex' ? state.selectedVertices : editMode === 'edge' ? state.selectedEdges : state.selectedFaces
+      ),
+    // vertices changes whenever the mesh is edited in place
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [mesh, vertices, state, editMode]
+  );
+
+  // Clicks ending a shared control drag must not change the selection
+  const controlDraggingRef = useRef(false);
+  const handleControlDragStart = useCallback(() => {
+    controlDraggingRef.current = true;
+  }, []);
+  const handleControlDragEnd = useCallback(() => {
+    setTimeout(() => {
+      controlDraggingRef.current = false;
+    }, 100);
+  }, []);
+
+  const { selectVertex, selectEdge, selectFace } = editor;
+  const handleSelectVertex = useCallback(
+    (index: number, addToSelection: boolean) => {
+      if (!controlDraggingRef.current) selectVertex(index, addToSelection);
+    },
+    [selectVertex]
+  );
+  const handleSelectEdge = useCallback(
+    (index: number, addToSelection: boolean) => {
+      if (!controlDraggingRef.current) selectEdge(index, addToSelection);
+    },
+    [selectEdge]
+  );
+  const handleSelectFace = useCallback(
+    (index: number, addToSelection: boolean) => {
+      if (!controlDraggingRef.current) selectFace(index, addToSelection);
+    },
+    [selectFace]
+  );
+
   // Use currentGeometry from editor (supports extrusion), fall back to prop
   const activeGeometry = editor.currentGeometry ?? geometry;
 
@@ -190,8 +306,20 @@ export function MeshEditor({
         opacity={transparentOpacity}
         color={overlayColor}
         wireframeColor={wireframeColor}
+        edges={editor.edges}
+        vertices={editor.vertices}
       />
 
+      {/* Face normal arrows */}
+      {showFaceNormals && (
+        <FaceNormals
+          faces={editor.faces}
+          vertices={editor.vertices}
+          length={faceNormalLength}
+          color={faceNormalColor}
+        />
+      )}
+
       {/* Vertex handles - shown in vertex mode */}
       {editMode === 'vertex' &&
         editor.vertices.map((vertex) => (
@@ -203,9 +331,11 @@ export function MeshEditor({
             selectedColor={selectedColor}
             defaultColor={defaultVertexColor}
             hoverColor={hoverColor}
-            onSelect={editor.selectVertex}
+            onSelect={handleSelectVertex}
             onMove={editor.updateVertexPosition}
-            renderControl={renderVertexControl}
+            onDragStart={editor.beginHistoryGroup}
+            onDragEnd={editor.endHistoryGroup}
+            renderControl={renderSelectionControl ? undefined : renderVertexControl}
           />
         ))}
 
@@ -218,14 +348,18 @@ export function MeshEditor({
             vertices={editor.vertices}
             selected={editor.state.selectedEdges.has(edge.index)}
             selectedColor={selectedColor}
-            defaultColor={defaultEdgeColor}
+            defaultColor={edge.sharp ? sharpEdgeColor : defaultEdgeColor}
             hoverColor={hoverColor}
             lineWidth={edgeLineWidth}
-            onSelect={editor.selectEdge}
+            onSelect={handleSelectEdge}
+            onSelectLoop={editor.selectEdgeLoop}
+            onSelectRing={editor.selectEdgeRing}
             onMoveVertices={editor.moveVerticesByDelta}
             onTransformVertices={editor.transformVertices}
             onCaptureInitialPositions={editor.captureInitialPositions}
-            renderControl={renderEdgeControl}
+            onDragStart={editor.beginHistoryGroup}
+            onDragEnd={editor.endHistoryGroup}
+            renderControl={renderSelectionControl ? undefined : renderEdgeControl}
           />
         ))}
 
@@ -241,13 +375,37 @@ export function MeshEditor({
             defaultColor={defaultFaceColor}
             hoverColor={hoverColor}
             opacity={transparentOpacity}
-            onSelect={editor.selectFace}
+            onSelect={handleSelectFace}
             onMoveVertices={editor.moveVerticesByDelta}
             onTransformVertices={editor.transformVertices}
             onCaptureInitialPositions={editor.captureInitialPositions}
-            renderControl={renderFaceControl}
+            onDragStart={editor.beginHistoryGroup}
+            onDragEnd={editor.endHistoryGroup}
+            renderControl={renderSelectionControl ? undefined : renderFaceControl}
           />
         ))}
+
+      {/* Control shared by the whole selection, at the pivot point */}
+      {renderSelectionControl && (
+        <SelectionControl
+          editor={editor}
+          renderControl={renderSelectionControl}
+          onDragStart={handleControlDragStart}
+          onDragEnd={handleControlDragEnd}
+        />
+      )}
+
+      {/* Proportional editing radius around the selection */}
+      {editor.proportionalEditing && selectionCenter && (
+        <ProportionalPreview
+          center={selectionCenter}
+          radius={editor.proportionalEditing.radius}
+          color={proportionalColor}
+        />
+      )}
+
+      {/* Snap target of the current move */}
+      <SnapIndicator snap={editor.snapResult} color={snapColor} />
     </group>
   );
 }
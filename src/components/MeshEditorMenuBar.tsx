@@ -1,10 +1,13 @@
+import { Fragment } from 'react';
 import { Box, Pencil, Grid3X3, Minus, Triangle } from 'lucide-react';
 import {
   Menubar,
   MenubarContent,
+  MenubarItem,
   MenubarMenu,
   MenubarRadioGroup,
   MenubarRadioItem,
+  MenubarSeparator,
   MenubarShortcut,
   MenubarTrigger,
 } from './ui/menubar';
@@ -25,6 +28,20 @@ export interface MeshEditorMenuBarProps {
   onModeChange: (mode: EditorMode) => void;
   /** Callback when edit sub-mode changes */
   onEditModeChange: (editMode: EditMode) => void;
+  /** Callback for the Select > All entry */
+  onSelectAll?: () => void;
+  /** Callback for the Select > None entry */
+  onDeselectAll?: () => void;
+  /** Callback for the Select > Invert entry */
+  onInvertSelection?: () => void;
+  /** Callback for the Select > Grow entry */
+  onGrowSelection?: () => void;
+  /** Callback for the Select > Shrink entry */
+  onShrinkSelection?: () => void;
+  /** Callback for the Select > Random entry */
+  onSelectRandom?: () => void;
+  /** Callback for the Select > Checker Deselect entry */
+  onSelectNth?: () => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -34,6 +51,8 @@ export interface MeshEditorMenuBarProps {
  *
  * Provides a Mode menu for switching between object/edit modes and
  * a ButtonGroup for selecting the edit sub-mode (vertex, edge, face).
+ * In edit mode, a Select menu lists the selection commands whose
+ * callbacks are provided.
  *
  * @example
  * ```tsx
@@ -50,12 +69,37 @@ export function MeshEditorMenuBar({
   editMode,
   onModeChange,
   onEditModeChange,
+  onSelectAll,
+  onDeselectAll,
+  onInvertSelection,
+  onGrowSelection,
+  onShrinkSelection,
+  onSelectRandom,
+  onSelectNth,
   className,
 }: MeshEditorMenuBarProps) {
   const handleModeChange = (value: string) => {
     onModeChange(value as EditorMode);
   };
 
+  const selectGroups = [
+    [
+      { label: 'All', onSelect: onSelectAll },
+      { label: 'None', onSelect: onDeselectAll },
+      { label: 'Invert', onSelect: onInvertSelection },
+    ],
+    [
+      { label: 'Grow', onSelect: onGrowSelection },
+      { label: 'Shrink', onSelect: onShrinkSelection },
+    ],
+    [
+      { label: 'Random', onSelect: onSelectRandom },
+      { label: 'Checker Deselect', onSelect: onSelectNth },
+    ],
+  ]
+    .map((group) => group.filter((item) => item.onSelect))
+    .filter((group) => group.length > 0);
+
   return (
     <div className={cn('flex items-center gap-2', className)}>
       {/* Mode Menu */}
@@ -84,6 +128,27 @@ export function MeshEditorMenuBar({
             </MenubarRadioGroup>
           </MenubarContent>
         </MenubarMenu>
+
+        {/* Select Menu - Only visible in Edit Mode */}
+        {mode === 'edit' && selectGroups.length > 0 && (
+          <MenubarMenu>
+            <MenubarTrigger className="border border-input bg-background shadow-sm hover:bg-accent hover:text-accent-foreground">
+              Select
+            </MenubarTrigger>
+            <MenubarContent>
+              {selectGroups.map((group, i) => (
+                <Fragment key={i}>
+                  {i > 0 && <MenubarSeparator />}
+                  {group.map((item) => (
+                    <MenubarItem key={item.label} onSelect={item.onSelect}>
+                      {item.label}
+                    </MenubarItem>
+                  ))}
+                </Fragment>
+              ))}
+            </MenubarContent>
+          </MenubarMenu>
+        )}
       </Menubar>
 
       {/* Selection ButtonGroup - Only visible in Edit Mode */}
@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { Billboard, Line } from '@react-three/drei';
+
+/**
+ * Props for the ProportionalPreview component.
+ */
+export interface ProportionalPreviewProps {
+  /** Center of the circle, usually the transform gizmo position */
+  center: [number, number, number];
+  /** Proportional editing radius in world units */
+  radius: number;
+  /** Color of the circle @default '#ffffff' */
+  color?: string;
+  /** Width of the circle line in pixels @default 1.5 */
+  lineWidth?: number;
+  /** Number of line segments @default 64 */
+  segments?: number;
+}
+
+/**
+ * Circle showing the proportional editing radius around the transform
+ * gizmo. The circle always faces the camera, like Blender's.
+ *
+ * @example
+ * ```tsx
+ * <ProportionalPreview center={center} radius={editor.proportionalEditing.radius} />
+ * ```
+ */
+export function ProportionalPreview({
+  center,
+  radius,
+  color = '#ffffff',
+  lineWidth = 1.5,
+  segments = 64,
+}: ProportionalPreviewProps) {
+  const points = useMemo(
+    () =>
+      Array.from({ length: segments + 1 }, (_, i): [number, number, number] => {
+        const angle = (i / segments) * Math.PI * 2;
+        return [Math.cos(angle) * radius, Math.sin(angle) * radius, 0];
+      }),
+    [radius, segments]
+  );
+
+  if (radius <= 0) return null;
+
+  return (
+    <Billboard position={center}>
+      <Line
+        points={points}
+        color={color}
+        lineWidth={lineWidth}
+        dashed
+        dashSize={radius * 0.05}
+        gapSize={radius * 0.03}
+        depthTest={false}
+        renderOrder={999}
+      />
+    </Billboard>
+  );
+}
@@ -0,0 +1,115 @@
+import { useCallback, useMemo } from 'react';
+import type { UseMeshEditorReturn } from '../hooks/useMeshEditor';
+import type { EditMode, PivotPoint } from '../types';
+import { convertSelection } from '../utils/selection';
+
+/**
+ * Props passed to the custom control render function for the whole selection.
+ */
+export interface SelectionControlRenderProps {
+  /** The kind of elements selected */
+  editMode: EditMode;
+  /** Vertices of the selected elements */
+  vertexIndices: number[];
+  /** Pivot point of the selection */
+  center: [number, number, number];
+  /** The pivot point mode the center was found with */
+  pivotPoint: PivotPoint;
+  /** Callback to move the selection by a delta */
+  onMoveByDelta: (delta: [number, number, number]) => void;
+  /** Callback to transform the selection (rotation/scale around the pivot) */
+  onTransform: (
+    rotation: { x: number; y: number; z: number; w: number },
+    scale: [number, number, number]
+  ) => void;
+  /** Callback to capture initial positions and the pivot before transform */
+  onCaptureInitialPositions: () => void;
+  /** Callback when drag starts */
+  onDragStart?: () => void;
+  /** Callback when drag ends */
+  onDragEnd?: () => void;
+}
+
+/**
+ * Props for the SelectionControl component.
+ */
+export interface SelectionControlProps {
+  /** The editor whose selection is transformed */
+  editor: UseMeshEditorReturn;
+  /** Render function for the transform control */
+  renderControl: (props: SelectionControlRenderProps) => React.ReactNode;
+  /** Callback when a control drag starts */
+  onDragStart?: () => void;
+  /** Callback when a control drag ends */
+  onDragEnd?: () => void;
+}
+
+/**
+ * One transform control for the whole selection, placed at the editor's
+ * pivot point.
+ *
+ * Rotations and scales go through the editor's `transformSelection`, so
+ * they pivot according to `pivotPoint`, and each drag is one undo step.
+ *
+ * @example
+ * ```tsx
+ * <SelectionControl
+ *   editor={editor}
+ *   renderControl={({ center, onMoveByDelta, onTransform }) => (
+ *     <PivotControls
+ *       matrix={new Matrix4().setPosition(...center)}
+ *       onDrag={(matrix) => { ... }}
+ *     />
+ *   )}
+ * />
+ * ```
+ */
+export function SelectionControl({ editor, renderControl, onDragStart, onDragEnd }: SelectionControlProps) {
+  const { state, mesh, pivot, pivotPoint } = editor;
+  const { moveVerticesByDelta, transformSelection, captureSelection, beginHistoryGroup, endHistoryGroup } = editor;
+
+  const vertexIndices = useMemo(() => {
+    const selection =
+      state.editMode === 'vertex'
+        ? state.selectedVertices
+        : state.editMode === 'edge'
+          ? state.selectedEdges
+          : state.selectedFaces;
+    return convertSelection(mesh, selection, state.editMode, 'vertex');
+  }, [mesh, state]);
+
+  const handleMoveByDelta = useCallback(
+    (delta: [number, number, number]) => {
+      moveVerticesByDelta(vertexIndices, delta);
+    },
+    [vertexIndices, moveVerticesByDelta]
+  );
+
+  const handleDragStart = useCallback(() => {
+    beginHistoryGroup();
+    onDragStart?.();
+  }, [beginHistoryGroup, onDragStart]);
+
+  const handleDragEnd = useCallback(() => {
+    endHistoryGroup();
+    onDragEnd?.();
+  }, [endHistoryGroup, onDragEnd]);
+
+  if (!pivot || vertexIndices.length === 0) return null;
+
+  return (
+    <>
+      {renderControl({
+        editMode: state.editMode,
+        vertexIndices,
+        center: pivot,
+        pivotPoint,
+        onMoveByDelta: handleMoveByDelta,
+        onTransform: transformSelection,
+        onCaptureInitialPositions: captureSelection,
+        onDragStart: handleDragStart,
+        onDragEnd: handleDragEnd,
+      })}
+    </>
+  );
+}
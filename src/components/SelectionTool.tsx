@@ -0,0 +1,286 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import { DoubleSide, type Mesh } from 'three';
+import type { UseMeshEditorReturn } from '../hooks/useMeshEditor';
+import type { SelectionOperation } from '../types';
+import { combineSelection, selectInShape, type SelectionShape } from '../utils/selection';
+
+/**
+ * The shape drawn by the SelectionTool.
+ * - `'box'`: Drag a rectangle
+ * - `'circle'`: Paint with a circular brush
+ * - `'lasso'`: Draw a freehand outline
+ */
+export type SelectionToolType = 'box' | 'circle' | 'lasso';
+
+/**
+ * Props for the SelectionTool component.
+ */
+export interface SelectionToolProps {
+  /** The editor to select in */
+  editor: UseMeshEditorReturn;
+  /** The shape to select with @default 'box' */
+  tool?: SelectionToolType;
+  /** Radius of the circle brush in pixels @default 40 */
+  brushRadius?: number;
+  /** Select elements hidden behind the mesh too @default false */
+  selectThrough?: boolean;
+  /** Color of the selection outline @default '#ff6b00' */
+  color?: string;
+  /** Callback fired after a drag changes the selection */
+  onSelect?: () => void;
+}
+
+/**
+ * A drag in progress.
+ * @internal
+ */
+interface SelectionDrag {
+  operation: SelectionOperation;
+  points: Array<[number, number]>;
+  /** Selection when the drag started, for the circle brush */
+  initial: Set<number>;
+  /** Elements painted so far by the circle brush */
+  painted: Set<number>;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Drags shorter than this many pixels are left to click selection.
+ * @internal
+ */
+const MIN_DRAG_DISTANCE = 3;
+
+/**
+ * Selection operation for the held modifier keys.
+ * @internal
+ */
+function operationFor(event: PointerEvent): SelectionOperation {
+  const subtract = event.ctrlKey || event.metaKey;
+  if (event.shiftKey && subtract) return 'intersect';
+  if (event.shiftKey) return 'add';
+  if (subtract) return 'subtract';
+  return 'set';
+}
+
+/**
+ * Screen-space box, circle and lasso selection, similar to Blender's B, C
+ * and Ctrl+right-drag tools.
+ *
+ * Drag on the canvas to select the vertices, edges or faces of the current
+ * edit mode inside the shape. Hold Shift to add to the selection, Ctrl to
+ * subtract from it, or both to intersect with it. The circle brush paints
+ * the selection as it moves. Unless `selectThrough` is set, elements hidden
+ * behind the mesh are not selected. Escape cancels the drag.
+ *
+ * The tool listens to pointer events on the canvas itself, so camera
+ * controls should be disabled while it is in use. Render it inside the
+ * Canvas alongside the edited mesh.
+ *
+ * @example
+ * ```tsx
+ * const editor = useMeshEditor({ geometry, initialMode: 'edit' });
+ * <SelectionTool editor={editor} tool="lasso" />
+ * ```
+ */
+export function SelectionTool({
+  editor,
+  tool = 'box',
+  brushRadius = 40,
+  selectThrough = false,
+  color = '#ff6b00',
+  onSelect,
+}: SelectionToolProps) {
+  const meshRef = useRef<Mesh>(null);
+  const dragRef = useRef<SelectionDrag | null>(null);
+  const outlineRef = useRef<SVGPathElement | null>(null);
+  const brushRef = useRef<SVGCircleElement | null>(null);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const gl = useThree((state) => state.gl);
+
+  // Outline overlay on top of the canvas
+  useEffect(() => {
+    const container = gl.domElement.parentElement;
+    if (!container) return;
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.style.cssText = 'position:absolute;inset:0;width:100%;height:100%;pointer-events:none;overflow:visible';
+    const outline = document.createElementNS(SVG_NS, 'path');
+    const brush = document.createElementNS(SVG_NS, 'circle');
+    [outline, brush].forEach((element) => {
+      element.setAttribute('stroke', color);
+      element.setAttribute('stroke-width', '1.5');
+      element.setAttribute('stroke-dasharray', '4 3');
+      element.setAttribute('fill', color);
+      element.setAttribute('fill-opacity', '0.08');
+      element.style.display = 'none';
+      svg.appendChild(element);
+    });
+    container.appendChild(svg);
+    outlineRef.current = outline;
+    brushRef.current = brush;
+    return () => {
+      container.removeChild(svg);
+      outlineRef.current = null;
+      brushRef.current = null;
+    };
+  }, [gl, color]);
+
+  const shapeOf = useCallback(
+    (drag: SelectionDrag): SelectionShape => {
+      const points = drag.points;
+      if (tool === 'circle') return { type: 'circle', center: points[points.length - 1], radius: brushRadius };
+      if (tool === 'lasso') return { type: 'lasso', points };
+      return { type: 'box', start: points[0], end: points[points.length - 1] };
+    },
+    [tool, brushRadius]
+  );
+
+  const select = useCallback(
+    (shape: SelectionShape) =>
+      selectInShape(editor.mesh, editor.state.editMode, shape, {
+        camera,
+        size,
+        matrixWorld: meshRef.current?.matrixWorld,
+        occluder: selectThrough ? undefined : meshRef.current ?? undefined,
+      }),
+    [editor.mesh, editor.state.editMode, camera, size, selectThrough]
+  );
+
+  const draw = useCallback(
+    (cursor: [number, number] | null) => {
+      const outline = outlineRef.current;
+      const brush = brushRef.current;
+      if (!outline || !brush) return;
+      const drag = dragRef.current;
+      if (drag && tool !== 'circle') {
+        const points =
+          tool === 'box'
+            ? [
+                drag.points[0],
+                [drag.points[drag.points.length - 1][0], drag.points[0][1]],
+                drag.points[drag.points.length - 1],
+                [drag.points[0][0], drag.points[drag.points.length - 1][1]],
+              ]
+            : drag.points;
+        outline.setAttribute('d', `M${points.map(([x, y]) => `${x},${y}`).join('L')}Z`);
+        outline.style.display = '';
+      } else {
+        outline.style.display = 'none';
+      }
+      if (tool === 'circle' && cursor) {
+        brush.setAttribute('cx', String(cursor[0]));
+        brush.setAttribute('cy', String(cursor[1]));
+        brush.setAttribute('r', String(brushRadius));
+        brush.style.display = '';
+      } else {
+        brush.style.display = 'none';
+      }
+    },
+    [tool, brushRadius]
+  );
+
+  const paint = useCallback(
+    (drag: SelectionDrag) => {
+      select(shapeOf(drag)).forEach((index) => drag.painted.add(index));
+      editor.selectElements(combineSelection(drag.initial, drag.painted, drag.operation));
+    },
+    [editor, select, shapeOf]
+  );
+
+  useEffect(() => {
+    const element = gl.domElement;
+    const pointFor = (event: PointerEvent): [number, number] => {
+      const rect = element.getBoundingClientRect();
+      return [event.clientX - rect.left, event.clientY - rect.top];
+    };
+    const selection = () =>
+      editor.state.editMode === 'vertex'
+        ? editor.state.selectedVertices
+        : editor.state.editMode === 'edge'
+          ? editor.state.selectedEdges
+          : editor.state.selectedFaces;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0 || editor.state.mode !== 'edit') return;
+      element.setPointerCapture(event.pointerId);
+      const drag: SelectionDrag = {
+        operation: operationFor(event),
+        points: [pointFor(event)],
+        initial: new Set(selection()),
+        painted: new Set(),
+      };
+      dragRef.current = drag;
+      if (tool === 'circle') paint(drag);
+      draw(drag.points[0]);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const point = pointFor(event);
+      const drag = dragRef.current;
+      if (drag) {
+        if (tool === 'lasso') {
+          drag.points.push(point);
+        } else if (tool === 'box') {
+          drag.points = [drag.points[0], point];
+        } else {
+          drag.points = [point];
+          paint(drag);
+        }
+      }
+      draw(point);
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      dragRef.current = null;
+      element.releasePointerCapture(event.pointerId);
+      draw(pointFor(event));
+      if (tool === 'circle') {
+        onSelect?.();
+        return;
+      }
+      const [start] = drag.points;
+      const moved = drag.points.some(
+        ([x, y]) => Math.hypot(x - start[0], y - start[1]) >= MIN_DRAG_DISTANCE
+      );
+      if (!moved || (tool === 'lasso' && drag.points.length < 3)) return;
+      editor.selectElements(select(shapeOf(drag)), drag.operation);
+      onSelect?.();
+    };
+
+    const handlePointerLeave = () => {
+      if (!dragRef.current) draw(null);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const drag = dragRef.current;
+      if (event.key !== 'Escape' || !drag) return;
+      dragRef.current = null;
+      if (tool === 'circle') editor.selectElements(drag.initial);
+      draw(null);
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerup', handlePointerUp);
+    element.addEventListener('pointerleave', handlePointerLeave);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointerleave', handlePointerLeave);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [gl, editor, tool, draw, paint, select, shapeOf, onSelect]);
+
+  return (
+    /* Invisible surface for occlusion tests */
+    <mesh ref={meshRef} geometry={editor.currentGeometry} visible={false}>
+      <meshBasicMaterial side={DoubleSide} />
+    </mesh>
+  );
+}
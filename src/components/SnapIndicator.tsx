@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import { Billboard, Line } from '@react-three/drei';
+import type { SnapResult } from '../utils/snapping';
+
+/**
+ * Props for the SnapIndicator component.
+ */
+export interface SnapIndicatorProps {
+  /** What the current move snapped to */
+  snap: SnapResult | null;
+  /** Size of the marker in world units @default 0.06 */
+  size?: number;
+  /** Color of the marker @default '#ff6b00' */
+  color?: string;
+  /** Width of the marker lines in pixels @default 2 */
+  lineWidth?: number;
+}
+
+/**
+ * Outline of the marker for each snap target, in the billboard plane.
+ * @internal
+ */
+function markerPoints(target: SnapResult['target'], size: number): Array<[number, number, number]> {
+  const r = size / 2;
+  if (target === 'vertex') {
+    return Array.from({ length: 25 }, (_, i): [number, number, number] => {
+      const angle = (i / 24) * Math.PI * 2;
+      return [Math.cos(angle) * r, Math.sin(angle) * r, 0];
+    });
+  }
+  if (target === 'midpoint') {
+    return [
+      [0, r, 0],
+      [-r, -r, 0],
+      [r, -r, 0],
+      [0, r, 0],
+    ];
+  }
+  if (target === 'grid') {
+    // Plus sign, drawn as one line through the center
+    return [
+      [-r, 0, 0],
+      [r, 0, 0],
+      [0, 0, 0],
+      [0, r, 0],
+      [0, -r, 0],
+    ];
+  }
+  return [
+    [-r, -r, 0],
+    [r, -r, 0],
+    [r, r, 0],
+    [-r, r, 0],
+    [-r, -r, 0],
+  ];
+}
+
+/**
+ * Marker showing where a move snapped: a circle on vertices, a triangle on
+ * edge midpoints, a square on edges and faces and a cross on the grid.
+ * Face snaps also draw the face normal.
+ *
+ * @example
+ * ```tsx
+ * <SnapIndicator snap={editor.snapResult} />
+ * ```
+ */
+export function SnapIndicator({ snap, size = 0.06, color = '#ff6b00', lineWidth = 2 }: SnapIndicatorProps) {
+  const target = snap?.target;
+  const points = useMemo(() => (target ? markerPoints(target, size) : []), [target, size]);
+
+  if (!snap) return null;
+
+  const [x, y, z] = snap.position;
+  return (
+    <group>
+      <Billboard position={snap.position}>
+        <Line points={points} color={color} lineWidth={lineWidth} depthTest={false} renderOrder={1000} />
+      </Billboard>
+      {snap.normal && (
+        <Line
+          points={[
+            snap.position,
+            [x + snap.normal[0] * size * 4, y + snap.normal[1] * size * 4, z + snap.normal[2] * size * 4],
+          ]}
+          color={color}
+          lineWidth={lineWidth}
+          depthTest={false}
+          renderOrder={1000}
+        />
+      )}
+    </group>
+  );
+}
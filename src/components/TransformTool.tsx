@@ -0,0 +1,510 @@
+import { useEffect, useRef, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import { Quaternion, Raycaster, Vector2, Vector3, type Group, type Ray } from 'three';
+import type { UseMeshEditorReturn } from '../hooks/useMeshEditor';
+import type { TransformOrientation } from '../types';
+import { convertSelection } from '../utils/selection';
+import { getOrientationBasis } from '../utils/transform';
+import { isTextInput } from '../utils/dom';
+
+/**
+ * The modal transform started by a key.
+ * - `'grab'`: Move the selection (G)
+ * - `'rotate'`: Rotate the selection around the pivot point (R)
+ * - `'scale'`: Scale the selection from the pivot point (S)
+ */
+export type TransformMode = 'grab' | 'rotate' | 'scale';
+
+/**
+ * Props for the TransformTool component.
+ */
+export interface TransformToolProps {
+  /** The editor to transform in */
+  editor: UseMeshEditorReturn;
+  /**
+   * Orientation used when an axis key is pressed twice. The first press
+   * always constrains to the global axis. @default 'global'
+   */
+  orientation?: TransformOrientation;
+  /** Whether the G, R and S keys start transforms @default true */
+  enabled?: boolean;
+  /** Show the transform and typed value above the canvas @default true */
+  showStatus?: boolean;
+  /** Callback fired when a transform starts */
+  onStart?: (mode: TransformMode) => void;
+  /** Callback fired when a transform is confirmed or cancelled */
+  onEnd?: (mode: TransformMode, confirmed: boolean) => void;
+}
+
+/**
+ * An axis or plane constraint.
+ * @internal
+ */
+interface TransformConstraint {
+  axis: 0 | 1 | 2;
+  /** Constrain to the plane perpendicular to the axis instead */
+  plane: boolean;
+  orientation: TransformOrientation;
+}
+
+/**
+ * A modal transform in progress.
+ * @internal
+ */
+interface ModalTransform {
+  mode: TransformMode;
+  vertexIndices: number[];
+  center: [number, number, number];
+  /** Pointer position at the start, in canvas pixels */
+  start: [number, number];
+  pointer: [number, number];
+  constraint: TransformConstraint | null;
+  /** Axes of each orientation, fixed when the transform started */
+  bases: Record<TransformOrientation, { x: number; y: number; z: number; w: number }>;
+  /** Typed numeric value */
+  input: string;
+  /** Move applied so far by grab */
+  applied: [number, number, number];
+  /** Rotation angle from pointer movement, and the last pointer angle */
+  angle: number;
+  lastAngle: number;
+}
+
+/**
+ * Axis line drawn while a constraint is active.
+ * @internal
+ */
+interface AxisGuide {
+  center: [number, number, number];
+  direction: [number, number, number];
+  color: string;
+}
+
+const AXIS_NAMES = ['X', 'Y', 'Z'] as const;
+const AXIS_COLORS = ['#ff3352', '#8bdc00', '#2890ff'] as const;
+const UNIT_AXES = [new Vector3(1, 0, 0), new Vector3(0, 1, 0), new Vector3(0, 0, 1)];
+const MODE_LABELS: Record<TransformMode, string> = { grab: 'Move', rotate: 'Rotate', scale: 'Resize' };
+const MODE_KEYS: Record<string, TransformMode> = { g: 'grab', r: 'rotate', s: 'scale' };
+
+/**
+ * Blender-style modal transforms driven by the keyboard.
+ *
+ * With the pointer over the canvas in edit mode, press G to move, R to
+ * rotate or S to scale the selection, then move the pointer. Press X, Y or
+ * Z to constrain to an axis, or Shift with the key to constrain to the
+ * plane perpendicular to it; pressing the key again switches from global
+ * to the `orientation` axes, and a third time removes the constraint.
+ * Type a number to enter an exact distance, angle in degrees or factor
+ * (`G X 0.5 Enter`). Click or press Enter to confirm, right-click or press
+ * Escape to cancel.
+ *
+ * Transforms go through the editor's `moveVerticesByDelta` and
+ * `transformSelection`, so they pivot around its pivot point, proportional
+ * editing and snapping apply, and each transform is one undo step. Render
+ * it inside the Canvas next to the edited mesh, under the same transform.
+ *
+ * @example
+ * ```tsx
+ * const editor = useMeshEditor({ geometry, initialMode: 'edit' });
+ * <MeshEditor geometry={geometry} editor={editor} />
+ * <TransformTool editor={editor} orientation="normal" />
+ * ```
+ */
+export function TransformTool({
+  editor,
+  orientation = 'global',
+  enabled = true,
+  showStatus = true,
+  onStart,
+  onEnd,
+}: TransformToolProps) {
+  const groupRef = useRef<Group>(null);
+  const modalRef = useRef<ModalTransform | null>(null);
+  const pointerRef = useRef<[number, number] | null>(null);
+  const statusRef = useRef<HTMLDivElement | null>(null);
+  const suppressMenuRef = useRef(false);
+  const [guides, setGuides] = useState<AxisGuide[]>([]);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const gl = useThree((state) => state.gl);
+
+  // The editor and callbacks change every render; the listeners read the
+  // latest ones here instead of being reattached
+  const latestRef = useRef({ editor, onStart, onEnd });
+  latestRef.current = { editor, onStart, onEnd };
+
+  // Cancel a transform left open when unmounting
+  useEffect(
+    () => () => {
+      if (modalRef.current) latestRef.current.editor.cancelHistoryGroup();
+    },
+    []
+  );
+
+  // Status text on top of the canvas
+  useEffect(() => {
+    const container = gl.domElement.parentElement;
+    if (!container || !showStatus) return;
+    const status = document.createElement('div');
+    status.style.cssText =
+      'position:absolute;top:8px;left:8px;padding:2px 8px;border-radius:4px;pointer-events:none;' +
+      'background:rgba(0,0,0,0.6);color:#fff;font:12px monospace;display:none';
+    container.appendChild(status);
+    statusRef.current = status;
+    return () => {
+      container.removeChild(status);
+      statusRef.current = null;
+    };
+  }, [gl, showStatus]);
+
+  useEffect(() => {
+    const element = gl.domElement;
+    const matrixWorld = () => {
+      groupRef.current?.updateWorldMatrix(true, false);
+      return groupRef.current?.matrixWorld;
+    };
+
+    const rayFor = ([x, y]: [number, number]): Ray => {
+      const raycaster = new Raycaster();
+      raycaster.setFromCamera(new Vector2((x / size.width) * 2 - 1, -(y / size.height) * 2 + 1), camera);
+      return raycaster.ray;
+    };
+
+    const toWorld = (point: [number, number, number]) => {
+      const world = new Vector3(...point);
+      const matrix = matrixWorld();
+      return matrix ? world.applyMatrix4(matrix) : world;
+    };
+
+    const toLocal = (point: Vector3) => {
+      const matrix = matrixWorld();
+      return matrix ? point.clone().applyMatrix4(matrix.clone().invert()) : point.clone();
+    };
+
+    const toWorldDirection = (direction: Vector3) => {
+      const matrix = matrixWorld();
+      return matrix ? direction.clone().transformDirection(matrix) : direction.clone().normalize();
+    };
+
+    const toLocalDirection = (direction: Vector3) => {
+      const matrix = matrixWorld();
+      return matrix
+        ? direction.clone().transformDirection(matrix.clone().invert())
+        : direction.clone().normalize();
+    };
+
+    const toScreen = (point: Vector3): [number, number] => {
+      const ndc = point.clone().project(camera);
+      return [((ndc.x + 1) / 2) * size.width, ((1 - ndc.y) / 2) * size.height];
+    };
+
+    // Axis of a constraint, in the mesh's local space
+    const axisOf = (modal: ModalTransform, constraint: TransformConstraint) => {
+      const basis = modal.bases[constraint.orientation];
+      return UNIT_AXES[constraint.axis]
+        .clone()
+        .applyQuaternion(new Quaternion(basis.x, basis.y, basis.z, basis.w));
+    };
+
+    // Point under the pointer on the line or plane the move is constrained to
+    const grabPoint = (modal: ModalTransform, pointer: [number, number]): Vector3 | null => {
+      const ray = rayFor(pointer);
+      const center = toWorld(modal.center);
+      const { constraint } = modal;
+      if (constraint && !constraint.plane) {
+        const direction = toWorldDirection(axisOf(modal, constraint));
+        const point = new Vector3();
+        ray.distanceSqToSegment(
+          center.clone().addScaledVector(direction, -1e4),
+          center.clone().addScaledVector(direction, 1e4),
+          undefined,
+          point
+        );
+        return point;
+      }
+      const normal = constraint
+        ? toWorldDirection(axisOf(modal, constraint))
+        : camera.getWorldDirection(new Vector3());
+      const d = normal.dot(ray.direction);
+      if (Math.abs(d) < 1e-6) return null;
+      const t = normal.dot(center.clone().sub(ray.origin)) / d;
+      return ray.origin.clone().addScaledVector(ray.direction, t);
+    };
+
+    const numericValue = (modal: ModalTransform): number | null => {
+      const value = parseFloat(modal.input);
+      return Number.isNaN(value) ? null : value;
+    };
+
+    const updateStatus = (modal: ModalTransform | null, value = '') => {
+      const status = statusRef.current;
+      if (!status) return;
+      if (!modal) {
+        status.style.display = 'none';
+        return;
+      }
+      const { constraint } = modal;
+      let along = '';
+      if (constraint?.plane) {
+        const axes = AXIS_NAMES.filter((_, i) => i !== constraint.axis).join('');
+        along = ` on ${axes} (${constraint.orientation})`;
+      } else if (constraint) {
+        along = ` along ${AXIS_NAMES[constraint.axis]} (${constraint.orientation})`;
+      }
+      const typed = modal.input ? `  [${modal.input}|]` : '';
+      status.textContent = `${MODE_LABELS[modal.mode]}${along}: ${value}${typed}`;
+      status.style.display = '';
+    };
+
+    const updateGuides = (modal: ModalTransform | null) => {
+      if (!modal?.constraint) {
+        setGuides([]);
+        return;
+      }
+      const { constraint } = modal;
+      const axes = constraint.plane ? [0, 1, 2].filter((i) => i !== constraint.axis) : [constraint.axis];
+      setGuides(
+        axes.map((axis) => ({
+          center: modal.center,
+          direction: axisOf(modal, { ...constraint, axis: axis as 0 | 1 | 2 }).toArray(),
+          color: AXIS_COLORS[axis],
+        }))
+      );
+    };
+
+    const apply = (modal: ModalTransform) => {
+      const { editor } = latestRef.current;
+      const value = numericValue(modal);
+      const { constraint } = modal;
+
+      if (modal.mode === 'grab') {
+        let delta = new Vector3();
+        if (value !== null) {
+          // Typed distances go along the constrained axis, or the first free one
+          const axis = constraint ? (constraint.plane ? (constraint.axis === 0 ? 1 : 0) : constraint.axis) : 0;
+          const direction = toWorldDirection(
+            axisOf(modal, { axis, plane: false, orientation: constraint?.orientation ?? 'global' })
+          );
+          const center = toWorld(modal.center);
+          delta = toLocal(center.addScaledVector(direction, value)).sub(new Vector3(...modal.center));
+        } else {
+          const start = grabPoint(modal, modal.start);
+          const current = grabPoint(modal, modal.pointer);
+          if (start && current) delta = toLocal(current).sub(toLocal(start));
+        }
+        const [ax, ay, az] = modal.applied;
+        editor.moveVerticesByDelta(modal.vertexIndices, [delta.x - ax, delta.y - ay, delta.z - az]);
+        modal.applied = delta.toArray();
+        updateStatus(modal, delta.toArray().map((c) => c.toFixed(3)).join(', '));
+        return;
+      }
+
+      if (modal.mode === 'rotate') {
+        const center = toWorld(modal.center);
+        const toCamera = camera.getWorldPosition(new Vector3()).sub(center).normalize();
+        const axis = constraint ? toWorldDirection(axisOf(modal, constraint)) : toCamera;
+        // Pointer rotation is counterclockwise on screen around an axis facing the viewer
+        const angle =
+          value !== null ? (value * Math.PI) / 180 : axis.dot(toCamera) < 0 ? -modal.angle : modal.angle;
+        const rotation = new Quaternion().setFromAxisAngle(toLocalDirection(axis), angle);
+        editor.transformSelection(rotation, [1, 1, 1]);
+        updateStatus(modal, `${((angle * 180) / Math.PI).toFixed(1)}°`);
+        return;
+      }
+
+      const centerScreen = toScreen(toWorld(modal.center));
+      const startDistance = Math.hypot(modal.start[0] - centerScreen[0], modal.start[1] - centerScreen[1]);
+      const distance = Math.hypot(modal.pointer[0] - centerScreen[0], modal.pointer[1] - centerScreen[1]);
+      const factor = value ?? (startDistance < 1 ? 1 : distance / startDistance);
+      const scale: [number, number, number] = constraint
+        ? [0, 1, 2].map((i) => ((i === constraint.axis) !== constraint.plane ? factor : 1)) as [number, number, number]
+        : [factor, factor, factor];
+      editor.transformSelection({ x: 0, y: 0, z: 0, w: 1 }, scale, modal.bases[constraint?.orientation ?? 'global']);
+      updateStatus(modal, factor.toFixed(3));
+    };
+
+    const start = (mode: TransformMode) => {
+      const { editor, onStart } = latestRef.current;
+      const { state } = editor;
+      const selection = Array.from(
+        state.editMode === 'vertex'
+          ? state.selectedVertices
+          : state.editMode === 'edge'
+            ? state.selectedEdges
+            : state.selectedFaces
+      );
+      const vertexIndices = convertSelection(editor.mesh, selection, state.editMode, 'vertex');
+      const center = editor.pivot;
+      const pointer = pointerRef.current;
+      if (!center || !pointer || vertexIndices.length === 0) return;
+
+      const centerScreen = toScreen(toWorld(center));
+      const angle = Math.atan2(-(pointer[1] - centerScreen[1]), pointer[0] - centerScreen[0]);
+      const basis = (o: TransformOrientation) =>
+        getOrientationBasis(editor.mesh, state.editMode, selection, o, matrixWorld());
+      const modal: ModalTransform = {
+        mode,
+        vertexIndices,
+        center,
+        start: pointer,
+        pointer,
+        constraint: null,
+        bases: { global: basis('global'), local: basis('local'), normal: basis('normal') },
+        input: '',
+        applied: [0, 0, 0],
+        angle: 0,
+        lastAngle: angle,
+      };
+      editor.captureSelection();
+      editor.beginHistoryGroup();
+      modalRef.current = modal;
+      updateStatus(modal, mode === 'scale' ? '1.000' : mode === 'rotate' ? '0.0°' : '0.000, 0.000, 0.000');
+      updateGuides(modal);
+      onStart?.(mode);
+    };
+
+    const finish = (confirmed: boolean) => {
+      const modal = modalRef.current;
+      if (!modal) return;
+      modalRef.current = null;
+      const { editor, onEnd } = latestRef.current;
+      if (confirmed) {
+        editor.endHistoryGroup();
+      } else {
+        editor.cancelHistoryGroup();
+      }
+      updateStatus(null);
+      updateGuides(null);
+      onEnd?.(modal.mode, confirmed);
+    };
+
+    const setConstraint = (modal: ModalTransform, axis: 0 | 1 | 2, plane: boolean) => {
+      const current = modal.constraint;
+      const second = orientation === 'global' ? 'local' : orientation;
+      if (!current || current.axis !== axis || current.plane !== plane) {
+        modal.constraint = { axis, plane, orientation: 'global' };
+      } else if (current.orientation === 'global') {
+        modal.constraint = { axis, plane, orientation: second };
+      } else {
+        modal.constraint = null;
+      }
+      updateGuides(modal);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const rect = element.getBoundingClientRect();
+      const pointer: [number, number] = [event.clientX - rect.left, event.clientY - rect.top];
+      pointerRef.current = pointer;
+      const modal = modalRef.current;
+      if (!modal) return;
+
+      const centerScreen = toScreen(toWorld(modal.center));
+      const angle = Math.atan2(-(pointer[1] - centerScreen[1]), pointer[0] - centerScreen[0]);
+      let step = angle - modal.lastAngle;
+      if (step > Math.PI) step -= Math.PI * 2;
+      if (step < -Math.PI) step += Math.PI * 2;
+      modal.angle += step;
+      modal.lastAngle = angle;
+      modal.pointer = pointer;
+      apply(modal);
+    };
+
+    const handlePointerLeave = () => {
+      if (!modalRef.current) pointerRef.current = null;
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!modalRef.current) return;
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.button === 2) {
+        suppressMenuRef.current = true;
+        finish(false);
+      } else if (event.button === 0) {
+        finish(true);
+      }
+    };
+
+    const handleContextMenu = (event: MouseEvent) => {
+      if (!modalRef.current && !suppressMenuRef.current) return;
+      suppressMenuRef.current = false;
+      event.preventDefault();
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextInput(event.target)) return;
+      const modal = modalRef.current;
+      const key = event.key.toLowerCase();
+
+      if (!modal) {
+        const mode = MODE_KEYS[key];
+        if (!enabled || !mode || event.ctrlKey || event.metaKey || event.altKey) return;
+        if (latestRef.current.editor.state.mode !== 'edit' || !pointerRef.current) return;
+        event.preventDefault();
+        start(mode);
+        return;
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        finish(false);
+        return;
+      }
+      if (event.key === 'Enter') {
+        finish(true);
+        return;
+      }
+      const axis = ['x', 'y', 'z'].indexOf(key);
+      if (axis !== -1) {
+        setConstraint(modal, axis as 0 | 1 | 2, event.shiftKey);
+      } else if (/^[0-9.]$/.test(event.key)) {
+        modal.input += event.key;
+      } else if (event.key === '-') {
+        modal.input = modal.input.startsWith('-') ? modal.input.slice(1) : `-${modal.input}`;
+      } else if (event.key === 'Backspace') {
+        modal.input = modal.input.slice(0, -1);
+      } else {
+        return;
+      }
+      apply(modal);
+    };
+
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerleave', handlePointerLeave);
+    element.addEventListener('contextmenu', handleContextMenu);
+    // Capture, so a confirming click does not reach selection or camera controls
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerleave', handlePointerLeave);
+      element.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [gl, camera, size, orientation, enabled]);
+
+  return (
+    <group ref={groupRef}>
+      {guides.map((guide, i) => {
+        const [cx, cy, cz] = guide.center;
+        const [dx, dy, dz] = guide.direction;
+        return (
+          <Line
+            key={i}
+            points={[
+              [cx - dx * 100, cy - dy * 100, cz - dz * 100],
+              [cx + dx * 100, cy + dy * 100, cz + dz * 100],
+            ]}
+            color={guide.color}
+            lineWidth={1.5}
+            depthTest={false}
+            renderOrder={999}
+          />
+        );
+      })}
+    </group>
+  );
+}
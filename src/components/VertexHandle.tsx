@@ -37,6 +37,10 @@ export interface VertexHandleProps {
   onSelect?: (index: number, addToSelection: boolean) => void;
   /** Callback when vertex position changes (absolute position) */
   onMove?: (index: number, position: [number, number, number]) => void;
+  /** Callback when a control drag starts (used to group undo steps) */
+  onDragStart?: () => void;
+  /** Callback when a control drag ends */
+  onDragEnd?: () => void;
   /**
    * Render function for custom transform controls.
    * When provided, wraps the vertex handle with custom controls.
@@ -82,6 +86,8 @@ export function VertexHandle({
   hoverColor = '#7bb3e0',
   onSelect,
   onMove,
+  onDragStart,
+  onDragEnd,
   renderControl,
 }: VertexHandleProps) {
   const meshRef = useRef<Mesh>(null);
@@ -115,13 +121,15 @@ export function VertexHandle({
 
   const handleDragStart = useCallback(() => {
     setIsDragging(true);
-  }, []);
+    onDragStart?.();
+  }, [onDragStart]);
 
   const handleDragEnd = useCallback(() => {
+    onDragEnd?.();
     setTimeout(() => {
       setIsDragging(false);
     }, 100);
-  }, []);
+  }, [onDragEnd]);
 
   const color = selected ? selectedColor : hovered ? hoverColor : defaultColor;
 
@@ -3,7 +3,17 @@ export * from './VertexHandle';
 export * from './EdgeLine';
 export * from './FaceHighlight';
 export * from './EditModeOverlay';
+export * from './FaceNormals';
 export * from './MeshEditorMenuBar';
 export * from './MeshOutline';
 export * from './LoopCutPreview';
+export * from './InsetPreview';
+export * from './BevelPreview';
+export * from './KnifePreview';
+export * from './ProportionalPreview';
+export * from './KnifeTool';
+export * from './SelectionTool';
+export * from './SnapIndicator';
+export * from './SelectionControl';
+export * from './TransformTool';
 export * from './ui';
@@ -13,6 +13,10 @@ export function MeshEditorProvider({
   onGeometryChange,
   initialMode = 'object',
   initialEditMode = 'vertex',
+  mergeCoplanarTriangles,
+  syncSelection,
+  proportionalEditing,
+  snapping,
   children,
 }: MeshEditorProviderProps) {
   const editor = useMeshEditor({
@@ -20,6 +24,10 @@ export function MeshEditorProvider({
     initialMode,
     initialEditMode,
     onGeometryChange,
+    mergeCoplanarTriangles,
+    syncSelection,
+    proportionalEditing,
+    snapping,
   });
 
   const contextValue: MeshEditorContextValue = {
@@ -29,8 +37,18 @@ export function MeshEditorProvider({
     selectVertex: editor.selectVertex,
     selectEdge: editor.selectEdge,
     selectFace: editor.selectFace,
+    selectAll: editor.selectAll,
+    invertSelection: editor.invertSelection,
+    growSelection: editor.growSelection,
+    shrinkSelection: editor.shrinkSelection,
+    selectRandom: editor.selectRandom,
+    selectNth: editor.selectNth,
     deselectAll: editor.deselectAll,
     moveSelectedVertices: editor.moveSelectedVertices,
+    undo: editor.undo,
+    redo: editor.redo,
+    canUndo: editor.canUndo,
+    canRedo: editor.canRedo,
     geometry,
     vertices: editor.vertices,
     edges: editor.edges,
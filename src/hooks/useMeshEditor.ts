@@ -1,6 +1,17 @@
 import { useState, useCallback, useMemo, useRef } from 'react';
-import type { BufferGeometry } from 'three';
-import type { EditorMode, EditMode, MeshEditorState, VertexData, EdgeData, FaceData } from '../types';
+import { Box3, Quaternion, Vector3, type BufferGeometry } from 'three';
+import type {
+  EditorMode,
+  EditMode,
+  MeshEditorState,
+  PivotPoint,
+  ProportionalEditOptions,
+  SelectionOperation,
+  SnapOptions,
+  VertexData,
+  EdgeData,
+  FaceData,
+} from '../types';
 import {
   extractVertices,
   extractEdges,
@@ -9,6 +20,30 @@ import {
   updateVertexPosition,
   transformVerticesAroundCenter,
   extrudeFace as extrudeFaceUtil,
+  extrudeFaces as extrudeFacesUtil,
+  extrudeVertices as extrudeVerticesUtil,
+  extrudeEdges as extrudeEdgesUtil,
+  insetFaces as insetFacesUtil,
+  findInsetOutlines,
+  bevelEdges as bevelEdgesUtil,
+  bevelVertices as bevelVerticesUtil,
+  findBevelOutline,
+  getBevelableIndices,
+  deleteVertices as deleteVerticesUtil,
+  deleteEdges as deleteEdgesUtil,
+  deleteFaces as deleteFacesUtil,
+  dissolveVertices as dissolveVerticesUtil,
+  dissolveEdges as dissolveEdgesUtil,
+  mergeVertices as mergeVerticesUtil,
+  mergeByDistance as mergeByDistanceUtil,
+  subdivide as subdivideUtil,
+  knifeCut as knifeCutUtil,
+  bridgeEdgeLoops as bridgeEdgeLoopsUtil,
+  flipFaces as flipFacesUtil,
+  recalculateNormals as recalculateNormalsUtil,
+  setFacesSmooth as setFacesSmoothUtil,
+  markEdgesSharp as markEdgesSharpUtil,
+  setAutoSmooth as setAutoSmoothUtil,
   findLoopCutPath,
   executeLoopCut as executeLoopCutUtil,
   validateEdgeLoop,
@@ -16,7 +51,39 @@ import {
   faceExistsForVertices,
   type LoopCutPath,
   type EdgeLoopValidation,
+  type ExtrudeMode,
+  type InsetOptions,
+  type InsetOutline,
+  type BevelOptions,
+  type BevelAffect,
+  type BevelOutlineSegment,
+  type DeleteResult,
+  type DeleteFacesOptions,
+  type MergeMode,
+  type KnifePoint,
+  type KnifeCutOptions,
+  type BridgeOptions,
+  type RecalculateNormalsOptions,
 } from '../utils/geometry';
+import { EditableMesh } from '../utils/editableMesh';
+import { computeProportionalWeights } from '../utils/proportional';
+import { snapPoint, snapRotation, snapScale, type SnapResult } from '../utils/snapping';
+import { getPivotGroups, getPivotPoint, type PivotGroup } from '../utils/transform';
+import {
+  combineSelection,
+  convertSelection,
+  findLinked,
+  findEdgeLoop,
+  findEdgeRing,
+  findFaceLoop,
+  growSelection as growSelectionUtil,
+  shrinkSelection as shrinkSelectionUtil,
+  invertSelection as invertSelectionUtil,
+  randomSelection,
+  nthSelection,
+  findSimilar,
+  type SimilarCriterion,
+} from '../utils/selection';
 
 /**
  * Options for the useMeshEditor hook.
@@ -30,6 +97,268 @@ export interface UseMeshEditorOptions {
   initialEditMode?: EditMode;
   /** Callback fired when geometry is modified */
   onGeometryChange?: (geometry: BufferGeometry) => void;
+  /** Maximum number of undo steps to keep @default 50 */
+  historyLimit?: number;
+  /** Merge coplanar triangle pairs into quads when loading the geometry @default true */
+  mergeCoplanarTriangles?: boolean;
+  /**
+   * Keep the vertex, edge and face selections in sync, like selecting in
+   * all three modes at once: selection commands update the other two sets
+   * from the current mode's. Otherwise only the current mode's set is
+   * updated, and it is converted when the edit mode changes. @default false
+   */
+  syncSelection?: boolean;
+  /**
+   * Proportional editing settings. When set, moves and transforms also
+   * affect unselected vertices within the radius, weighted by the falloff.
+   */
+  proportionalEditing?: ProportionalEditOptions;
+  /**
+   * Snapping settings. When set, moves snap the median of the moved
+   * vertices to the grid or the mesh, and rotations and scales snap to
+   * their steps.
+   */
+  snapping?: SnapOptions;
+  /** Point selection rotations and scales pivot around @default 'median' */
+  pivotPoint?: PivotPoint;
+  /** Position of the 3D cursor, used by the `'cursor'` pivot point @default [0, 0, 0] */
+  cursor?: [number, number, number];
+}
+
+/**
+ * A snapped move in progress. Moves are applied from the start positions,
+ * so the raw offset can carry the vertices past a snap target.
+ * @internal
+ */
+interface SnapDrag {
+  key: string;
+  mesh: EditableMesh;
+  /** Median of the moved vertices at the start, the point that is snapped */
+  reference: [number, number, number];
+  /** Unsnapped offset of the move so far */
+  offset: [number, number, number];
+  /** Start positions of the moved and proportionally affected vertices */
+  initial: Map<number, [number, number, number]>;
+  /** Average normal of the moved elements, for aligning to snapped faces */
+  normal: Vector3 | null;
+}
+
+/**
+ * Proportional weights computed for a drag, reused until it ends so that
+ * distances are measured from where the vertices started.
+ * @internal
+ */
+interface ProportionalCache {
+  key: string;
+  mesh: EditableMesh;
+  weights: Map<number, number>;
+}
+
+/**
+ * A snapshot of the editable state, stored on the undo/redo stacks.
+ * @internal
+ */
+interface HistoryEntry {
+  mesh: EditableMesh;
+  selectedVertices: Set<number>;
+  selectedEdges: Set<number>;
+  selectedFaces: Set<number>;
+  activeVertex: number | null;
+  activeEdge: number | null;
+  activeFace: number | null;
+}
+
+/**
+ * Active elements cleared, for selections replaced after a topology change.
+ * @internal
+ */
+const NO_ACTIVE = { activeVertex: null, activeEdge: null, activeFace: null };
+
+/**
+ * Map selected indices through a remap, dropping removed elements.
+ * @internal
+ */
+function remapSelection(selection: Set<number>, map: number[]): Set<number> {
+  const result = new Set<number>();
+  for (const index of selection) {
+    const mapped = map[index];
+    if (mapped !== undefined && mapped !== -1) result.add(mapped);
+  }
+  return result;
+}
+
+/**
+ * Map an active index through a remap, clearing it if removed.
+ * @internal
+ */
+function remapActive(active: number | null, map: number[]): number | null {
+  if (active === null) return null;
+  const mapped = map[active];
+  return mapped === undefined || mapped === -1 ? null : mapped;
+}
+
+/**
+ * The selection of the current edit mode.
+ * @internal
+ */
+function modeSelection(state: MeshEditorState): Set<number> {
+  if (state.editMode === 'vertex') return state.selectedVertices;
+  if (state.editMode === 'edge') return state.selectedEdges;
+  return state.selectedFaces;
+}
+
+/**
+ * The active element of the current edit mode.
+ * @internal
+ */
+function modeActive(state: MeshEditorState): number | null {
+  if (state.editMode === 'vertex') return state.activeVertex;
+  if (state.editMode === 'edge') return state.activeEdge;
+  return state.activeFace;
+}
+
+/**
+ * Clear active elements that are no longer selected.
+ * @internal
+ */
+function keepSelectedActive(state: MeshEditorState): MeshEditorState {
+  const keep = (active: number | null, selection: Set<number>) =>
+    active !== null && selection.has(active) ? active : null;
+  return {
+    ...state,
+    activeVertex: keep(state.activeVertex, state.selectedVertices),
+    activeEdge: keep(state.activeEdge, state.selectedEdges),
+    activeFace: keep(state.activeFace, state.selectedFaces),
+  };
+}
+
+/**
+ * Split proportional weights between transform groups, giving each
+ * vertex to the group with the nearest center.
+ * @internal
+ */
+function splitWeights(
+  weights: Map<number, number> | undefined,
+  groups: PivotGroup[],
+  positions: Map<number, [number, number, number]>
+): Array<Map<number, number> | undefined> {
+  if (!weights || groups.length < 2) return groups.map(() => weights);
+  const split = groups.map(() => new Map<number, number>());
+  for (const [index, weight] of weights) {
+    const position = positions.get(index);
+    if (!position) continue;
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    groups.forEach(({ center }, i) => {
+      const d = Math.hypot(position[0] - center[0], position[1] - center[1], position[2] - center[2]);
+      if (d < nearestDistance) {
+        nearest = i;
+        nearestDistance = d;
+      }
+    });
+    split[nearest].set(index, weight);
+  }
+  return split;
+}
+
+/**
+ * Replace the selection of one kind of element. With a mesh, the other two
+ * selections are converted from it. Active elements left unselected are
+ * cleared.
+ * @internal
+ */
+function withSelection(
+  state: MeshEditorState,
+  editMode: EditMode,
+  selection: Set<number>,
+  syncMesh: EditableMesh | null
+): MeshEditorState {
+  const convert = (to: EditMode) => new Set(convertSelection(syncMesh!, selection, editMode, to));
+  if (editMode === 'vertex') {
+    return keepSelectedActive(
+      syncMesh
+        ? { ...state, selectedVertices: selection, selectedEdges: convert('edge'), selectedFaces: convert('face') }
+        : { ...state, selectedVertices: selection }
+    );
+  }
+  if (editMode === 'edge') {
+    return keepSelectedActive(
+      syncMesh
+        ? { ...state, selectedVertices: convert('vertex'), selectedEdges: selection, selectedFaces: convert('face') }
+        : { ...state, selectedEdges: selection }
+    );
+  }
+  return keepSelectedActive(
+    syncMesh
+      ? { ...state, selectedVertices: convert('vertex'), selectedEdges: convert('edge'), selectedFaces: selection }
+      : { ...state, selectedFaces: selection }
+  );
+}
+
+/**
+ * Start a snapped move of the given vertices.
+ * @internal
+ */
+function beginSnapDrag(
+  mesh: EditableMesh,
+  vertexIndices: number[],
+  weights: Map<number, number> | undefined,
+  key: string
+): SnapDrag {
+  const moved = vertexIndices.filter((index) => mesh.vertices[index]);
+  const reference: [number, number, number] = [0, 0, 0];
+  for (const index of moved) {
+    const position = mesh.vertices[index].position;
+    reference[0] += position[0] / moved.length;
+    reference[1] += position[1] / moved.length;
+    reference[2] += position[2] / moved.length;
+  }
+
+  const initial = new Map<number, [number, number, number]>();
+  for (const index of [...moved, ...(weights?.keys() ?? [])]) {
+    initial.set(index, [...mesh.vertices[index].position]);
+  }
+
+  // Faces inside the moved set, or else the faces around it
+  const movedSet = new Set(moved);
+  const around = new Set(moved.flatMap((index) => mesh.getVertexFaces(index)));
+  const inside = [...around].filter((f) => mesh.faces[f].vertices.every((v) => movedSet.has(v)));
+  const normal = new Vector3();
+  for (const f of inside.length > 0 ? inside : around) normal.add(mesh.getFaceNormal(f));
+
+  return {
+    key,
+    mesh,
+    reference,
+    offset: [0, 0, 0],
+    initial,
+    normal: normal.lengthSq() > 1e-12 ? normal.normalize() : null,
+  };
+}
+
+/**
+ * Split edges into groups connected through shared vertices.
+ * @internal
+ */
+function groupConnectedEdges(edgeIndices: number[], edges: EdgeData[]): number[][] {
+  const remaining = new Set(edgeIndices);
+  const groups: number[][] = [];
+  for (const start of edgeIndices) {
+    if (!remaining.has(start)) continue;
+    remaining.delete(start);
+    const group = [start];
+    for (let k = 0; k < group.length; k++) {
+      const [a, b] = edges[group[k]].vertexIndices;
+      for (const other of remaining) {
+        if (edges[other].vertexIndices.some((v) => v === a || v === b)) {
+          remaining.delete(other);
+          group.push(other);
+        }
+      }
+    }
+    groups.push(group);
+  }
+  return groups;
 }
 
 /**
@@ -46,47 +375,256 @@ export interface UseMeshEditorReturn {
   faces: FaceData[];
   /** Set the editor mode (object or edit) */
   setMode: (mode: EditorMode) => void;
-  /** Set the edit sub-mode (vertex, edge, or face) */
+  /**
+   * Set the edit sub-mode (vertex, edge, or face). The selection is
+   * converted: faces and edges select their vertices, and vertices select
+   * the edges and faces they fully enclose.
+   */
   setEditMode: (editMode: EditMode) => void;
-  /** Select or toggle a vertex. Use addToSelection for multi-select. */
+  /** Select or toggle a vertex, making it active when selected. Use addToSelection for multi-select. */
   selectVertex: (index: number, addToSelection?: boolean) => void;
-  /** Select or toggle an edge. Use addToSelection for multi-select. */
+  /** Select or toggle an edge, making it active when selected. Use addToSelection for multi-select. */
   selectEdge: (index: number, addToSelection?: boolean) => void;
-  /** Select or toggle a face. Use addToSelection for multi-select. */
+  /** Select or toggle a face, making it active when selected. Use addToSelection for multi-select. */
   selectFace: (index: number, addToSelection?: boolean) => void;
+  /**
+   * Combine elements of the current edit mode with its selection, e.g. the
+   * result of `selectInShape`.
+   */
+  selectElements: (indices: Iterable<number>, operation?: SelectionOperation) => void;
+  /** Select every element connected to the selection, and to `index` when given */
+  selectLinked: (index?: number) => void;
+  /**
+   * Select the edge loop through an edge. Stops at poles and boundaries; a
+   * boundary edge selects its boundary loop. In vertex and face mode the
+   * loop is converted to the mode's elements.
+   */
+  selectEdgeLoop: (edgeIndex: number, addToSelection?: boolean) => void;
+  /** Select the edge ring through an edge, across quads. Converted like `selectEdgeLoop`. */
+  selectEdgeRing: (edgeIndex: number, addToSelection?: boolean) => void;
+  /** Select the loop of quads crossing an edge. Converted like `selectEdgeLoop`. */
+  selectFaceLoop: (edgeIndex: number, addToSelection?: boolean) => void;
+  /** Select every element of the current edit mode */
+  selectAll: () => void;
+  /** Select the unselected elements of the current edit mode, and deselect the others */
+  invertSelection: () => void;
+  /** Grow the selection by one ring of adjacent elements */
+  growSelection: () => void;
+  /** Shrink the selection by one ring of adjacent elements */
+  shrinkSelection: () => void;
+  /** Select a random share (0 to 1) of the elements, reproducibly for a seed */
+  selectRandom: (ratio: number, seed?: number) => void;
+  /** Keep every nth selected element, walking outwards through adjacency (checker deselect) */
+  selectNth: (n: number) => void;
+  /**
+   * Add the elements similar to a selected one. The criterion must apply to
+   * the current edit mode; see `SimilarCriterion` for the threshold of each.
+   */
+  selectSimilar: (criterion: SimilarCriterion, threshold?: number) => void;
   /** Clear all selections */
   deselectAll: () => void;
+  /** Proportional editing settings in effect, if enabled */
+  proportionalEditing?: ProportionalEditOptions;
+  /** Snapping settings in effect, if enabled */
+  snapping?: SnapOptions;
+  /** What the current move snapped to, while a drag is in progress */
+  snapResult: SnapResult | null;
+  /** Pivot point mode of selection transforms */
+  pivotPoint: PivotPoint;
+  /** Position of the 3D cursor, if set */
+  cursor?: [number, number, number];
+  /**
+   * Pivot point of the current selection, where a shared gizmo is placed,
+   * or null when nothing is selected
+   */
+  pivot: [number, number, number] | null;
   /** Move all selected vertices by a delta [x, y, z] */
   moveSelectedVertices: (delta: [number, number, number]) => void;
   /** Move specific vertices by a delta [x, y, z] */
   moveVerticesByDelta: (vertexIndices: number[], delta: [number, number, number]) => void;
   /** Set a vertex to an absolute position */
   updateVertexPosition: (index: number, position: [number, number, number]) => void;
-  /** Apply rotation and scale transformation around a center point */
+  /**
+   * Apply rotation and scale transformation around a center point, from the
+   * captured initial positions. The scale is applied along `scaleAxes` when given.
+   */
   transformVertices: (
     vertexIndices: number[],
     center: [number, number, number],
     rotation: { x: number; y: number; z: number; w: number },
-    scale: [number, number, number]
+    scale: [number, number, number],
+    scaleAxes?: { x: number; y: number; z: number; w: number }
   ) => void;
   /** Capture vertex positions before a transform operation (for undo/accumulation) */
   captureInitialPositions: (vertexIndices: number[]) => void;
-  /** Force re-extraction of geometry data */
+  /**
+   * Capture the positions and pivot of the selection before
+   * `transformSelection`. The pivot stays where it was captured.
+   */
+  captureSelection: () => void;
+  /**
+   * Rotate and scale the selection captured by `captureSelection` about the
+   * pivot point, or each connected group about its own median for the
+   * `'individual'` pivot. The scale is applied along `scaleAxes` when given.
+   */
+  transformSelection: (
+    rotation: { x: number; y: number; z: number; w: number },
+    scale: [number, number, number],
+    scaleAxes?: { x: number; y: number; z: number; w: number }
+  ) => void;
+  /** Rebuild the editable mesh from the current geometry buffer */
   refreshGeometry: () => void;
   /** Current geometry (may differ from input if extrusions have occurred) */
   currentGeometry: BufferGeometry;
+  /** Editable mesh backing the editor, bound to `currentGeometry` */
+  mesh: EditableMesh;
   /** Extrude the selected face by a distance along its normal */
   extrudeFace: (faceIndex: number, distance: number) => void;
+  /**
+   * Extrude faces as connected regions, with side walls only along the region
+   * boundary. The extruded cap region is selected afterwards. Does nothing
+   * in `vector` mode without a direction.
+   */
+  extrudeFaces: (
+    faceIndices: number[],
+    distance: number,
+    mode?: ExtrudeMode,
+    direction?: [number, number, number]
+  ) => void;
+  /**
+   * Extrude vertices into new vertices connected by edges, offset by
+   * `offset`. The new vertices are selected afterwards. Does nothing with a
+   * zero offset.
+   */
+  extrudeVertices: (vertexIndices: number[], offset: [number, number, number]) => void;
+  /**
+   * Extrude edges into a strip of quads, offset by `offset`. The new edges
+   * are selected afterwards. Does nothing with a zero offset.
+   */
+  extrudeEdges: (edgeIndices: number[], offset: [number, number, number]) => void;
+  /**
+   * Inset faces by `thickness` (and `depth` along their normal), bridging
+   * them to their original boundary with a ring of quads. The inset faces
+   * stay selected.
+   */
+  insetFaces: (
+    faceIndices: number[],
+    thickness: number,
+    depth?: number,
+    options?: InsetOptions
+  ) => void;
+  /** Get the inner outlines an inset would create, for previewing */
+  getInsetPreview: (
+    faceIndices: number[],
+    thickness: number,
+    depth?: number,
+    options?: InsetOptions
+  ) => InsetOutline[];
+  /**
+   * Bevel the selected edges, or the selected vertices when `affect` is
+   * `'vertices'` (the default in vertex edit mode). The bevel faces are
+   * selected afterwards.
+   */
+  bevel: (options: BevelOptions, affect?: BevelAffect) => void;
+  /** Get the edges a bevel of the selection would create, for previewing */
+  getBevelPreview: (options: BevelOptions, affect?: BevelAffect) => BevelOutlineSegment[];
+  /** Delete vertices with their edges and faces, removing dangling elements */
+  deleteVertices: (vertexIndices: number[]) => void;
+  /** Delete edges with their faces, removing dangling elements */
+  deleteEdges: (edgeIndices: number[]) => void;
+  /** Delete faces, removing dangling elements unless `onlyFaces` is set */
+  deleteFaces: (faceIndices: number[], options?: DeleteFacesOptions) => void;
+  /** Dissolve vertices, merging the faces around each into an n-gon */
+  dissolveVertices: (vertexIndices: number[]) => void;
+  /** Dissolve edges, merging the two faces on either side of each */
+  dissolveEdges: (edgeIndices: number[]) => void;
+  /**
+   * Merge vertices into one placed according to `mode`, removing collapsed
+   * faces. Returns the number of vertices removed, 0 when `cursor` mode is
+   * used without a cursor.
+   */
+  mergeVertices: (
+    vertexIndices: number[],
+    mode?: MergeMode,
+    cursor?: [number, number, number]
+  ) => number;
+  /**
+   * Merge vertices closer together than `threshold`, out of the given
+   * vertices or the whole mesh. Returns the number of vertices removed.
+   */
+  mergeByDistance: (threshold?: number, vertexIndices?: number[]) => number;
+  /**
+   * Subdivide edges into `cuts + 1` segments, filling the faces around them
+   * with grids or fans. Selected edges and faces stay selected with their
+   * new pieces.
+   */
+  subdivide: (edgeIndices: number[], cuts?: number, smoothness?: number) => void;
+  /**
+   * Cut the faces crossed by a polyline drawn on the surface. The cut edges
+   * are selected. Does nothing if a point's face does not exist.
+   */
+  knifeCut: (points: KnifePoint[], options?: KnifeCutOptions) => void;
+  /**
+   * Connect two open or closed edge loops with a strip of faces. The bridge
+   * faces are selected. Does nothing unless both loops are valid, both open
+   * or both closed, and share no vertices.
+   */
+  bridgeEdgeLoops: (loopA: number[], loopB: number[], options?: BridgeOptions) => void;
+  /**
+   * Bridge the two edge loops making up the edge selection. Returns false if
+   * the selection is not two valid loops.
+   */
+  bridgeSelectedEdgeLoops: (options?: BridgeOptions) => boolean;
+  /** Reverse the winding of faces, flipping their normals */
+  flipFaces: (faceIndices: number[]) => void;
+  /**
+   * Make face windings consistent across each connected group and point the
+   * normals outwards (or inwards with `inside`). Returns the number of faces
+   * flipped.
+   */
+  recalculateNormals: (options?: RecalculateNormalsOptions) => number;
+  /** Shade faces smooth or flat */
+  setFacesSmooth: (faceIndices: number[], smooth: boolean) => void;
+  /** Mark edges sharp (or clear the mark) so smooth shading stops at them */
+  markEdgesSharp: (edgeIndices: number[], sharp?: boolean) => void;
+  /**
+   * Shade smooth faces meeting at more than `angle` degrees with a hard edge,
+   * or disable auto smooth with null. Angles outside 0-180 are ignored.
+   */
+  setAutoSmooth: (angle: number | null) => void;
   /** Get the loop cut path for a given edge */
   getLoopCutPath: (edgeIndex: number, t?: number) => LoopCutPath | null;
   /** Execute a loop cut on the geometry */
   executeLoopCut: (path: LoopCutPath) => void;
   /** Validate if selected edges form a closed loop */
   validateSelectedEdgeLoop: () => EdgeLoopValidation;
-  /** Create a face from the selected edge loop (if valid) */
+  /**
+   * Create a face from the selected edge loop (if valid). When several loops
+   * are selected, the largest is filled around the others as holes.
+   */
   createFaceFromSelectedEdges: () => boolean;
   /** Check if a face already exists for the selected edge loop */
   selectedEdgeLoopHasFace: () => boolean;
+  /** Revert the last geometry operation, restoring geometry and selection */
+  undo: () => void;
+  /** Re-apply the last undone geometry operation */
+  redo: () => void;
+  /** Whether there is an operation that can be undone */
+  canUndo: boolean;
+  /** Whether there is an operation that can be redone */
+  canRedo: boolean;
+  /**
+   * Start collapsing subsequent operations into a single undo step.
+   * Call at the start of an interactive drag and pair with `endHistoryGroup`.
+   */
+  beginHistoryGroup: () => void;
+  /** Close the undo step opened by `beginHistoryGroup` */
+  endHistoryGroup: () => void;
+  /**
+   * Close the undo step opened by `beginHistoryGroup` and revert the changes
+   * made since, as when cancelling a transform
+   */
+  cancelHistoryGroup: () => void;
 }
 
 /**
@@ -107,6 +645,9 @@ export interface UseMeshEditorReturn {
  *
  * // Move selected vertices
  * editor.moveSelectedVertices([0.1, 0, 0]);
+ *
+ * // Revert the move
+ * editor.undo();
  * ```
  */
 export function useMeshEditor({
@@ -114,6 +655,13 @@ export function useMeshEditor({
   initialMode = 'object',
   initialEditMode = 'vertex',
   onGeometryChange,
+  historyLimit = 50,
+  mergeCoplanarTriangles = true,
+  syncSelection = false,
+  proportionalEditing,
+  snapping,
+  pivotPoint = 'median',
+  cursor,
 }: UseMeshEditorOptions): UseMeshEditorReturn {
   const [state, setState] = useState<MeshEditorState>({
     mode: initialMode,
@@ -121,33 +669,184 @@ export function useMeshEditor({
     selectedVertices: new Set(),
     selectedEdges: new Set(),
     selectedFaces: new Set(),
+    ...NO_ACTIVE,
   });
 
+  // geometryVersion changes on any edit, topologyVersion only when
+  // vertices, edges or faces are added or removed
   const [geometryVersion, setGeometryVersion] = useState(0);
+  const [topologyVersion, setTopologyVersion] = useState(0);
 
   // Track current geometry (may be replaced during extrusion)
   const [currentGeometry, setCurrentGeometry] = useState<BufferGeometry>(geometry);
 
+  // Editable mesh all operations run on. It is built once and updated
+  // incrementally; topology operations write it back to a new geometry.
+  const [mesh, setMesh] = useState(() =>
+    EditableMesh.fromBufferGeometry(geometry, { mergeCoplanarTriangles })
+  );
+
   // Store initial positions for rotation/scale operations
   const initialPositionsRef = useRef<Map<number, [number, number, number]>>(new Map());
 
-  // geometryVersion is used to force re-extraction when geometry buffer changes
+  // Groups and pivots of the captured selection
+  const pivotGroupsRef = useRef<PivotGroup[]>([]);
+
+  // Proportional editing weights of the current drag
+  const proportionalCacheRef = useRef<ProportionalCache | null>(null);
+
+  // Snapped move of the current drag
+  const snapDragRef = useRef<SnapDrag | null>(null);
+  const [snapResult, setSnapResult] = useState<SnapResult | null>(null);
+
+  // Undo/redo stacks. Kept in refs so that recording does not re-render;
+  // historyVersion is bumped to refresh canUndo/canRedo.
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const historyGroupRef = useRef({ depth: 0, recorded: false });
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Latest state/mesh for snapshotting from stable callbacks
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const meshRef = useRef(mesh);
+  meshRef.current = mesh;
+  const geometryRef = useRef(currentGeometry);
+  geometryRef.current = currentGeometry;
+
+  // The mesh is mutated in place, so the versions drive re-extraction.
+  // Vertex moves only refresh positions; edges and faces are kept.
   const vertices = useMemo(
-    () => extractVertices(currentGeometry),
+    () => extractVertices(mesh),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [currentGeometry, geometryVersion]
+    [mesh, geometryVersion]
   );
 
   const edges = useMemo(
-    () => extractEdges(currentGeometry),
+    () => extractEdges(mesh),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [currentGeometry, geometryVersion]
+    [mesh, topologyVersion]
   );
 
   const faces = useMemo(
-    () => extractFaces(currentGeometry),
+    () => extractFaces(mesh),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [mesh, topologyVersion]
+  );
+
+  const takeSnapshot = useCallback((): HistoryEntry => {
+    const current = stateRef.current;
+    return {
+      mesh: meshRef.current.clone(),
+      selectedVertices: new Set(current.selectedVertices),
+      selectedEdges: new Set(current.selectedEdges),
+      selectedFaces: new Set(current.selectedFaces),
+      activeVertex: current.activeVertex,
+      activeEdge: current.activeEdge,
+      activeFace: current.activeFace,
+    };
+  }, []);
+
+  const clearRedoStack = useCallback(() => {
+    redoStackRef.current = [];
+  }, []);
+
+  // Record the current state as an undo step. Must be called before mutating.
+  // Inside a history group only the first call records.
+  const recordHistory = useCallback(() => {
+    const group = historyGroupRef.current;
+    if (group.depth > 0) {
+      if (group.recorded) return;
+      group.recorded = true;
+    }
+
+    undoStackRef.current.push(takeSnapshot());
+    while (undoStackRef.current.length > Math.max(0, historyLimit)) {
+      undoStackRef.current.shift();
+    }
+    clearRedoStack();
+    setHistoryVersion((v) => v + 1);
+  }, [takeSnapshot, clearRedoStack, historyLimit]);
+
+  const restoreSnapshot = useCallback(
+    (entry: HistoryEntry) => {
+      const restoredGeometry = entry.mesh.toBufferGeometry();
+      setMesh(entry.mesh);
+      setCurrentGeometry(restoredGeometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: entry.selectedVertices,
+        selectedEdges: entry.selectedEdges,
+        selectedFaces: entry.selectedFaces,
+        activeVertex: entry.activeVertex,
+        activeEdge: entry.activeEdge,
+        activeFace: entry.activeFace,
+      }));
+      onGeometryChange?.(restoredGeometry);
+    },
+    [onGeometryChange]
+  );
+
+  const undo = useCallback(() => {
+    const entry = undoStackRef.current.pop();
+    if (!entry) return;
+    redoStackRef.current.push(takeSnapshot());
+    restoreSnapshot(entry);
+    setHistoryVersion((v) => v + 1);
+  }, [takeSnapshot, restoreSnapshot]);
+
+  const redo = useCallback(() => {
+    const entry = redoStackRef.current.pop();
+    if (!entry) return;
+    undoStackRef.current.push(takeSnapshot());
+    restoreSnapshot(entry);
+    setHistoryVersion((v) => v + 1);
+  }, [takeSnapshot, restoreSnapshot]);
+
+  const beginHistoryGroup = useCallback(() => {
+    const group = historyGroupRef.current;
+    if (group.depth === 0) {
+      group.recorded = false;
+    }
+    group.depth++;
+  }, []);
+
+  const endHistoryGroup = useCallback(() => {
+    const group = historyGroupRef.current;
+    if (group.depth > 0) {
+      group.depth--;
+    }
+    if (group.depth === 0) {
+      proportionalCacheRef.current = null;
+      snapDragRef.current = null;
+      setSnapResult(null);
+    }
+  }, []);
+
+  const cancelHistoryGroup = useCallback(() => {
+    const group = historyGroupRef.current;
+    const recorded = group.depth === 1 && group.recorded;
+    endHistoryGroup();
+    if (!recorded) return;
+    const entry = undoStackRef.current.pop();
+    if (!entry) return;
+    restoreSnapshot(entry);
+    setHistoryVersion((v) => v + 1);
+  }, [endHistoryGroup, restoreSnapshot]);
+
+  // historyVersion is used to refresh these when the ref-based stacks change
+  const canUndo = useMemo(
+    () => undoStackRef.current.length > 0,
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [currentGeometry, geometryVersion]
+    [historyVersion]
+  );
+
+  const canRedo = useMemo(
+    () => redoStackRef.current.length > 0,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [historyVersion]
   );
 
   const setMode = useCallback((mode: EditorMode) => {
@@ -157,18 +856,36 @@ export function useMeshEditor({
       selectedVertices: new Set(),
       selectedEdges: new Set(),
       selectedFaces: new Set(),
+      ...NO_ACTIVE,
     }));
   }, []);
 
-  const setEditMode = useCallback((editMode: EditMode) => {
-    setState((prev) => ({
-      ...prev,
-      editMode,
-      selectedVertices: new Set(),
-      selectedEdges: new Set(),
-      selectedFaces: new Set(),
-    }));
-  }, []);
+  // Replace the selection of a kind of element, syncing the others if enabled
+  const applySelection = useCallback(
+    (prev: MeshEditorState, selection: Set<number>, editMode: EditMode = prev.editMode) =>
+      withSelection(prev, editMode, selection, syncSelection ? mesh : null),
+    [mesh, syncSelection]
+  );
+
+  const setEditMode = useCallback(
+    (editMode: EditMode) => {
+      setState((prev) => {
+        if (prev.editMode === editMode) return prev;
+        // Synced selections already hold every mode's elements
+        if (syncSelection) return { ...prev, editMode };
+        const converted = new Set(convertSelection(mesh, modeSelection(prev), prev.editMode, editMode));
+        const cleared = {
+          ...prev,
+          editMode,
+          selectedVertices: new Set<number>(),
+          selectedEdges: new Set<number>(),
+          selectedFaces: new Set<number>(),
+        };
+        return withSelection(cleared, editMode, converted, null);
+      });
+    },
+    [mesh, syncSelection]
+  );
 
   const selectVertex = useCallback((index: number, addToSelection = false) => {
     setState((prev) => {
@@ -178,9 +895,10 @@ export function useMeshEditor({
       } else {
         newSelected.add(index);
       }
-      return { ...prev, selectedVertices: newSelected };
+      const next = applySelection(prev, newSelected, 'vertex');
+      return newSelected.has(index) ? { ...next, activeVertex: index } : next;
     });
-  }, []);
+  }, [applySelection]);
 
   const selectEdge = useCallback((index: number, addToSelection = false) => {
     setState((prev) => {
@@ -190,9 +908,10 @@ export function useMeshEditor({
       } else {
         newSelected.add(index);
       }
-      return { ...prev, selectedEdges: newSelected };
+      const next = applySelection(prev, newSelected, 'edge');
+      return newSelected.has(index) ? { ...next, activeEdge: index } : next;
     });
-  }, []);
+  }, [applySelection]);
 
   const selectFace = useCallback((index: number, addToSelection = false) => {
     setState((prev) => {
@@ -202,9 +921,103 @@ export function useMeshEditor({
       } else {
         newSelected.add(index);
       }
-      return { ...prev, selectedFaces: newSelected };
+      const next = applySelection(prev, newSelected, 'face');
+      return newSelected.has(index) ? { ...next, activeFace: index } : next;
     });
-  }, []);
+  }, [applySelection]);
+
+  const selectElements = useCallback((indices: Iterable<number>, operation: SelectionOperation = 'set') => {
+    setState((prev) => applySelection(prev, combineSelection(modeSelection(prev), indices, operation)));
+  }, [applySelection]);
+
+  const selectLinked = useCallback(
+    (index?: number) => {
+      setState((prev) => {
+        const seeds = index === undefined ? modeSelection(prev) : [...modeSelection(prev), index];
+        return applySelection(prev, new Set(findLinked(mesh, prev.editMode, seeds)));
+      });
+    },
+    [mesh, applySelection]
+  );
+
+  // Loops and rings are converted to the current edit mode
+  const selectConverted = useCallback(
+    (indices: number[], from: EditMode, addToSelection: boolean) => {
+      setState((prev) => {
+        const converted = convertSelection(mesh, indices, from, prev.editMode);
+        const operation = addToSelection ? 'add' : 'set';
+        return applySelection(prev, combineSelection(modeSelection(prev), converted, operation));
+      });
+    },
+    [mesh, applySelection]
+  );
+
+  const selectEdgeLoop = useCallback(
+    (edgeIndex: number, addToSelection = false) => {
+      selectConverted(findEdgeLoop(mesh, edgeIndex), 'edge', addToSelection);
+    },
+    [mesh, selectConverted]
+  );
+
+  const selectEdgeRing = useCallback(
+    (edgeIndex: number, addToSelection = false) => {
+      selectConverted(findEdgeRing(mesh, edgeIndex), 'edge', addToSelection);
+    },
+    [mesh, selectConverted]
+  );
+
+  const selectFaceLoop = useCallback(
+    (edgeIndex: number, addToSelection = false) => {
+      selectConverted(findFaceLoop(mesh, edgeIndex), 'face', addToSelection);
+    },
+    [mesh, selectConverted]
+  );
+
+  const selectAll = useCallback(() => {
+    setState((prev) => applySelection(prev, new Set(invertSelectionUtil(mesh, prev.editMode, []))));
+  }, [mesh, applySelection]);
+
+  const invertSelection = useCallback(() => {
+    setState((prev) =>
+      applySelection(prev, new Set(invertSelectionUtil(mesh, prev.editMode, modeSelection(prev))))
+    );
+  }, [mesh, applySelection]);
+
+  const growSelection = useCallback(() => {
+    setState((prev) =>
+      applySelection(prev, new Set(growSelectionUtil(mesh, prev.editMode, modeSelection(prev))))
+    );
+  }, [mesh, applySelection]);
+
+  const shrinkSelection = useCallback(() => {
+    setState((prev) =>
+      applySelection(prev, new Set(shrinkSelectionUtil(mesh, prev.editMode, modeSelection(prev))))
+    );
+  }, [mesh, applySelection]);
+
+  const selectRandom = useCallback(
+    (ratio: number, seed = 0) => {
+      const selected = new Set(randomSelection(mesh, state.editMode, ratio, seed));
+      setState((prev) => applySelection(prev, selected));
+    },
+    [mesh, state.editMode, applySelection]
+  );
+
+  const selectNth = useCallback(
+    (n: number) => {
+      const selected = new Set(nthSelection(mesh, state.editMode, modeSelection(state), n));
+      setState((prev) => applySelection(prev, selected));
+    },
+    [mesh, state, applySelection]
+  );
+
+  const selectSimilar = useCallback(
+    (criterion: SimilarCriterion, threshold = 0) => {
+      const selected = new Set(findSimilar(mesh, state.editMode, modeSelection(state), criterion, threshold));
+      setState((prev) => applySelection(prev, selected));
+    },
+    [mesh, state, applySelection]
+  );
 
   const deselectAll = useCallback(() => {
     setState((prev) => ({
@@ -212,55 +1025,152 @@ export function useMeshEditor({
       selectedVertices: new Set(),
       selectedEdges: new Set(),
       selectedFaces: new Set(),
+      ...NO_ACTIVE,
     }));
   }, []);
 
+  const { radius, falloff, connectedOnly, seed } = proportionalEditing ?? {};
+
+  // Weights of the vertices following a transform of the given ones. Inside
+  // a drag they are computed once, outside each call computes them afresh.
+  const getProportionalWeights = useCallback(
+    (vertexIndices: number[], fresh = false): Map<number, number> | undefined => {
+      if (radius === undefined) return undefined;
+      const key = [[...vertexIndices].sort((a, b) => a - b).join(), radius, falloff, connectedOnly, seed].join('|');
+      const cached = proportionalCacheRef.current;
+      if (!fresh && cached && cached.key === key && cached.mesh === mesh) return cached.weights;
+
+      const weights = computeProportionalWeights(mesh, vertexIndices, { radius, falloff, connectedOnly, seed });
+      const grouped = historyGroupRef.current.depth > 0;
+      proportionalCacheRef.current = fresh || grouped ? { key, mesh, weights } : null;
+      return weights;
+    },
+    [mesh, radius, falloff, connectedOnly, seed]
+  );
+
+  // Move vertices so that their median lands on the snapped point
+  const moveWithSnapping = useCallback(
+    (vertexIndices: number[], offsetFor: (drag: SnapDrag) => [number, number, number]) => {
+      if (!snapping) return;
+      const weights = getProportionalWeights(vertexIndices);
+      const key = [...vertexIndices].sort((a, b) => a - b).join();
+      let drag = snapDragRef.current;
+      if (!drag || drag.key !== key || drag.mesh !== mesh) {
+        drag = beginSnapDrag(mesh, vertexIndices, weights, key);
+      }
+      drag.offset = offsetFor(drag);
+
+      const [rx, ry, rz] = drag.reference;
+      const raw: [number, number, number] = [rx + drag.offset[0], ry + drag.offset[1], rz + drag.offset[2]];
+      const snap = snapPoint(mesh, raw, snapping, new Set(drag.initial.keys()));
+      const target = snap?.position ?? raw;
+      let rotation = { x: 0, y: 0, z: 0, w: 1 };
+      if (snapping.alignToNormal && snap?.normal && drag.normal) {
+        const q = new Quaternion().setFromUnitVectors(drag.normal, new Vector3(...snap.normal));
+        rotation = { x: q.x, y: q.y, z: q.z, w: q.w };
+      }
+
+      transformVerticesAroundCenter(mesh, vertexIndices, drag.reference, rotation, [1, 1, 1], undefined, drag.initial, weights);
+      moveVertices(mesh, vertexIndices, [target[0] - rx, target[1] - ry, target[2] - rz], undefined, weights);
+
+      const grouped = historyGroupRef.current.depth > 0;
+      snapDragRef.current = grouped ? drag : null;
+      setSnapResult(grouped ? snap : null);
+    },
+    [mesh, snapping, getProportionalWeights]
+  );
+
   const handleMoveSelectedVertices = useCallback(
     (delta: [number, number, number]) => {
       const indices = Array.from(state.selectedVertices);
       if (indices.length === 0) return;
 
-      moveVertices(currentGeometry, indices, delta, vertices);
+      recordHistory();
+      if (snapping) {
+        moveWithSnapping(indices, ({ offset }) => [offset[0] + delta[0], offset[1] + delta[1], offset[2] + delta[2]]);
+      } else {
+        moveVertices(mesh, indices, delta, undefined, getProportionalWeights(indices));
+      }
       setGeometryVersion((v) => v + 1);
       onGeometryChange?.(currentGeometry);
     },
-    [currentGeometry, state.selectedVertices, onGeometryChange, vertices]
+    [
+      mesh,
+      currentGeometry,
+      state.selectedVertices,
+      onGeometryChange,
+      recordHistory,
+      snapping,
+      moveWithSnapping,
+      getProportionalWeights,
+    ]
   );
 
   const handleUpdateVertexPosition = useCallback(
     (index: number, position: [number, number, number]) => {
-      updateVertexPosition(currentGeometry, index, position, vertices);
+      recordHistory();
+      const weights = getProportionalWeights([index]);
+      const vertex = mesh.vertices[index];
+      if (snapping) {
+        moveWithSnapping([index], ({ reference }) => [
+          position[0] - reference[0],
+          position[1] - reference[1],
+          position[2] - reference[2],
+        ]);
+      } else if (weights && vertex) {
+        const p = vertex.position;
+        moveVertices(mesh, [index], [position[0] - p[0], position[1] - p[1], position[2] - p[2]], undefined, weights);
+      } else {
+        updateVertexPosition(mesh, index, position);
+      }
       setGeometryVersion((v) => v + 1);
       onGeometryChange?.(currentGeometry);
     },
-    [currentGeometry, onGeometryChange, vertices]
+    [mesh, currentGeometry, onGeometryChange, recordHistory, snapping, moveWithSnapping, getProportionalWeights]
   );
 
   const handleMoveVerticesByDelta = useCallback(
     (vertexIndices: number[], delta: [number, number, number]) => {
       if (vertexIndices.length === 0) return;
-      moveVertices(currentGeometry, vertexIndices, delta, vertices);
+      recordHistory();
+      if (snapping) {
+        moveWithSnapping(vertexIndices, ({ offset }) => [
+          offset[0] + delta[0],
+          offset[1] + delta[1],
+          offset[2] + delta[2],
+        ]);
+      } else {
+        moveVertices(mesh, vertexIndices, delta, undefined, getProportionalWeights(vertexIndices));
+      }
       setGeometryVersion((v) => v + 1);
       onGeometryChange?.(currentGeometry);
     },
-    [currentGeometry, onGeometryChange, vertices]
+    [mesh, currentGeometry, onGeometryChange, recordHistory, snapping, moveWithSnapping, getProportionalWeights]
   );
 
   const refreshGeometry = useCallback(() => {
+    setMesh(
+      EditableMesh.fromBufferGeometry(geometryRef.current, {
+        mergeCoplanarTriangles,
+        autoSmoothAngle: meshRef.current.autoSmoothAngle,
+      })
+    );
     setGeometryVersion((v) => v + 1);
-  }, []);
+    setTopologyVersion((v) => v + 1);
+  }, [mergeCoplanarTriangles]);
 
   const handleCaptureInitialPositions = useCallback(
     (vertexIndices: number[]) => {
       initialPositionsRef.current.clear();
-      for (const idx of vertexIndices) {
+      const weights = getProportionalWeights(vertexIndices, true);
+      for (const idx of [...vertexIndices, ...(weights?.keys() ?? [])]) {
         const v = vertices[idx];
         if (v) {
           initialPositionsRef.current.set(idx, [...v.position]);
         }
       }
     },
-    [vertices]
+    [vertices, getProportionalWeights]
   );
 
   const handleTransformVertices = useCallback(
@@ -268,56 +1178,516 @@ export function useMeshEditor({
       vertexIndices: number[],
       center: [number, number, number],
       rotation: { x: number; y: number; z: number; w: number },
-      scale: [number, number, number]
+      scale: [number, number, number],
+      scaleAxes?: { x: number; y: number; z: number; w: number }
     ) => {
       if (vertexIndices.length === 0) return;
+      recordHistory();
       transformVerticesAroundCenter(
-        currentGeometry,
+        mesh,
         vertexIndices,
         center,
-        rotation,
-        scale,
-        vertices,
-        initialPositionsRef.current
+        snapping?.rotationStep ? snapRotation(rotation, snapping.rotationStep) : rotation,
+        snapping?.scaleStep ? snapScale(scale, snapping.scaleStep) : scale,
+        undefined,
+        initialPositionsRef.current,
+        getProportionalWeights(vertexIndices),
+        scaleAxes
       );
       setGeometryVersion((v) => v + 1);
       onGeometryChange?.(currentGeometry);
     },
-    [currentGeometry, onGeometryChange, vertices]
+    [mesh, currentGeometry, onGeometryChange, recordHistory, snapping, getProportionalWeights]
+  );
+
+  const pivot = useMemo(
+    () => getPivotPoint(mesh, state.editMode, modeSelection(state), pivotPoint, { cursor, active: modeActive(state) }),
+    // vertices changes whenever the mesh is edited in place
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [mesh, vertices, state, pivotPoint, cursor]
+  );
+
+  const handleCaptureSelection = useCallback(() => {
+    const groups = getPivotGroups(mesh, state.editMode, modeSelection(state), pivotPoint, {
+      cursor,
+      active: modeActive(state),
+    });
+    pivotGroupsRef.current = groups;
+    handleCaptureInitialPositions(groups.flatMap((group) => group.vertexIndices));
+  }, [mesh, state, pivotPoint, cursor, handleCaptureInitialPositions]);
+
+  const handleTransformSelection = useCallback(
+    (
+      rotation: { x: number; y: number; z: number; w: number },
+      scale: [number, number, number],
+      scaleAxes?: { x: number; y: number; z: number; w: number }
+    ) => {
+      const groups = pivotGroupsRef.current;
+      if (groups.length === 0) return;
+      recordHistory();
+      const snappedRotation = snapping?.rotationStep ? snapRotation(rotation, snapping.rotationStep) : rotation;
+      const snappedScale = snapping?.scaleStep ? snapScale(scale, snapping.scaleStep) : scale;
+      const weights = getProportionalWeights(groups.flatMap((group) => group.vertexIndices));
+      const groupWeights = splitWeights(weights, groups, initialPositionsRef.current);
+      groups.forEach((group, i) => {
+        transformVerticesAroundCenter(
+          mesh,
+          group.vertexIndices,
+          group.center,
+          snappedRotation,
+          snappedScale,
+          undefined,
+          initialPositionsRef.current,
+          groupWeights[i],
+          scaleAxes
+        );
+      });
+      setGeometryVersion((v) => v + 1);
+      onGeometryChange?.(currentGeometry);
+    },
+    [mesh, currentGeometry, onGeometryChange, recordHistory, snapping, getProportionalWeights]
   );
 
   const handleExtrudeFace = useCallback(
     (faceIndex: number, distance: number) => {
-      const result = extrudeFaceUtil(currentGeometry, faceIndex, distance, vertices, faces);
+      recordHistory();
+      const result = extrudeFaceUtil(mesh, faceIndex, distance);
       setCurrentGeometry(result.geometry);
       setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
       // Select the newly extruded face so user can immediately manipulate it
       setState((prev) => ({
         ...prev,
         selectedFaces: new Set([result.extrudedFaceIndex]),
+        ...NO_ACTIVE,
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, onGeometryChange, recordHistory]
+  );
+
+  const handleExtrudeFaces = useCallback(
+    (
+      faceIndices: number[],
+      distance: number,
+      mode?: ExtrudeMode,
+      direction?: [number, number, number]
+    ) => {
+      // Vector mode has nothing to extrude along without a direction
+      if (faceIndices.length === 0 || (mode === 'vector' && !direction)) return;
+      recordHistory();
+      const result = extrudeFacesUtil(mesh, faceIndices, distance, mode, direction);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      // Select the cap region; vertex and edge indices may have been compacted
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: new Set(),
+        selectedEdges: new Set(),
+        selectedFaces: new Set(result.capFaceIndices),
+        ...NO_ACTIVE,
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, onGeometryChange, recordHistory]
+  );
+
+  const handleExtrudeVertices = useCallback(
+    (vertexIndices: number[], offset: [number, number, number]) => {
+      // Copies on top of their originals would be degenerate
+      if (vertexIndices.length === 0 || offset.every((c) => c === 0)) return;
+      recordHistory();
+      const result = extrudeVerticesUtil(mesh, vertexIndices, offset);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      // Select the new vertices so they can be moved into place
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: new Set(result.newVertexIndices),
+        selectedEdges: new Set(),
+        selectedFaces: new Set(),
+        ...NO_ACTIVE,
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, onGeometryChange, recordHistory]
+  );
+
+  const handleExtrudeEdges = useCallback(
+    (edgeIndices: number[], offset: [number, number, number]) => {
+      // A strip on top of its edges would have no area
+      if (edgeIndices.length === 0 || offset.every((c) => c === 0)) return;
+      recordHistory();
+      const result = extrudeEdgesUtil(mesh, edgeIndices, offset);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      // Select the new edges so they can be moved into place
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: new Set(),
+        selectedEdges: new Set(result.newEdgeIndices),
+        selectedFaces: new Set(),
+        ...NO_ACTIVE,
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, onGeometryChange, recordHistory]
+  );
+
+  const handleInsetFaces = useCallback(
+    (faceIndices: number[], thickness: number, depth?: number, options?: InsetOptions) => {
+      if (faceIndices.length === 0) return;
+      recordHistory();
+      const result = insetFacesUtil(mesh, faceIndices, thickness, depth, options);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      // Keep the inset faces selected; vertex and edge indices may have been compacted
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: new Set(),
+        selectedEdges: new Set(),
+        selectedFaces: new Set(result.insetFaceIndices),
+        ...NO_ACTIVE,
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, onGeometryChange, recordHistory]
+  );
+
+  const handleGetInsetPreview = useCallback(
+    (
+      faceIndices: number[],
+      thickness: number,
+      depth?: number,
+      options?: InsetOptions
+    ): InsetOutline[] => {
+      if (faceIndices.some((f) => !mesh.faces[f])) return [];
+      return findInsetOutlines(mesh, faceIndices, thickness, depth, options);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [mesh, geometryVersion, topologyVersion]
+  );
+
+  const getBevelSelection = useCallback(
+    (affect?: BevelAffect): [BevelAffect, number[]] => {
+      const target = affect ?? (state.editMode === 'vertex' ? 'vertices' : 'edges');
+      const selection = target === 'vertices' ? state.selectedVertices : state.selectedEdges;
+      return [target, Array.from(selection)];
+    },
+    [state.editMode, state.selectedVertices, state.selectedEdges]
+  );
+
+  const handleBevel = useCallback(
+    (options: BevelOptions, affect?: BevelAffect) => {
+      const [target, indices] = getBevelSelection(affect);
+      // Non-manifold vertices would be skipped, leaving nothing to record
+      if (getBevelableIndices(mesh, indices, target).length === 0) return;
+      recordHistory();
+      const result =
+        target === 'vertices'
+          ? bevelVerticesUtil(mesh, indices, options)
+          : bevelEdgesUtil(mesh, indices, options);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      // Select the bevel faces and their edges and vertices
+      const bevelFaces = result.bevelFaceIndices.map((f) => mesh.faces[f]);
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: new Set(bevelFaces.flatMap((face) => face.vertices)),
+        selectedEdges: new Set(bevelFaces.flatMap((face) => face.edges)),
+        selectedFaces: new Set(result.bevelFaceIndices),
+        ...NO_ACTIVE,
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, getBevelSelection, onGeometryChange, recordHistory]
+  );
+
+  const handleGetBevelPreview = useCallback(
+    (options: BevelOptions, affect?: BevelAffect): BevelOutlineSegment[] => {
+      const [target, indices] = getBevelSelection(affect);
+      if (indices.length === 0) return [];
+      return findBevelOutline(mesh, indices, options, target);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [mesh, getBevelSelection, geometryVersion, topologyVersion]
+  );
+
+  const applyDeleteResult = useCallback(
+    (result: DeleteResult) => {
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      // Indices were compacted: keep the surviving selection under its new indices
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: remapSelection(prev.selectedVertices, result.remap.vertices),
+        selectedEdges: remapSelection(prev.selectedEdges, result.remap.edges),
+        selectedFaces: remapSelection(prev.selectedFaces, result.remap.faces),
+        activeVertex: remapActive(prev.activeVertex, result.remap.vertices),
+        activeEdge: remapActive(prev.activeEdge, result.remap.edges),
+        activeFace: remapActive(prev.activeFace, result.remap.faces),
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [onGeometryChange]
+  );
+
+  const handleDeleteVertices = useCallback(
+    (vertexIndices: number[]) => {
+      if (vertexIndices.length === 0) return;
+      recordHistory();
+      applyDeleteResult(deleteVerticesUtil(mesh, vertexIndices));
+    },
+    [mesh, applyDeleteResult, recordHistory]
+  );
+
+  const handleDeleteEdges = useCallback(
+    (edgeIndices: number[]) => {
+      if (edgeIndices.length === 0) return;
+      recordHistory();
+      applyDeleteResult(deleteEdgesUtil(mesh, edgeIndices));
+    },
+    [mesh, applyDeleteResult, recordHistory]
+  );
+
+  const handleDeleteFaces = useCallback(
+    (faceIndices: number[], options?: DeleteFacesOptions) => {
+      if (faceIndices.length === 0) return;
+      recordHistory();
+      applyDeleteResult(deleteFacesUtil(mesh, faceIndices, options));
+    },
+    [mesh, applyDeleteResult, recordHistory]
+  );
+
+  const handleDissolveVertices = useCallback(
+    (vertexIndices: number[]) => {
+      if (vertexIndices.length === 0) return;
+      recordHistory();
+      applyDeleteResult(dissolveVerticesUtil(mesh, vertexIndices));
+    },
+    [mesh, applyDeleteResult, recordHistory]
+  );
+
+  const handleDissolveEdges = useCallback(
+    (edgeIndices: number[]) => {
+      if (edgeIndices.length === 0) return;
+      recordHistory();
+      applyDeleteResult(dissolveEdgesUtil(mesh, edgeIndices));
+    },
+    [mesh, applyDeleteResult, recordHistory]
+  );
+
+  const handleMergeVertices = useCallback(
+    (vertexIndices: number[], mode?: MergeMode, cursor?: [number, number, number]): number => {
+      // Nothing to merge, or no cursor to merge at: leave the history untouched
+      if (new Set(vertexIndices).size < 2 || (mode === 'cursor' && !cursor)) return 0;
+      recordHistory();
+      const result = mergeVerticesUtil(mesh, vertexIndices, mode, cursor);
+      applyDeleteResult(result);
+      return result.removedCount;
+    },
+    [mesh, applyDeleteResult, recordHistory]
+  );
+
+  const handleMergeByDistance = useCallback(
+    (threshold?: number, vertexIndices?: number[]): number => {
+      if (vertexIndices?.length === 0) return 0;
+      recordHistory();
+      const result = mergeByDistanceUtil(mesh, threshold, vertexIndices);
+      applyDeleteResult(result);
+      return result.removedCount;
+    },
+    [mesh, applyDeleteResult, recordHistory]
+  );
+
+  const handleSubdivide = useCallback(
+    (edgeIndices: number[], cuts?: number, smoothness?: number) => {
+      if (edgeIndices.length === 0) return;
+      recordHistory();
+      const result = subdivideUtil(mesh, edgeIndices, cuts, smoothness);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      setState((prev) => {
+        // Selected elements keep their new pieces selected
+        const selectedEdges = remapSelection(prev.selectedEdges, result.remap.edges);
+        for (const [edgeIndex, segments] of result.edgeSegments) {
+          if (prev.selectedEdges.has(edgeIndex)) segments.forEach((e) => selectedEdges.add(e));
+        }
+        const selectedFaces = new Set(prev.selectedFaces);
+        for (const [faceIndex, pieces] of result.faceSplits) {
+          if (prev.selectedFaces.has(faceIndex)) pieces.forEach((f) => selectedFaces.add(f));
+        }
+        const selectedVertices = new Set(prev.selectedVertices);
+        selectedEdges.forEach((e) => mesh.edges[e].vertices.forEach((v) => selectedVertices.add(v)));
+        selectedFaces.forEach((f) => {
+          mesh.faces[f].vertices.forEach((v) => selectedVertices.add(v));
+          mesh.faces[f].edges.forEach((e) => selectedEdges.add(e));
+        });
+        const activeEdge = remapActive(prev.activeEdge, result.remap.edges);
+        return { ...prev, selectedVertices, selectedEdges, selectedFaces, activeEdge };
+      });
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, onGeometryChange, recordHistory]
+  );
+
+  const handleKnifeCut = useCallback(
+    (points: KnifePoint[], options?: KnifeCutOptions) => {
+      // Points placed on faces that no longer exist cannot be cut
+      if (points.length < 2 || points.some((point) => !mesh.faces[point.faceIndex])) return;
+      recordHistory();
+      const result = knifeCutUtil(mesh, points, options);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      const cutVertices = new Set<number>();
+      result.cutEdgeIndices.forEach((e) => mesh.edges[e].vertices.forEach((v) => cutVertices.add(v)));
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: cutVertices,
+        selectedEdges: new Set(result.cutEdgeIndices),
+        selectedFaces: new Set(),
+        ...NO_ACTIVE,
+      }));
+      onGeometryChange?.(result.geometry);
+    },
+    [mesh, onGeometryChange, recordHistory]
+  );
+
+  // Both loops valid, both open or both closed, and apart: the checks
+  // bridgeEdgeLoopsUtil would otherwise throw on
+  const canBridgeEdgeLoops = useCallback(
+    (loopA: number[], loopB: number[]): boolean => {
+      if (loopA.length === 0 || loopB.length === 0) return false;
+      const [a, b] = [loopA, loopB].map((loop) => validateEdgeLoop(loop, edges, { allowOpen: true }));
+      if (!a.isValid || !b.isValid || a.isClosed !== b.isClosed) return false;
+      return !a.orderedVertices.some((v) => b.orderedVertices.includes(v));
+    },
+    [edges]
+  );
+
+  const handleBridgeEdgeLoops = useCallback(
+    (loopA: number[], loopB: number[], options?: BridgeOptions) => {
+      if (!canBridgeEdgeLoops(loopA, loopB)) return;
+      recordHistory();
+      const result = bridgeEdgeLoopsUtil(mesh, loopA, loopB, options);
+      setCurrentGeometry(result.geometry);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      const bridgeFaces = new Set(result.newFaceIndices);
+      const bridgeEdges = new Set<number>();
+      const bridgeVertices = new Set<number>();
+      bridgeFaces.forEach((f) => {
+        mesh.faces[f].edges.forEach((e) => bridgeEdges.add(e));
+        mesh.faces[f].vertices.forEach((v) => bridgeVertices.add(v));
+      });
+      setState((prev) => ({
+        ...prev,
+        selectedVertices: bridgeVertices,
+        selectedEdges: bridgeEdges,
+        selectedFaces: bridgeFaces,
+        ...NO_ACTIVE,
       }));
       onGeometryChange?.(result.geometry);
     },
-    [currentGeometry, vertices, faces, onGeometryChange]
+    [mesh, onGeometryChange, recordHistory, canBridgeEdgeLoops]
+  );
+
+  const handleBridgeSelectedEdgeLoops = useCallback(
+    (options?: BridgeOptions): boolean => {
+      const groups = groupConnectedEdges(Array.from(state.selectedEdges), edges);
+      if (groups.length !== 2 || !canBridgeEdgeLoops(groups[0], groups[1])) return false;
+      handleBridgeEdgeLoops(groups[0], groups[1], options);
+      return true;
+    },
+    [state.selectedEdges, edges, canBridgeEdgeLoops, handleBridgeEdgeLoops]
+  );
+
+  // Winding and shading changes keep every index, so the selection stays
+  const applyRewrittenGeometry = useCallback(
+    (rewritten: BufferGeometry) => {
+      setCurrentGeometry(rewritten);
+      setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
+      onGeometryChange?.(rewritten);
+    },
+    [onGeometryChange]
+  );
+
+  const handleFlipFaces = useCallback(
+    (faceIndices: number[]) => {
+      if (faceIndices.length === 0) return;
+      recordHistory();
+      applyRewrittenGeometry(flipFacesUtil(mesh, faceIndices).geometry);
+    },
+    [mesh, recordHistory, applyRewrittenGeometry]
+  );
+
+  const handleRecalculateNormals = useCallback(
+    (options?: RecalculateNormalsOptions): number => {
+      if (options?.faceIndices?.length === 0) return 0;
+      recordHistory();
+      const result = recalculateNormalsUtil(mesh, options);
+      applyRewrittenGeometry(result.geometry);
+      return result.flippedFaceIndices.length;
+    },
+    [mesh, recordHistory, applyRewrittenGeometry]
+  );
+
+  const handleSetFacesSmooth = useCallback(
+    (faceIndices: number[], smooth: boolean) => {
+      if (faceIndices.length === 0) return;
+      recordHistory();
+      applyRewrittenGeometry(setFacesSmoothUtil(mesh, faceIndices, smooth));
+    },
+    [mesh, recordHistory, applyRewrittenGeometry]
+  );
+
+  const handleMarkEdgesSharp = useCallback(
+    (edgeIndices: number[], sharp = true) => {
+      if (edgeIndices.length === 0) return;
+      recordHistory();
+      applyRewrittenGeometry(markEdgesSharpUtil(mesh, edgeIndices, sharp));
+    },
+    [mesh, recordHistory, applyRewrittenGeometry]
+  );
+
+  const handleSetAutoSmooth = useCallback(
+    (angle: number | null) => {
+      // Angles outside 0-180 degrees (or NaN) are ignored
+      if (angle !== null && !(angle >= 0 && angle <= 180)) return;
+      recordHistory();
+      applyRewrittenGeometry(setAutoSmoothUtil(mesh, angle));
+    },
+    [mesh, recordHistory, applyRewrittenGeometry]
   );
 
   const handleGetLoopCutPath = useCallback(
     (edgeIndex: number, t: number = 0.5): LoopCutPath | null => {
       const edge = edges[edgeIndex];
       if (!edge) return null;
-      return findLoopCutPath(edge, edges, faces, vertices, t);
+      return findLoopCutPath(edge, edges, faces, vertices, t, mesh);
     },
-    [edges, faces, vertices]
+    [edges, faces, vertices, mesh]
   );
 
   const handleExecuteLoopCut = useCallback(
     (path: LoopCutPath) => {
-      const result = executeLoopCutUtil(currentGeometry, path, vertices, faces);
+      recordHistory();
+      const result = executeLoopCutUtil(mesh, path);
       setCurrentGeometry(result.geometry);
       setGeometryVersion((v) => v + 1);
+      setTopologyVersion((v) => v + 1);
       onGeometryChange?.(result.geometry);
     },
-    [currentGeometry, vertices, faces, onGeometryChange]
+    [mesh, onGeometryChange, recordHistory]
   );
 
   const handleValidateSelectedEdgeLoop = useCallback((): EdgeLoopValidation => {
@@ -332,30 +1702,47 @@ export function useMeshEditor({
   }, [handleValidateSelectedEdgeLoop, faces]);
 
   const handleCreateFaceFromSelectedEdges = useCallback((): boolean => {
-    const validation = handleValidateSelectedEdgeLoop();
-    if (!validation.isValid) return false;
+    // Several loops fill the largest one, leaving the others as holes
+    const groups = groupConnectedEdges(Array.from(state.selectedEdges), edges);
+    const validations = groups.map((group) => validateEdgeLoop(group, edges));
+    if (validations.length === 0 || validations.some((v) => !v.isValid)) return false;
+
+    const extent = (loop: number[]) => {
+      const box = new Box3();
+      loop.forEach((v) => box.expandByPoint(new Vector3(...vertices[v].position)));
+      return box.getSize(new Vector3()).length();
+    };
+    const loops = validations.map((v) => v.orderedVertices).sort((a, b) => extent(b) - extent(a));
+    const [outer, ...holes] = loops;
 
     // Check if face already exists
-    if (faceExistsForVertices(validation.orderedVertices, faces)) {
+    if (holes.length === 0 && faceExistsForVertices(outer, faces)) {
       return false;
     }
 
-    const result = createFaceFromEdgeLoop(
-      currentGeometry,
-      validation.orderedVertices,
-      vertices
-    );
+    recordHistory();
+    const result = createFaceFromEdgeLoop(mesh, outer, undefined, holes);
     setCurrentGeometry(result.geometry);
     setGeometryVersion((v) => v + 1);
-    // Clear edge selection and select the new face
+    setTopologyVersion((v) => v + 1);
+    // Clear edge selection and select the new faces
     setState((prev) => ({
       ...prev,
       selectedEdges: new Set(),
-      selectedFaces: new Set([result.newFaceIndex]),
+      selectedFaces: new Set(result.newFaceIndices),
+      ...NO_ACTIVE,
     }));
     onGeometryChange?.(result.geometry);
     return true;
-  }, [handleValidateSelectedEdgeLoop, faces, currentGeometry, vertices, onGeometryChange]);
+  }, [
+    state.selectedEdges,
+    edges,
+    vertices,
+    faces,
+    mesh,
+    onGeometryChange,
+    recordHistory,
+  ]);
 
   return {
     state,
@@ -367,19 +1754,70 @@ export function useMeshEditor({
     selectVertex,
     selectEdge,
     selectFace,
+    selectElements,
+    selectLinked,
+    selectEdgeLoop,
+    selectEdgeRing,
+    selectFaceLoop,
+    selectAll,
+    invertSelection,
+    growSelection,
+    shrinkSelection,
+    selectRandom,
+    selectNth,
+    selectSimilar,
     deselectAll,
+    proportionalEditing,
+    snapping,
+    snapResult,
+    pivotPoint,
+    cursor,
+    pivot,
     moveSelectedVertices: handleMoveSelectedVertices,
     moveVerticesByDelta: handleMoveVerticesByDelta,
     updateVertexPosition: handleUpdateVertexPosition,
     transformVertices: handleTransformVertices,
     captureInitialPositions: handleCaptureInitialPositions,
+    captureSelection: handleCaptureSelection,
+    transformSelection: handleTransformSelection,
     refreshGeometry,
     currentGeometry,
+    mesh,
     extrudeFace: handleExtrudeFace,
+    extrudeFaces: handleExtrudeFaces,
+    extrudeVertices: handleExtrudeVertices,
+    extrudeEdges: handleExtrudeEdges,
+    insetFaces: handleInsetFaces,
+    getInsetPreview: handleGetInsetPreview,
+    bevel: handleBevel,
+    getBevelPreview: handleGetBevelPreview,
+    deleteVertices: handleDeleteVertices,
+    deleteEdges: handleDeleteEdges,
+    deleteFaces: handleDeleteFaces,
+    dissolveVertices: handleDissolveVertices,
+    dissolveEdges: handleDissolveEdges,
+    mergeVertices: handleMergeVertices,
+    mergeByDistance: handleMergeByDistance,
+    subdivide: handleSubdivide,
+    knifeCut: handleKnifeCut,
+    bridgeEdgeLoops: handleBridgeEdgeLoops,
+    bridgeSelectedEdgeLoops: handleBridgeSelectedEdgeLoops,
+    flipFaces: handleFlipFaces,
+    recalculateNormals: handleRecalculateNormals,
+    setFacesSmooth: handleSetFacesSmooth,
+    markEdgesSharp: handleMarkEdgesSharp,
+    setAutoSmooth: handleSetAutoSmooth,
     getLoopCutPath: handleGetLoopCutPath,
     executeLoopCut: handleExecuteLoopCut,
     validateSelectedEdgeLoop: handleValidateSelectedEdgeLoop,
     createFaceFromSelectedEdges: handleCreateFaceFromSelectedEdges,
     selectedEdgeLoopHasFace: handleSelectedEdgeLoopHasFace,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    beginHistoryGroup,
+    endHistoryGroup,
+    cancelHistoryGroup,
   };
 }
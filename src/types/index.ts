@@ -15,6 +15,93 @@ export type EditorMode = 'object' | 'edit';
  */
 export type EditMode = 'vertex' | 'edge' | 'face';
 
+/**
+ * How a new set of elements combines with the current selection.
+ * - `'set'`: Replace the selection
+ * - `'add'`: Add to the selection
+ * - `'subtract'`: Remove from the selection
+ * - `'intersect'`: Keep only elements in both
+ */
+export type SelectionOperation = 'set' | 'add' | 'subtract' | 'intersect';
+
+/**
+ * How the influence of proportional editing falls off with distance.
+ * - `'smooth'`: Smoothstep, easing in and out
+ * - `'sphere'`: Round profile, staying strong until near the radius
+ * - `'linear'`: Straight ramp
+ * - `'sharp'`: Quadratic, dropping quickly away from the selection
+ * - `'constant'`: Full influence anywhere inside the radius
+ * - `'random'`: Linear ramp scaled by a random factor per vertex
+ */
+export type ProportionalFalloff = 'smooth' | 'sphere' | 'linear' | 'sharp' | 'constant' | 'random';
+
+/**
+ * Settings for proportional (soft) editing, where unselected vertices near
+ * the transformed ones follow them with a falloff weight.
+ */
+export interface ProportionalEditOptions {
+  /** Radius of influence in world units */
+  radius: number;
+  /** Falloff curve @default 'smooth' */
+  falloff?: ProportionalFalloff;
+  /**
+   * Only affect vertices connected to the selection, measuring distance
+   * along edges instead of in a straight line @default false
+   */
+  connectedOnly?: boolean;
+  /** Seed of the `'random'` falloff @default 0 */
+  seed?: number;
+}
+
+/**
+ * What moved elements snap to.
+ * - `'grid'`: Increments of the world grid
+ * - `'vertex'`: Other vertices
+ * - `'midpoint'`: Midpoints of other edges
+ * - `'edge'`: The closest point on other edges
+ * - `'face'`: The closest point on other faces
+ */
+export type SnapTarget = 'grid' | 'vertex' | 'midpoint' | 'edge' | 'face';
+
+/**
+ * Snapping settings for moves, rotations and scales.
+ */
+export interface SnapOptions {
+  /**
+   * Targets moves snap to. Vertices, midpoints, edges and faces are tried in
+   * that order within `distance`, then the grid. @default ['grid']
+   */
+  targets?: SnapTarget[];
+  /** Grid increment in world units @default 0.25 */
+  gridSize?: number;
+  /** Distance in world units within which moves snap to mesh elements @default 0.1 */
+  distance?: number;
+  /** Rotate moved elements so their normal matches the face snapped to @default false */
+  alignToNormal?: boolean;
+  /** Rotation increment in degrees. Rotations are not snapped when omitted. */
+  rotationStep?: number;
+  /** Scale increment. Scales are not snapped when omitted. */
+  scaleStep?: number;
+}
+
+/**
+ * The axes transforms are constrained to.
+ * - `'global'`: World axes
+ * - `'local'`: Axes of the edited object
+ * - `'normal'`: Axes aligned to the selection, with Z along its normal
+ */
+export type TransformOrientation = 'global' | 'local' | 'normal';
+
+/**
+ * The point rotations and scales of the selection pivot around.
+ * - `'median'`: Median of the selected vertices
+ * - `'boundingBox'`: Center of the bounding box of the selected vertices
+ * - `'cursor'`: The 3D cursor
+ * - `'individual'`: Each connected group of selected edges or faces about its own median
+ * - `'active'`: The active (last clicked) element
+ */
+export type PivotPoint = 'median' | 'boundingBox' | 'cursor' | 'individual' | 'active';
+
 /**
  * Represents a unique vertex in the mesh geometry.
  * Vertices at the same position are deduplicated and share the same VertexData.
@@ -40,18 +127,22 @@ export interface EdgeData {
   vertexIndices: [number, number];
   /** Whether this edge is currently selected */
   selected: boolean;
+  /** Whether this edge is marked sharp */
+  sharp?: boolean;
 }
 
 /**
- * Represents a triangular face defined by three vertices.
+ * Represents a polygon face (triangle, quad or n-gon).
  */
 export interface FaceData {
   /** Unique index of this face */
   index: number;
-  /** Indices of the three vertices that form this face */
-  vertexIndices: [number, number, number];
+  /** Indices of the vertices that form this face, in winding order */
+  vertexIndices: number[];
   /** Whether this face is currently selected */
   selected: boolean;
+  /** Whether this face is shaded smooth */
+  smooth?: boolean;
 }
 
 /**
@@ -68,6 +159,12 @@ export interface MeshEditorState {
   selectedEdges: Set<number>;
   /** Set of selected face indices */
   selectedFaces: Set<number>;
+  /** Last clicked selected vertex, or null */
+  activeVertex: number | null;
+  /** Last clicked selected edge, or null */
+  activeEdge: number | null;
+  /** Last clicked selected face, or null */
+  activeFace: number | null;
 }
 
 /**
@@ -82,6 +179,14 @@ export interface MeshEditorProviderOptions {
   initialMode?: EditorMode;
   /** Initial edit sub-mode */
   initialEditMode?: EditMode;
+  /** Merge coplanar triangle pairs into quads when loading the geometry @default true */
+  mergeCoplanarTriangles?: boolean;
+  /** Keep the vertex, edge and face selections in sync across edit modes @default false */
+  syncSelection?: boolean;
+  /** Proportional editing settings, enabling soft transforms when set */
+  proportionalEditing?: ProportionalEditOptions;
+  /** Snapping settings, snapping moves, rotations and scales when set */
+  snapping?: SnapOptions;
   /** Size of vertex handle spheres */
   vertexSize?: number;
   /** Color of unselected edges */
@@ -103,7 +208,7 @@ export interface MeshEditorContextValue {
   state: MeshEditorState;
   /** Set the editor mode (object or edit) */
   setMode: (mode: EditorMode) => void;
-  /** Set the edit sub-mode (vertex, edge, or face) */
+  /** Set the edit sub-mode (vertex, edge, or face), converting the selection */
   setEditMode: (editMode: EditMode) => void;
   /** Select or toggle selection of a vertex */
   selectVertex: (index: number, addToSelection?: boolean) => void;
@@ -111,10 +216,30 @@ export interface MeshEditorContextValue {
   selectEdge: (index: number, addToSelection?: boolean) => void;
   /** Select or toggle selection of a face */
   selectFace: (index: number, addToSelection?: boolean) => void;
+  /** Select every element of the current edit mode */
+  selectAll: () => void;
+  /** Invert the selection of the current edit mode */
+  invertSelection: () => void;
+  /** Grow the selection by one ring of adjacent elements */
+  growSelection: () => void;
+  /** Shrink the selection by one ring of adjacent elements */
+  shrinkSelection: () => void;
+  /** Select a random share (0 to 1) of the elements, reproducibly for a seed */
+  selectRandom: (ratio: number, seed?: number) => void;
+  /** Keep every nth selected element (checker deselect) */
+  selectNth: (n: number) => void;
   /** Clear all selections */
   deselectAll: () => void;
   /** Move all selected vertices by a delta */
   moveSelectedVertices: (delta: [number, number, number]) => void;
+  /** Revert the last geometry operation */
+  undo: () => void;
+  /** Re-apply the last undone geometry operation */
+  redo: () => void;
+  /** Whether there is an operation that can be undone */
+  canUndo: boolean;
+  /** Whether there is an operation that can be redone */
+  canRedo: boolean;
   /** The geometry being edited */
   geometry: BufferGeometry;
   /** Array of all vertices extracted from the geometry */
@@ -0,0 +1,10 @@
+/**
+ * Whether a key event was typed into a form field.
+ * @internal
+ */
+export function isTextInput(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
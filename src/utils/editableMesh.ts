@@ -0,0 +1,1310 @@
+import { BufferGeometry, BufferAttribute, Vector3 } from 'three';
+import type { InterleavedBufferAttribute } from 'three';
+import type { VertexData, EdgeData, FaceData } from '../types';
+import { polygonNormal, triangulatePolygon } from './triangulate';
+
+/**
+ * Round to 6 decimal places to handle floating point precision issues.
+ * @internal
+ */
+function roundPosition(value: number): number {
+  return Math.round(value * 1000000) / 1000000;
+}
+
+/**
+ * Create a unique key for a 3D position.
+ * @internal
+ */
+export function positionKey(x: number, y: number, z: number): string {
+  return `${roundPosition(x)},${roundPosition(y)},${roundPosition(z)}`;
+}
+
+/**
+ * Per-corner attribute values of a face (UVs, colors, tangents, custom
+ * attributes...), keyed by attribute name. Positions are stored on the
+ * vertices, everything else lives on the face corners so that seams survive
+ * editing.
+ */
+export type LoopAttributes = Record<string, number[]>;
+
+/**
+ * Describes how a non-position buffer attribute is stored and written back.
+ */
+export interface MeshAttributeLayout {
+  /** Key of the attribute in {@link LoopAttributes} */
+  key: string;
+  /** Attribute name on the BufferGeometry */
+  name: string;
+  /** Morph target index when this is a morph attribute */
+  morphIndex?: number;
+  /** Number of components per item */
+  itemSize: number;
+  /** Whether integer values are normalized */
+  normalized: boolean;
+  /** Typed array constructor used when writing back */
+  arrayType: new (length: number) => ArrayLike<number> & { [index: number]: number };
+  /** Whether values are integers that cannot be interpolated (e.g. skin indices) */
+  integer: boolean;
+}
+
+/**
+ * A vertex of an {@link EditableMesh}.
+ */
+export interface MeshVertex {
+  /** 3D position as [x, y, z] tuple */
+  position: [number, number, number];
+  /** Indices of the edges connected to this vertex */
+  edges: number[];
+}
+
+/**
+ * An edge of an {@link EditableMesh}.
+ */
+export interface MeshEdge {
+  /** Indices of the two vertices that form this edge */
+  vertices: [number, number];
+  /** Indices of the faces that use this edge */
+  faces: number[];
+  /** Whether smooth shading stops at this edge */
+  sharp: boolean;
+}
+
+/**
+ * A polygon face of an {@link EditableMesh}.
+ */
+export interface MeshFace {
+  /** Vertex indices in winding order */
+  vertices: number[];
+  /** Edge indices; `edges[i]` connects `vertices[i]` and `vertices[i + 1]` */
+  edges: number[];
+  /** Attribute values for each corner, parallel to `vertices` */
+  loops: LoopAttributes[];
+  /** Material group index */
+  materialIndex: number;
+  /** Whether the face is shaded smooth; flat faces use their face normal at every corner */
+  smooth: boolean;
+}
+
+/**
+ * Maps old element indices to new ones after elements are deleted.
+ * Removed elements map to -1.
+ */
+export interface MeshIndexRemap {
+  /** New index of each old vertex */
+  vertices: number[];
+  /** New index of each old edge */
+  edges: number[];
+  /** New index of each old face */
+  faces: number[];
+}
+
+/**
+ * Options for {@link EditableMesh.fromBufferGeometry}.
+ */
+export interface EditableMeshOptions {
+  /** Merge coplanar triangle pairs into quads @default true */
+  mergeCoplanarTriangles?: boolean;
+  /** Auto smooth angle in degrees, see {@link EditableMesh.autoSmoothAngle} @default null */
+  autoSmoothAngle?: number | null;
+}
+
+/**
+ * A triangle read from the source buffer, before quad merging.
+ * @internal
+ */
+interface SourceTriangle {
+  vertices: number[];
+  loops: LoopAttributes[];
+  materialIndex: number;
+}
+
+/**
+ * Maximum deviation from 1 of the dot product between the normals of two
+ * triangles merged into a quad.
+ * @internal
+ */
+const COPLANAR_TOLERANCE = 1e-4;
+
+/**
+ * Maximum deviation from 1 of the dot product between two source normals
+ * read as the same direction.
+ * @internal
+ */
+const NORMAL_TOLERANCE = 1e-3;
+
+/**
+ * Read a single component of a (possibly interleaved) buffer attribute.
+ * @internal
+ */
+function readComponent(
+  attribute: BufferAttribute | InterleavedBufferAttribute,
+  index: number,
+  component: number
+): number {
+  switch (component) {
+    case 0:
+      return attribute.getX(index);
+    case 1:
+      return attribute.getY(index);
+    case 2:
+      return attribute.getZ(index);
+    default:
+      return attribute.getW(index);
+  }
+}
+
+/**
+ * Write a single component of a buffer attribute.
+ * @internal
+ */
+function writeComponent(
+  attribute: BufferAttribute,
+  index: number,
+  component: number,
+  value: number
+): void {
+  switch (component) {
+    case 0:
+      attribute.setX(index, value);
+      break;
+    case 1:
+      attribute.setY(index, value);
+      break;
+    case 2:
+      attribute.setZ(index, value);
+      break;
+    default:
+      attribute.setW(index, value);
+  }
+}
+
+/**
+ * Build the storage layout for a buffer attribute.
+ * @internal
+ */
+function createLayout(
+  key: string,
+  name: string,
+  attribute: BufferAttribute | InterleavedBufferAttribute,
+  morphIndex?: number
+): MeshAttributeLayout {
+  const array =
+    'isInterleavedBufferAttribute' in attribute ? attribute.data.array : attribute.array;
+  const isFloat = array instanceof Float32Array || array instanceof Float64Array;
+  return {
+    key,
+    name,
+    morphIndex,
+    itemSize: attribute.itemSize,
+    normalized: attribute.normalized,
+    arrayType: array.constructor as MeshAttributeLayout['arrayType'],
+    integer: !isFloat && !attribute.normalized,
+  };
+}
+
+/**
+ * Editable mesh data structure used as the core of all editing operations.
+ *
+ * Vertices are welded by position, faces are polygons with per-corner
+ * attributes, and adjacency (vertex → edges, edge → faces) is maintained
+ * incrementally, so queries such as "faces around an edge" are O(1) and
+ * operations do not need to rebuild lookup tables from the buffer.
+ *
+ * The mesh is built once from a BufferGeometry and written back with
+ * {@link EditableMesh.toBufferGeometry}. It remembers the geometry it is
+ * bound to, so vertex moves can be synced into that buffer in place.
+ *
+ * @example
+ * ```ts
+ * const mesh = EditableMesh.fromBufferGeometry(new BoxGeometry());
+ * const facesAroundEdge = mesh.edges[0].faces;
+ * mesh.setVertexPosition(0, [1, 1, 1]);
+ * const geometry = mesh.toBufferGeometry();
+ * ```
+ */
+export class EditableMesh {
+  /** Welded vertices */
+  vertices: MeshVertex[] = [];
+  /** Unique edges */
+  edges: MeshEdge[] = [];
+  /** Polygon faces */
+  faces: MeshFace[] = [];
+  /** Layouts of the per-corner attributes */
+  attributeLayouts: MeshAttributeLayout[] = [];
+  /** Whether material groups are written back */
+  hasGroups = false;
+  /** Name copied to written-back geometries */
+  name = '';
+  /** Whether morph attributes are relative */
+  morphTargetsRelative = false;
+  /**
+   * Auto smooth angle in degrees. Smooth faces meeting at a sharper angle are
+   * shaded as if their shared edge were marked sharp. `null` disables it.
+   */
+  autoSmoothAngle: number | null = null;
+
+  /** The BufferGeometry this mesh was read from or last written to */
+  geometry: BufferGeometry | null = null;
+  /** Buffer indices of each vertex in the bound geometry */
+  vertexBufferIndices: number[][] = [];
+  /** Face index of each triangle in the bound geometry (-1 if none) */
+  triangleFaces: number[] = [];
+  /** Buffer index of each face corner in the bound geometry, when written by this mesh */
+  cornerBufferIndices: number[][] = [];
+
+  /**
+   * Build an editable mesh from a BufferGeometry.
+   *
+   * Buffer vertices at the same position are welded into one vertex, and
+   * duplicate or degenerate triangles are skipped. Pairs of coplanar
+   * triangles sharing their longest edge are merged into quads unless
+   * disabled. Source normals become shading flags: faces whose corner
+   * normals all match the face normal are flat, other faces are smooth, and
+   * edges the normals break across are marked sharp. Buffer vertices no
+   * triangle uses become loose vertices, and `userData.looseEdges` (pairs of
+   * buffer indices) become loose edges. The geometry is not modified, but
+   * the mesh is bound to it.
+   *
+   * @param geometry - The Three.js BufferGeometry to read
+   * @param options - Import options
+   * @returns A new editable mesh
+   */
+  static fromBufferGeometry(
+    geometry: BufferGeometry,
+    { mergeCoplanarTriangles = true, autoSmoothAngle = null }: EditableMeshOptions = {}
+  ): EditableMesh {
+    const mesh = new EditableMesh();
+    mesh.name = geometry.name;
+    mesh.autoSmoothAngle = autoSmoothAngle;
+    mesh.morphTargetsRelative = geometry.morphTargetsRelative;
+    mesh.geometry = geometry;
+
+    const positionAttribute = geometry.getAttribute('position');
+    if (!positionAttribute) return mesh;
+
+    // Weld buffer vertices by position
+    const bufferToVertex: number[] = [];
+    const positionToIndex = new Map<string, number>();
+    for (let i = 0; i < positionAttribute.count; i++) {
+      const x = positionAttribute.getX(i);
+      const y = positionAttribute.getY(i);
+      const z = positionAttribute.getZ(i);
+      const key = positionKey(x, y, z);
+      let vertexIndex = positionToIndex.get(key);
+      if (vertexIndex === undefined) {
+        vertexIndex = mesh.addVertex([x, y, z]);
+        positionToIndex.set(key, vertexIndex);
+        mesh.vertexBufferIndices.push([]);
+      }
+      bufferToVertex.push(vertexIndex);
+      mesh.vertexBufferIndices[vertexIndex].push(i);
+    }
+
+    // Every other attribute becomes per-corner data
+    const sources: Array<[MeshAttributeLayout, BufferAttribute | InterleavedBufferAttribute]> = [];
+    for (const name of Object.keys(geometry.attributes)) {
+      if (name === 'position') continue;
+      const attribute = geometry.getAttribute(name);
+      sources.push([createLayout(name, name, attribute), attribute]);
+    }
+    for (const name of Object.keys(geometry.morphAttributes)) {
+      geometry.morphAttributes[name].forEach((attribute, morphIndex) => {
+        sources.push([
+          createLayout(`morph:${name}:${morphIndex}`, name, attribute, morphIndex),
+          attribute,
+        ]);
+      });
+    }
+    mesh.attributeLayouts = sources.map(([layout]) => layout);
+
+    const readLoop = (bufferIndex: number): LoopAttributes => {
+      const loop: LoopAttributes = {};
+      for (const [layout, attribute] of sources) {
+        const values: number[] = [];
+        for (let c = 0; c < layout.itemSize; c++) {
+          values.push(readComponent(attribute, bufferIndex, c));
+        }
+        loop[layout.key] = values;
+      }
+      return loop;
+    };
+
+    // Material index of every triangle from the groups
+    const indexAttribute = geometry.getIndex();
+    const indexCount = indexAttribute ? indexAttribute.count : positionAttribute.count;
+    const triangleCount = Math.floor(indexCount / 3);
+    const triangleMaterials = new Array<number>(triangleCount).fill(0);
+    mesh.hasGroups = geometry.groups.length > 0;
+    for (const group of geometry.groups) {
+      const start = Math.floor(group.start / 3);
+      const end = Math.min(triangleCount, Math.floor((group.start + group.count) / 3));
+      for (let t = start; t < end; t++) {
+        triangleMaterials[t] = group.materialIndex ?? 0;
+      }
+    }
+
+    // Collect the unique triangles; each buffer triangle maps to one of them
+    const triangles: SourceTriangle[] = [];
+    const triangleOwners: number[] = [];
+    const triangleKeys = new Map<string, number>();
+    for (let t = 0; t < triangleCount; t++) {
+      const corners = [0, 1, 2].map((c) =>
+        indexAttribute ? indexAttribute.getX(t * 3 + c) : t * 3 + c
+      );
+      const faceVertices = corners.map((corner) => bufferToVertex[corner]);
+
+      // Skip degenerate triangles
+      if (
+        faceVertices[0] === faceVertices[1] ||
+        faceVertices[1] === faceVertices[2] ||
+        faceVertices[2] === faceVertices[0]
+      ) {
+        triangleOwners.push(-1);
+        continue;
+      }
+
+      // Skip duplicate triangles, mapping them to the existing one
+      const key = [...faceVertices].sort((a, b) => a - b).join('-');
+      const existing = triangleKeys.get(key);
+      if (existing !== undefined) {
+        triangleOwners.push(existing);
+        continue;
+      }
+
+      triangleKeys.set(key, triangles.length);
+      triangleOwners.push(triangles.length);
+      triangles.push({
+        vertices: faceVertices,
+        loops: corners.map(readLoop),
+        materialIndex: triangleMaterials[t],
+      });
+    }
+
+    const partners = mergeCoplanarTriangles
+      ? findQuadPartners(mesh.vertices, triangles)
+      : null;
+
+    // Faces are added in triangle order, a merged quad at its first triangle
+    const triangleToFace = new Array<number>(triangles.length).fill(-1);
+    triangles.forEach((triangle, i) => {
+      if (triangleToFace[i] !== -1) return;
+      const partner = partners ? partners[i] : -1;
+      const face = partner === -1 ? triangle : mergeTrianglePair(triangle, triangles[partner]);
+      triangleToFace[i] = mesh.addFace(face.vertices, face.loops, face.materialIndex);
+      if (partner !== -1) triangleToFace[partner] = triangleToFace[i];
+    });
+    mesh.triangleFaces = triangleOwners.map((owner) =>
+      owner === -1 ? -1 : triangleToFace[owner]
+    );
+    applySourceNormals(mesh);
+
+    // Loose edges are stored as pairs of buffer indices
+    const looseEdges: unknown = geometry.userData.looseEdges;
+    if (Array.isArray(looseEdges)) {
+      for (let i = 0; i + 1 < looseEdges.length; i += 2) {
+        const a = bufferToVertex[looseEdges[i]];
+        const b = bufferToVertex[looseEdges[i + 1]];
+        if (a !== undefined && b !== undefined && a !== b) mesh.addEdge(a, b);
+      }
+    }
+
+    return mesh;
+  }
+
+  /**
+   * Create a deep copy of this mesh. The copy is bound to the same geometry.
+   */
+  clone(): EditableMesh {
+    const copy = new EditableMesh();
+    copy.vertices = this.vertices.map((v) => ({
+      position: [...v.position],
+      edges: [...v.edges],
+    }));
+    copy.edges = this.edges.map((e) => ({
+      vertices: [...e.vertices],
+      faces: [...e.faces],
+      sharp: e.sharp,
+    }));
+    copy.faces = this.faces.map((f) => ({
+      vertices: [...f.vertices],
+      edges: [...f.edges],
+      loops: f.loops.map(copyLoop),
+      materialIndex: f.materialIndex,
+      smooth: f.smooth,
+    }));
+    copy.attributeLayouts = this.attributeLayouts;
+    copy.hasGroups = this.hasGroups;
+    copy.name = this.name;
+    copy.morphTargetsRelative = this.morphTargetsRelative;
+    copy.autoSmoothAngle = this.autoSmoothAngle;
+    copy.geometry = this.geometry;
+    copy.vertexBufferIndices = this.vertexBufferIndices.map((indices) => [...indices]);
+    copy.triangleFaces = [...this.triangleFaces];
+    copy.cornerBufferIndices = this.cornerBufferIndices.map((indices) => [...indices]);
+    return copy;
+  }
+
+  /**
+   * Write the mesh to a new BufferGeometry and bind the mesh to it.
+   *
+   * Faces are triangulated, and corners of the same vertex share a buffer
+   * vertex only when they lie in the same smooth fan and all their
+   * attributes match, so UV seams and hard edges are kept. Normals are
+   * written per fan from the shading flags (see {@link shadeCorners}).
+   * Loose vertices are appended as buffer vertices no triangle uses, and
+   * loose edges are kept in `userData.looseEdges` as pairs of buffer
+   * indices, so {@link EditableMesh.fromBufferGeometry} reads them back.
+   *
+   * @returns The new geometry
+   */
+  toBufferGeometry(): BufferGeometry {
+    const layouts = this.attributeLayouts;
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const values: number[][] = layouts.map(() => []);
+    const indices: number[] = [];
+    const vertexBufferIndices: number[][] = this.vertices.map(() => []);
+    const triangleFaces: number[] = [];
+    const triangleMaterials: number[] = [];
+    const cornerKeys = new Map<string, number>();
+
+    const cornerFans = this.faces.map((face) => face.vertices.map(() => -1));
+    const cornerNormals: Vector3[][] = this.faces.map(() => []);
+    this.shadeCorners(this.vertices.keys(), (faceIndex, corner, fan, normal) => {
+      cornerFans[faceIndex][corner] = fan;
+      cornerNormals[faceIndex][corner] = normal;
+    });
+
+    const emitCorner = (faceIndex: number, corner: number): number => {
+      const vertexIndex = this.faces[faceIndex].vertices[corner];
+      const loop = this.faces[faceIndex].loops[corner];
+      let key = `${vertexIndex}|${cornerFans[faceIndex][corner]}`;
+      for (const layout of layouts) {
+        key += `|${(loop[layout.key] ?? []).join(',')}`;
+      }
+      const existing = cornerKeys.get(key);
+      if (existing !== undefined) return existing;
+
+      const bufferIndex = positions.length / 3;
+      positions.push(...this.vertices[vertexIndex].position);
+      normals.push(...cornerNormals[faceIndex][corner].toArray());
+      layouts.forEach((layout, i) => {
+        const loopValues = loop[layout.key];
+        for (let c = 0; c < layout.itemSize; c++) {
+          values[i].push(loopValues?.[c] ?? 0);
+        }
+      });
+      cornerKeys.set(key, bufferIndex);
+      vertexBufferIndices[vertexIndex].push(bufferIndex);
+      return bufferIndex;
+    };
+
+    const cornerBufferIndices = this.faces.map((face, faceIndex) =>
+      face.vertices.map((_, corner) => emitCorner(faceIndex, corner))
+    );
+    this.faces.forEach((face, faceIndex) => {
+      const corners = cornerBufferIndices[faceIndex];
+      const points = face.vertices.map((v) => this.vertices[v].position);
+      for (const [a, b, c] of triangulatePolygon(points)) {
+        indices.push(corners[a], corners[b], corners[c]);
+        triangleFaces.push(faceIndex);
+        triangleMaterials.push(face.materialIndex);
+      }
+    });
+
+    // Loose vertices are written as buffer vertices no triangle uses
+    this.vertices.forEach((vertex, vertexIndex) => {
+      if (vertexBufferIndices[vertexIndex].length > 0) return;
+      vertexBufferIndices[vertexIndex].push(positions.length / 3);
+      positions.push(...vertex.position);
+      normals.push(0, 0, 0);
+      layouts.forEach((layout, i) => values[i].push(...new Array<number>(layout.itemSize).fill(0)));
+    });
+    const looseEdges = this.edges
+      .filter((edge) => edge.faces.length === 0)
+      .flatMap((edge) => edge.vertices.map((v) => vertexBufferIndices[v][0]));
+
+    const geometry = new BufferGeometry();
+    geometry.name = this.name;
+    if (looseEdges.length > 0) geometry.userData.looseEdges = looseEdges;
+    geometry.setAttribute('position', new BufferAttribute(new Float32Array(positions), 3));
+    geometry.setAttribute('normal', new BufferAttribute(new Float32Array(normals), 3));
+
+    const vertexCount = positions.length / 3;
+    layouts.forEach((layout, i) => {
+      const attribute = new BufferAttribute(
+        new layout.arrayType(vertexCount * layout.itemSize) as Float32Array,
+        layout.itemSize,
+        layout.normalized
+      );
+      for (let v = 0; v < vertexCount; v++) {
+        for (let c = 0; c < layout.itemSize; c++) {
+          writeComponent(attribute, v, c, values[i][v * layout.itemSize + c]);
+        }
+      }
+      if (layout.morphIndex === undefined) {
+        geometry.setAttribute(layout.name, attribute);
+      } else {
+        const morphs = (geometry.morphAttributes[layout.name] ??= []);
+        morphs[layout.morphIndex] = attribute;
+      }
+    });
+    geometry.morphTargetsRelative = this.morphTargetsRelative;
+
+    geometry.setIndex(new BufferAttribute(new Uint32Array(indices), 1));
+
+    if (this.hasGroups) {
+      let runStart = 0;
+      for (let t = 1; t <= triangleMaterials.length; t++) {
+        if (t === triangleMaterials.length || triangleMaterials[t] !== triangleMaterials[runStart]) {
+          geometry.addGroup(runStart * 3, (t - runStart) * 3, triangleMaterials[runStart]);
+          runStart = t;
+        }
+      }
+    }
+
+    geometry.computeBoundingSphere();
+
+    this.geometry = geometry;
+    this.vertexBufferIndices = vertexBufferIndices;
+    this.triangleFaces = triangleFaces;
+    this.cornerBufferIndices = cornerBufferIndices;
+    return geometry;
+  }
+
+  /**
+   * Copy vertex positions into the bound geometry in place, and update the
+   * normals of the corners around them. Smooth fans are kept as they were
+   * written, so auto smooth only regroups faces on the next write-back.
+   *
+   * @param vertexIndices - Vertices to sync (all vertices if omitted)
+   */
+  syncPositions(vertexIndices?: Iterable<number>): void {
+    const geometry = this.geometry;
+    const positionAttribute = geometry?.getAttribute('position');
+    if (!geometry || !positionAttribute) return;
+
+    const indices = Array.from(vertexIndices ?? this.vertices.keys());
+    for (const vertexIndex of indices) {
+      const vertex = this.vertices[vertexIndex];
+      const bufferIndices = this.vertexBufferIndices[vertexIndex];
+      if (!vertex || !bufferIndices) continue;
+      for (const bufferIndex of bufferIndices) {
+        positionAttribute.setXYZ(bufferIndex, ...vertex.position);
+      }
+    }
+
+    positionAttribute.needsUpdate = true;
+
+    // Geometries not written by this mesh have no corner mapping
+    const normalAttribute = geometry.getAttribute('normal');
+    if (!normalAttribute || this.cornerBufferIndices.length !== this.faces.length) {
+      geometry.computeVertexNormals();
+    } else {
+      // Moving a vertex turns its faces, which reshades every corner of those faces' vertices
+      const reshaded = new Set<number>();
+      for (const vertexIndex of indices) {
+        if (!this.vertices[vertexIndex]) continue;
+        for (const f of this.getVertexFaces(vertexIndex)) {
+          this.faces[f].vertices.forEach((v) => reshaded.add(v));
+        }
+      }
+      this.shadeCorners(reshaded, (faceIndex, corner, _fan, normal) => {
+        const bufferIndex = this.cornerBufferIndices[faceIndex][corner];
+        if (bufferIndex !== undefined) normalAttribute.setXYZ(bufferIndex, normal.x, normal.y, normal.z);
+      });
+      normalAttribute.needsUpdate = true;
+    }
+    geometry.computeBoundingSphere();
+  }
+
+  /**
+   * Shade the corners around some vertices.
+   *
+   * The faces around each vertex are grouped into smooth fans, joined across
+   * edges that are not sharp, are used by exactly two smooth faces and, with
+   * auto smooth, bend less than {@link autoSmoothAngle}. Each corner gets the
+   * average normal of its fan, weighted by corner angle. Flat faces form fans
+   * of their own, so their corners get the face normal.
+   *
+   * @param vertexIndices - Vertices whose corners to shade
+   * @param visit - Called for every corner with its fan (named by the fan's lowest face index) and normal
+   */
+  shadeCorners(
+    vertexIndices: Iterable<number>,
+    visit: (faceIndex: number, corner: number, fan: number, normal: Vector3) => void
+  ): void {
+    const faceNormals = new Map<number, Vector3>();
+    const faceNormal = (f: number) => {
+      let normal = faceNormals.get(f);
+      if (!normal) {
+        normal = this.getFaceNormal(f);
+        faceNormals.set(f, normal);
+      }
+      return normal;
+    };
+    const minDot =
+      this.autoSmoothAngle === null ? -Infinity : Math.cos((this.autoSmoothAngle * Math.PI) / 180);
+
+    for (const v of vertexIndices) {
+      const faces = this.getVertexFaces(v);
+      const parent = new Map(faces.map((f) => [f, f]));
+      const fanOf = (f: number): number => {
+        while (parent.get(f) !== f) f = parent.get(f)!;
+        return f;
+      };
+      for (const e of this.vertices[v].edges) {
+        const edge = this.edges[e];
+        if (edge.sharp || edge.faces.length !== 2) continue;
+        const [f, g] = edge.faces;
+        if (!this.faces[f].smooth || !this.faces[g].smooth) continue;
+        if (faceNormal(f).dot(faceNormal(g)) < minDot) continue;
+        const a = fanOf(f);
+        const b = fanOf(g);
+        if (a !== b) parent.set(Math.max(a, b), Math.min(a, b));
+      }
+
+      const position = new Vector3(...this.vertices[v].position);
+      const sums = new Map<number, Vector3>();
+      const corners: Array<[number, number, number]> = [];
+      for (const f of faces) {
+        const fan = fanOf(f);
+        const face = this.faces[f];
+        const count = face.vertices.length;
+        face.vertices.forEach((vertex, corner) => {
+          if (vertex !== v) return;
+          const prev = new Vector3(...this.vertices[face.vertices[(corner + count - 1) % count]].position);
+          const next = new Vector3(...this.vertices[face.vertices[(corner + 1) % count]].position);
+          const weight = prev.sub(position).angleTo(next.sub(position));
+          const sum = sums.get(fan) ?? new Vector3();
+          sums.set(fan, sum.addScaledVector(faceNormal(f), weight));
+          corners.push([f, corner, fan]);
+        });
+      }
+      for (const [f, corner, fan] of corners) {
+        const sum = sums.get(fan)!;
+        visit(f, corner, fan, sum.lengthSq() > 0 ? sum.clone().normalize() : faceNormal(f).clone());
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Queries
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Find the edge connecting two vertices.
+   *
+   * @returns The edge index, or -1 if the vertices are not connected
+   */
+  findEdge(a: number, b: number): number {
+    const edgesA = this.vertices[a]?.edges;
+    const edgesB = this.vertices[b]?.edges;
+    if (!edgesA || !edgesB) return -1;
+    const [scan, other] = edgesA.length <= edgesB.length ? [edgesA, b] : [edgesB, a];
+    for (const edgeIndex of scan) {
+      const [v1, v2] = this.edges[edgeIndex].vertices;
+      if (v1 === other || v2 === other) return edgeIndex;
+    }
+    return -1;
+  }
+
+  /**
+   * Get the vertex at the other end of an edge.
+   */
+  getOtherVertex(edgeIndex: number, vertexIndex: number): number {
+    const [v1, v2] = this.edges[edgeIndex].vertices;
+    return v1 === vertexIndex ? v2 : v1;
+  }
+
+  /**
+   * Get the vertices connected to a vertex by an edge.
+   */
+  getVertexNeighbors(vertexIndex: number): number[] {
+    return this.vertices[vertexIndex].edges.map((e) => this.getOtherVertex(e, vertexIndex));
+  }
+
+  /**
+   * Get the faces that use a vertex.
+   */
+  getVertexFaces(vertexIndex: number): number[] {
+    const result = new Set<number>();
+    for (const edgeIndex of this.vertices[vertexIndex].edges) {
+      for (const faceIndex of this.edges[edgeIndex].faces) {
+        result.add(faceIndex);
+      }
+    }
+    return Array.from(result);
+  }
+
+  /**
+   * Get the faces sharing an edge with a face.
+   */
+  getFaceNeighbors(faceIndex: number): number[] {
+    const result = new Set<number>();
+    for (const edgeIndex of this.faces[faceIndex].edges) {
+      for (const neighbor of this.edges[edgeIndex].faces) {
+        if (neighbor !== faceIndex) result.add(neighbor);
+      }
+    }
+    return Array.from(result);
+  }
+
+  /**
+   * Calculate the center point of a face.
+   */
+  getFaceCenter(faceIndex: number): [number, number, number] {
+    const center: [number, number, number] = [0, 0, 0];
+    const faceVertices = this.faces[faceIndex].vertices;
+    for (const v of faceVertices) {
+      const p = this.vertices[v].position;
+      center[0] += p[0];
+      center[1] += p[1];
+      center[2] += p[2];
+    }
+    return [
+      center[0] / faceVertices.length,
+      center[1] / faceVertices.length,
+      center[2] / faceVertices.length,
+    ];
+  }
+
+  /**
+   * Calculate the unit normal of a face using Newell's method, which is
+   * robust for non-planar polygons.
+   */
+  getFaceNormal(faceIndex: number): Vector3 {
+    return polygonNormal(this.faces[faceIndex].vertices.map((v) => this.vertices[v].position));
+  }
+
+  /**
+   * Calculate the area of a face. Non-planar faces give the area of their
+   * projection onto their best-fit plane.
+   */
+  getFaceArea(faceIndex: number): number {
+    const points = this.faces[faceIndex].vertices.map((v) => new Vector3(...this.vertices[v].position));
+    const sum = new Vector3();
+    points.forEach((p, i) => sum.add(p.clone().cross(points[(i + 1) % points.length])));
+    return sum.length() / 2;
+  }
+
+  /**
+   * Get the corner attributes of a face at a vertex.
+   */
+  getLoop(faceIndex: number, vertexIndex: number): LoopAttributes | undefined {
+    const face = this.faces[faceIndex];
+    const corner = face.vertices.indexOf(vertexIndex);
+    return corner === -1 ? undefined : face.loops[corner];
+  }
+
+  /**
+   * Blend corner attributes. Integer attributes take the value of the
+   * highest-weighted sample.
+   *
+   * @param samples - Corner attributes and their weights (summing to 1)
+   */
+  interpolateLoops(samples: Array<[LoopAttributes, number]>): LoopAttributes {
+    const result: LoopAttributes = {};
+    if (samples.length === 0) return result;
+
+    let dominant = samples[0];
+    for (const sample of samples) {
+      if (sample[1] > dominant[1]) dominant = sample;
+    }
+
+    for (const layout of this.attributeLayouts) {
+      if (layout.integer) {
+        const values = dominant[0][layout.key];
+        if (values) result[layout.key] = [...values];
+        continue;
+      }
+      const values = new Array<number>(layout.itemSize).fill(0);
+      for (const [loop, weight] of samples) {
+        const loopValues = loop[layout.key];
+        if (!loopValues) continue;
+        for (let c = 0; c < layout.itemSize; c++) {
+          values[c] += loopValues[c] * weight;
+        }
+      }
+      result[layout.key] = values;
+    }
+    return result;
+  }
+
+  /**
+   * Corner attributes for a new corner at a vertex, copied from a face
+   * already using it. Returns empty attributes for loose vertices.
+   */
+  sampleVertexLoop(vertexIndex: number): LoopAttributes {
+    for (const faceIndex of this.getVertexFaces(vertexIndex)) {
+      const loop = this.getLoop(faceIndex, vertexIndex);
+      if (loop) return copyLoop(loop);
+    }
+    return {};
+  }
+
+  // ---------------------------------------------------------------------------
+  // Conversion to editor data
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get the vertices as {@link VertexData}, with `originalIndices` pointing
+   * into the bound geometry.
+   */
+  getVertexData(): VertexData[] {
+    return this.vertices.map((vertex, index) => ({
+      index,
+      position: [...vertex.position],
+      selected: false,
+      originalIndices: this.vertexBufferIndices[index] ?? [],
+    }));
+  }
+
+  /**
+   * Get the edges as {@link EdgeData}.
+   */
+  getEdgeData(): EdgeData[] {
+    return this.edges.map((edge, index) => ({
+      index,
+      vertexIndices: [edge.vertices[0], edge.vertices[1]],
+      selected: false,
+      sharp: edge.sharp,
+    }));
+  }
+
+  /**
+   * Get the faces as {@link FaceData}.
+   */
+  getFaceData(): FaceData[] {
+    return this.faces.map((face, index) => ({
+      index,
+      vertexIndices: [...face.vertices],
+      selected: false,
+      smooth: face.smooth,
+    }));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Mutations
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Add a loose vertex.
+   *
+   * @returns The new vertex index
+   */
+  addVertex(position: [number, number, number]): number {
+    this.vertices.push({ position: [...position], edges: [] });
+    return this.vertices.length - 1;
+  }
+
+  /**
+   * Set the position of a vertex. Call {@link syncPositions} to update the
+   * bound geometry.
+   */
+  setVertexPosition(vertexIndex: number, position: [number, number, number]): void {
+    this.vertices[vertexIndex].position = [...position];
+  }
+
+  /**
+   * Get the edge between two vertices, creating it if needed.
+   *
+   * @returns The edge index
+   */
+  addEdge(a: number, b: number): number {
+    const existing = this.findEdge(a, b);
+    if (existing !== -1) return existing;
+    this.edges.push({ vertices: [a, b], faces: [], sharp: false });
+    const edgeIndex = this.edges.length - 1;
+    this.vertices[a].edges.push(edgeIndex);
+    this.vertices[b].edges.push(edgeIndex);
+    return edgeIndex;
+  }
+
+  /**
+   * Add a polygon face, creating any missing edges.
+   *
+   * @param faceVertices - Vertex indices in winding order
+   * @param loops - Corner attributes (copied from neighbouring faces if omitted)
+   * @param materialIndex - Material group index
+   * @param smooth - Whether the face is shaded smooth
+   * @returns The new face index
+   */
+  addFace(faceVertices: number[], loops?: LoopAttributes[], materialIndex = 0, smooth = true): number {
+    const faceIndex = this.faces.length;
+    this.faces.push({
+      vertices: [],
+      edges: [],
+      loops: [],
+      materialIndex,
+      smooth,
+    });
+    this.setFaceVertices(
+      faceIndex,
+      faceVertices,
+      loops ?? faceVertices.map((v) => this.sampleVertexLoop(v))
+    );
+    return faceIndex;
+  }
+
+  /**
+   * Replace the vertex loop of a face, updating edge adjacency. Edges no
+   * longer used by the face are kept (possibly as loose edges).
+   */
+  setFaceVertices(faceIndex: number, faceVertices: number[], loops: LoopAttributes[]): void {
+    const face = this.faces[faceIndex];
+    for (const edgeIndex of face.edges) {
+      const edgeFaces = this.edges[edgeIndex].faces;
+      const position = edgeFaces.indexOf(faceIndex);
+      if (position !== -1) edgeFaces.splice(position, 1);
+    }
+
+    face.vertices = [...faceVertices];
+    face.loops = loops;
+    face.edges = faceVertices.map((v, i) => {
+      const edgeIndex = this.addEdge(v, faceVertices[(i + 1) % faceVertices.length]);
+      this.edges[edgeIndex].faces.push(faceIndex);
+      return edgeIndex;
+    });
+  }
+
+  /**
+   * Split an edge by inserting a new vertex. The vertex is inserted into
+   * every face using the edge, with corner attributes interpolated from that
+   * face's own corners.
+   *
+   * @param edgeIndex - The edge to split
+   * @param t - Position along the edge (0 = first vertex, 1 = second vertex)
+   * @param position - Explicit position for the new vertex
+   * @returns The new vertex index
+   */
+  splitEdge(edgeIndex: number, t: number, position?: [number, number, number]): number {
+    const edge = this.edges[edgeIndex];
+    const [a, b] = edge.vertices;
+    const pa = this.vertices[a].position;
+    const pb = this.vertices[b].position;
+    const newVertex = this.addVertex(
+      position ?? [
+        pa[0] + (pb[0] - pa[0]) * t,
+        pa[1] + (pb[1] - pa[1]) * t,
+        pa[2] + (pb[2] - pa[2]) * t,
+      ]
+    );
+
+    // The edge becomes (a, new) and a second edge (new, b) is added
+    edge.vertices = [a, newVertex];
+    const edgesOfB = this.vertices[b].edges;
+    edgesOfB.splice(edgesOfB.indexOf(edgeIndex), 1);
+    this.vertices[newVertex].edges.push(edgeIndex);
+    this.edges[this.addEdge(newVertex, b)].sharp = edge.sharp;
+
+    for (const faceIndex of [...edge.faces]) {
+      const face = this.faces[faceIndex];
+      const count = face.vertices.length;
+      for (let i = 0; i < count; i++) {
+        const from = face.vertices[i];
+        const to = face.vertices[(i + 1) % count];
+        if (!((from === a && to === b) || (from === b && to === a))) continue;
+
+        const weight = from === a ? t : 1 - t;
+        const loop = this.interpolateLoops([
+          [face.loops[i], 1 - weight],
+          [face.loops[(i + 1) % count], weight],
+        ]);
+        const nextVertices = [...face.vertices];
+        const nextLoops = [...face.loops];
+        nextVertices.splice(i + 1, 0, newVertex);
+        nextLoops.splice(i + 1, 0, loop);
+        this.setFaceVertices(faceIndex, nextVertices, nextLoops);
+        break;
+      }
+    }
+
+    return newVertex;
+  }
+
+  /**
+   * Split a face in two by connecting two of its vertices.
+   *
+   * @param faceIndex - The face to split
+   * @param a - First vertex (must be on the face)
+   * @param b - Second vertex (must be on the face and not adjacent to `a`)
+   * @returns The index of the new face, or -1 if the split is not possible
+   */
+  splitFace(faceIndex: number, a: number, b: number): number {
+    const face = this.faces[faceIndex];
+    const count = face.vertices.length;
+    const i = face.vertices.indexOf(a);
+    const j = face.vertices.indexOf(b);
+    if (i === -1 || j === -1 || i === j) return -1;
+    if ((i + 1) % count === j || (j + 1) % count === i) return -1;
+
+    const firstVertices: number[] = [];
+    const firstLoops: LoopAttributes[] = [];
+    for (let k = i; ; k = (k + 1) % count) {
+      firstVertices.push(face.vertices[k]);
+      firstLoops.push(face.loops[k]);
+      if (k === j) break;
+    }
+    const secondVertices: number[] = [];
+    const secondLoops: LoopAttributes[] = [];
+    for (let k = j; ; k = (k + 1) % count) {
+      secondVertices.push(face.vertices[k]);
+      secondLoops.push(copyLoop(face.loops[k]));
+      if (k === i) break;
+    }
+
+    this.setFaceVertices(faceIndex, firstVertices, firstLoops);
+    return this.addFace(secondVertices, secondLoops, face.materialIndex, face.smooth);
+  }
+
+  /**
+   * Reverse the winding of a face in place. The first corner stays first
+   * and the face keeps its edges.
+   */
+  flipFace(faceIndex: number): void {
+    const face = this.faces[faceIndex];
+    const count = face.vertices.length;
+    const order = face.vertices.map((_, i) => (count - i) % count);
+    const edges = face.vertices.map((_, i) => face.edges[(2 * count - i - 1) % count]);
+    face.vertices = order.map((i) => face.vertices[i]);
+    face.loops = order.map((i) => face.loops[i]);
+    face.edges = edges;
+  }
+
+  /**
+   * Delete elements and compact the remaining indices.
+   *
+   * Deleting a vertex deletes its edges, and deleting an edge deletes the
+   * faces using it. Deleting a face keeps its edges and vertices.
+   *
+   * @returns How old indices map to new ones
+   */
+  deleteElements({
+    vertices = [],
+    edges = [],
+    faces = [],
+  }: {
+    vertices?: Iterable<number>;
+    edges?: Iterable<number>;
+    faces?: Iterable<number>;
+  }): MeshIndexRemap {
+    const removedVertices = new Set(vertices);
+    const removedEdges = new Set(edges);
+    const removedFaces = new Set(faces);
+
+    for (const v of removedVertices) {
+      for (const e of this.vertices[v]?.edges ?? []) removedEdges.add(e);
+    }
+    for (const e of removedEdges) {
+      for (const f of this.edges[e]?.faces ?? []) removedFaces.add(f);
+    }
+
+    const buildRemap = (count: number, removed: Set<number>): number[] => {
+      let next = 0;
+      return Array.from({ length: count }, (_, i) => (removed.has(i) ? -1 : next++));
+    };
+    const remap: MeshIndexRemap = {
+      vertices: buildRemap(this.vertices.length, removedVertices),
+      edges: buildRemap(this.edges.length, removedEdges),
+      faces: buildRemap(this.faces.length, removedFaces),
+    };
+    const mapAll = (indices: number[], map: number[]) =>
+      indices.map((i) => map[i]).filter((i) => i !== -1);
+
+    this.vertices = this.vertices
+      .filter((_, i) => remap.vertices[i] !== -1)
+      .map((vertex) => ({ ...vertex, edges: mapAll(vertex.edges, remap.edges) }));
+    this.edges = this.edges
+      .filter((_, i) => remap.edges[i] !== -1)
+      .map((edge) => ({
+        ...edge,
+        vertices: [remap.vertices[edge.vertices[0]], remap.vertices[edge.vertices[1]]],
+        faces: mapAll(edge.faces, remap.faces),
+      }));
+    this.faces = this.faces
+      .filter((_, i) => remap.faces[i] !== -1)
+      .map((face) => ({
+        ...face,
+        vertices: face.vertices.map((v) => remap.vertices[v]),
+        edges: face.edges.map((e) => remap.edges[e]),
+      }));
+
+    this.vertexBufferIndices = this.vertexBufferIndices.filter(
+      (_, i) => remap.vertices[i] !== -1
+    );
+    this.triangleFaces = this.triangleFaces.map((f) => (f === -1 ? -1 : remap.faces[f]));
+    this.cornerBufferIndices = this.cornerBufferIndices.filter((_, i) => remap.faces[i] !== -1);
+
+    return remap;
+  }
+}
+
+/**
+ * Deep-copy corner attributes.
+ * @internal
+ */
+export function copyLoop(loop: LoopAttributes): LoopAttributes {
+  const result: LoopAttributes = {};
+  for (const key of Object.keys(loop)) {
+    result[key] = [...loop[key]];
+  }
+  return result;
+}
+
+/**
+ * Whether two corners carry identical attributes.
+ * @internal
+ */
+function loopsEqual(a: LoopAttributes, b: LoopAttributes): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => {
+    const va = a[key];
+    const vb = b[key];
+    return vb !== undefined && va.length === vb.length && va.every((value, i) => value === vb[i]);
+  });
+}
+
+/**
+ * Index of the corner starting the longest edge of a triangle.
+ * @internal
+ */
+function longestEdgeCorner(vertices: MeshVertex[], triangle: SourceTriangle): number {
+  let best = 0;
+  let bestLength = -1;
+  for (let i = 0; i < 3; i++) {
+    const p = vertices[triangle.vertices[i]].position;
+    const q = vertices[triangle.vertices[(i + 1) % 3]].position;
+    const length = (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+    if (length > bestLength) {
+      best = i;
+      bestLength = length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Merge two triangles sharing an edge into a quad. `other` must traverse
+ * the shared edge in the opposite direction.
+ * @internal
+ */
+function mergeTrianglePair(triangle: SourceTriangle, other: SourceTriangle): SourceTriangle {
+  for (let i = 0; i < 3; i++) {
+    const a = triangle.vertices[i];
+    const b = triangle.vertices[(i + 1) % 3];
+    const j = other.vertices.indexOf(b);
+    if (j === -1 || other.vertices[(j + 1) % 3] !== a) continue;
+    // triangle = (a, b, c), other = (b, a, d) → quad (a, d, b, c)
+    const c = (i + 2) % 3;
+    const d = (j + 2) % 3;
+    return {
+      vertices: [a, other.vertices[d], b, triangle.vertices[c]],
+      loops: [triangle.loops[i], other.loops[d], triangle.loops[(i + 1) % 3], triangle.loops[c]],
+      materialIndex: triangle.materialIndex,
+    };
+  }
+  return triangle;
+}
+
+/**
+ * Pair up triangles that form a quad: they share their longest edge with
+ * consistent winding, are coplanar, use the same material and attributes
+ * along the shared edge, and form a convex quad.
+ *
+ * @returns The partner of each triangle, or -1
+ * @internal
+ */
+function findQuadPartners(vertices: MeshVertex[], triangles: SourceTriangle[]): number[] {
+  const edgeTriangles = new Map<string, number[]>();
+  const key = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+  triangles.forEach((triangle, i) => {
+    for (let c = 0; c < 3; c++) {
+      const k = key(triangle.vertices[c], triangle.vertices[(c + 1) % 3]);
+      const users = edgeTriangles.get(k);
+      if (users) users.push(i);
+      else edgeTriangles.set(k, [i]);
+    }
+  });
+
+  const toVector = (v: number) => new Vector3(...vertices[v].position);
+  const partners = new Array<number>(triangles.length).fill(-1);
+
+  triangles.forEach((triangle, i) => {
+    if (partners[i] !== -1) return;
+    const e = longestEdgeCorner(vertices, triangle);
+    const a = triangle.vertices[e];
+    const b = triangle.vertices[(e + 1) % 3];
+    const users = edgeTriangles.get(key(a, b));
+    if (!users || users.length !== 2) return;
+
+    const j = users[0] === i ? users[1] : users[0];
+    const other = triangles[j];
+    if (partners[j] !== -1 || other.materialIndex !== triangle.materialIndex) return;
+
+    const oe = longestEdgeCorner(vertices, other);
+    if (other.vertices[oe] !== b || other.vertices[(oe + 1) % 3] !== a) return;
+    if (
+      !loopsEqual(triangle.loops[e], other.loops[(oe + 1) % 3]) ||
+      !loopsEqual(triangle.loops[(e + 1) % 3], other.loops[oe])
+    ) {
+      return;
+    }
+
+    const quad = mergeTrianglePair(triangle, other).vertices.map(toVector);
+    const normal = new Vector3()
+      .subVectors(quad[1], quad[0])
+      .cross(new Vector3().subVectors(quad[3], quad[0]))
+      .normalize();
+
+    // Coplanar and convex: every corner turns the same way as the normal
+    for (let c = 0; c < 4; c++) {
+      const prev = quad[(c + 3) % 4];
+      const current = quad[c];
+      const next = quad[(c + 1) % 4];
+      const turn = new Vector3()
+        .subVectors(current, prev)
+        .cross(new Vector3().subVectors(next, current));
+      if (turn.lengthSq() === 0 || turn.normalize().dot(normal) < 1 - COPLANAR_TOLERANCE) return;
+    }
+
+    partners[i] = j;
+    partners[j] = i;
+  });
+
+  return partners;
+}
+
+/**
+ * Turn the source normals stored on the corners into shading flags, then
+ * drop them: normals are written from the flags from now on.
+ * @internal
+ */
+function applySourceNormals(mesh: EditableMesh): void {
+  if (!mesh.attributeLayouts.some((layout) => layout.key === 'normal')) return;
+
+  const cornerNormal = (faceIndex: number, corner: number) => {
+    const values = mesh.faces[faceIndex].loops[corner].normal;
+    const normal = values ? new Vector3(values[0], values[1], values[2]) : new Vector3();
+    return normal.lengthSq() > 0 ? normal.normalize() : mesh.getFaceNormal(faceIndex);
+  };
+  const sameDirection = (a: Vector3, b: Vector3) => a.dot(b) > 1 - NORMAL_TOLERANCE;
+
+  mesh.faces.forEach((face, faceIndex) => {
+    const faceNormal = mesh.getFaceNormal(faceIndex);
+    face.smooth = !face.vertices.every((_, corner) => sameDirection(cornerNormal(faceIndex, corner), faceNormal));
+  });
+  for (const edge of mesh.edges) {
+    if (edge.faces.length < 2) continue;
+    edge.sharp = edge.vertices.some((v) => {
+      const normals = edge.faces.map((f) => cornerNormal(f, mesh.faces[f].vertices.indexOf(v)));
+      return normals.some((normal) => !sameDirection(normal, normals[0]));
+    });
+  }
+
+  for (const face of mesh.faces) {
+    for (const loop of face.loops) delete loop.normal;
+  }
+  mesh.attributeLayouts = mesh.attributeLayouts.filter((layout) => layout.key !== 'normal');
+}
@@ -1,20 +1,24 @@
-import { BufferGeometry, BufferAttribute, Vector3 } from 'three';
+import { Box3, BufferGeometry, Line3, Triangle, Vector3 } from 'three';
 import type { VertexData, EdgeData, FaceData } from '../types';
+import { EditableMesh, copyLoop, positionKey } from './editableMesh';
+import type { LoopAttributes, MeshFace, MeshIndexRemap } from './editableMesh';
+import { triangulatePolygon } from './triangulate';
 
 /**
- * Round to 6 decimal places to handle floating point precision issues.
- * @internal
+ * Geometry accepted by the editing utilities.
+ *
+ * Passing an {@link EditableMesh} edits it in place and reuses its adjacency.
+ * Passing a BufferGeometry builds a temporary mesh from it; topology
+ * operations then return a new geometry and leave the input untouched.
  */
-function roundPosition(value: number): number {
-  return Math.round(value * 1000000) / 1000000;
-}
+export type MeshSource = BufferGeometry | EditableMesh;
 
 /**
- * Create a unique key for a 3D position.
+ * Get the editable mesh for a source, building one from a BufferGeometry.
  * @internal
  */
-function positionKey(x: number, y: number, z: number): string {
-  return `${roundPosition(x)},${roundPosition(y)},${roundPosition(z)}`;
+function toEditableMesh(source: MeshSource): EditableMesh {
+  return source instanceof EditableMesh ? source : EditableMesh.fromBufferGeometry(source);
 }
 
 /**
@@ -82,138 +86,64 @@ export function extractVerticesWithMappings(geometry: BufferGeometry): GeometryM
 }
 
 /**
- * Extract unique vertices from a BufferGeometry.
+ * Extract unique vertices from a geometry.
  *
- * @param geometry - The Three.js BufferGeometry to extract from
+ * @param source - The BufferGeometry or EditableMesh to extract from
  * @returns Array of deduplicated vertices
  */
-export function extractVertices(geometry: BufferGeometry): VertexData[] {
-  return extractVerticesWithMappings(geometry).uniqueVertices;
+export function extractVertices(source: MeshSource): VertexData[] {
+  return toEditableMesh(source).getVertexData();
 }
 
 /**
- * Extract edges from a BufferGeometry.
+ * Extract edges from a geometry.
  *
  * Edges are deduplicated and reference unique vertex indices.
  *
- * @param geometry - The Three.js BufferGeometry to extract from
+ * @param source - The BufferGeometry or EditableMesh to extract from
  * @returns Array of unique edges
  */
-export function extractEdges(geometry: BufferGeometry): EdgeData[] {
-  const { vertexIndexMap } = extractVerticesWithMappings(geometry);
-  const index = geometry.getIndex();
-  const edges: EdgeData[] = [];
-  const edgeSet = new Set<string>();
-
-  const addEdge = (origV1: number, origV2: number) => {
-    // Map to unique vertex indices
-    const v1 = vertexIndexMap.get(origV1) ?? origV1;
-    const v2 = vertexIndexMap.get(origV2) ?? origV2;
-
-    // Skip degenerate edges (same vertex)
-    if (v1 === v2) return;
-
-    const key = v1 < v2 ? `${v1}-${v2}` : `${v2}-${v1}`;
-    if (!edgeSet.has(key)) {
-      edgeSet.add(key);
-      edges.push({
-        index: edges.length,
-        vertexIndices: [v1, v2],
-        selected: false,
-      });
-    }
-  };
-
-  if (index) {
-    const indices = index.array;
-    for (let i = 0; i < indices.length; i += 3) {
-      addEdge(indices[i], indices[i + 1]);
-      addEdge(indices[i + 1], indices[i + 2]);
-      addEdge(indices[i + 2], indices[i]);
-    }
-  } else {
-    const positionAttribute = geometry.getAttribute('position');
-    if (positionAttribute) {
-      const vertexCount = positionAttribute.count;
-      for (let i = 0; i < vertexCount; i += 3) {
-        addEdge(i, i + 1);
-        addEdge(i + 1, i + 2);
-        addEdge(i + 2, i);
-      }
-    }
-  }
-
-  return edges;
+export function extractEdges(source: MeshSource): EdgeData[] {
+  return toEditableMesh(source).getEdgeData();
 }
 
 /**
- * Extract faces (triangles) from a BufferGeometry.
+ * Extract faces from a geometry.
  *
  * Faces are deduplicated and reference unique vertex indices.
  *
- * @param geometry - The Three.js BufferGeometry to extract from
+ * @param source - The BufferGeometry or EditableMesh to extract from
  * @returns Array of unique faces
  */
-export function extractFaces(geometry: BufferGeometry): FaceData[] {
-  const { vertexIndexMap } = extractVerticesWithMappings(geometry);
-  const index = geometry.getIndex();
-  const faces: FaceData[] = [];
-  const faceSet = new Set<string>();
-
-  const addFace = (origV1: number, origV2: number, origV3: number) => {
-    // Map to unique vertex indices
-    const v1 = vertexIndexMap.get(origV1) ?? origV1;
-    const v2 = vertexIndexMap.get(origV2) ?? origV2;
-    const v3 = vertexIndexMap.get(origV3) ?? origV3;
-
-    // Create a canonical key for the face (sorted vertex indices)
-    const sorted = [v1, v2, v3].sort((a, b) => a - b);
-    const key = sorted.join('-');
-
-    if (!faceSet.has(key)) {
-      faceSet.add(key);
-      faces.push({
-        index: faces.length,
-        vertexIndices: [v1, v2, v3],
-        selected: false,
-      });
-    }
-  };
-
-  if (index) {
-    const indices = index.array;
-    for (let i = 0; i < indices.length; i += 3) {
-      addFace(indices[i], indices[i + 1], indices[i + 2]);
-    }
-  } else {
-    const positionAttribute = geometry.getAttribute('position');
-    if (positionAttribute) {
-      const vertexCount = positionAttribute.count;
-      for (let i = 0; i < vertexCount; i += 3) {
-        addFace(i, i + 1, i + 2);
-      }
-    }
-  }
-
-  return faces;
+export function extractFaces(source: MeshSource): FaceData[] {
+  return toEditableMesh(source).getFaceData();
 }
 
 /**
  * Update a vertex to an absolute position.
  *
  * Handles deduplicated vertices by updating all original buffer indices.
+ * An EditableMesh is updated and synced into its bound geometry.
  *
- * @param geometry - The BufferGeometry to modify
+ * @param target - The BufferGeometry or EditableMesh to modify
  * @param vertexIndex - Index of the unique vertex
  * @param position - New absolute position [x, y, z]
  * @param vertices - Optional vertex data for deduplication mapping
  */
 export function updateVertexPosition(
-  geometry: BufferGeometry,
+  target: MeshSource,
   vertexIndex: number,
   position: [number, number, number],
   vertices?: VertexData[]
 ): void {
+  if (target instanceof EditableMesh) {
+    if (!target.vertices[vertexIndex]) return;
+    target.setVertexPosition(vertexIndex, position);
+    target.syncPositions([vertexIndex]);
+    return;
+  }
+
+  const geometry = target;
   const positionAttribute = geometry.getAttribute('position');
   if (!positionAttribute) return;
 
@@ -231,42 +161,76 @@ export function updateVertexPosition(
   geometry.computeBoundingSphere();
 }
 
+/**
+ * Weight of every vertex a transform affects: 1 for the given vertices and
+ * the proportional weight for others.
+ * @internal
+ */
+function affectedVertices(vertexIndices: number[], weights?: Map<number, number>): Map<number, number> {
+  const affected = new Map<number, number>(weights);
+  for (const index of vertexIndices) affected.set(index, 1);
+  return affected;
+}
+
 /**
  * Move multiple vertices by a delta offset.
  *
  * Handles deduplicated vertices by updating all original buffer indices.
+ * An EditableMesh is updated and synced into its bound geometry.
  *
- * @param geometry - The BufferGeometry to modify
+ * @param target - The BufferGeometry or EditableMesh to modify
  * @param vertexIndices - Array of unique vertex indices to move
  * @param delta - Offset to apply [dx, dy, dz]
  * @param vertices - Optional vertex data for deduplication mapping
+ * @param weights - Optional proportional editing weights of other vertices,
+ *   which move by the delta scaled by their weight
  */
 export function moveVertices(
-  geometry: BufferGeometry,
+  target: MeshSource,
   vertexIndices: number[],
   delta: [number, number, number],
-  vertices?: VertexData[]
+  vertices?: VertexData[],
+  weights?: Map<number, number>
 ): void {
+  const affected = affectedVertices(vertexIndices, weights);
+
+  if (target instanceof EditableMesh) {
+    const moved = new Set<number>();
+    for (const [index, weight] of affected) {
+      if (!target.vertices[index]) continue;
+      const p = target.vertices[index].position;
+      target.setVertexPosition(index, [
+        p[0] + delta[0] * weight,
+        p[1] + delta[1] * weight,
+        p[2] + delta[2] * weight,
+      ]);
+      moved.add(index);
+    }
+    target.syncPositions(moved);
+    return;
+  }
+
+  const geometry = target;
   const positionAttribute = geometry.getAttribute('position');
   if (!positionAttribute) return;
 
   // Collect all original buffer indices to update
-  const indicesToUpdate = new Set<number>();
+  const indicesToUpdate = new Map<number, number>(); // originalIndex -> weight
 
-  for (const index of vertexIndices) {
+  for (const [index, weight] of affected) {
     if (vertices && vertices[index]?.originalIndices) {
       for (const origIndex of vertices[index].originalIndices!) {
-        indicesToUpdate.add(origIndex);
+        indicesToUpdate.set(origIndex, weight);
       }
     } else {
-      indicesToUpdate.add(index);
+      indicesToUpdate.set(index, weight);
     }
   }
 
-  for (const index of indicesToUpdate) {
-    const x = positionAttribute.getX(index) + delta[0];
-    const y = positionAttribute.getY(index) + delta[1];
-    const z = positionAttribute.getZ(index) + delta[2];
+  for (const [index, weight] of indicesToUpdate) {
+    const x = positionAttribute.getX(index) + delta[0] * weight;
+    const y = positionAttribute.getY(index) + delta[1] * weight;
+    const z = positionAttribute.getZ(index) + delta[2] * weight;
     positionAttribute.setXYZ(index, x, y, z);
   }
 
@@ -283,15 +247,16 @@ export function moveVertices(
  * @returns Center position [x, y, z]
  */
 export function getFaceCenter(face: FaceData, vertices: VertexData[]): [number, number, number] {
-  const v1 = vertices[face.vertexIndices[0]];
-  const v2 = vertices[face.vertexIndices[1]];
-  const v3 = vertices[face.vertexIndices[2]];
+  const center: [number, number, number] = [0, 0, 0];
+  for (const index of face.vertexIndices) {
+    const position = vertices[index].position;
+    center[0] += position[0];
+    center[1] += position[1];
+    center[2] += position[2];
+  }
 
-  return [
-    (v1.position[0] + v2.position[0] + v3.position[0]) / 3,
-    (v1.position[1] + v2.position[1] + v3.position[1]) / 3,
-    (v1.position[2] + v2.position[2] + v3.position[2]) / 3,
-  ];
+  const count = face.vertexIndices.length;
+  return [center[0] / count, center[1] / count, center[2] / count];
 }
 
 /**
@@ -312,36 +277,134 @@ export function getEdgeCenter(edge: EdgeData, vertices: VertexData[]): [number,
   ];
 }
 
+/**
+ * Rotate a vector by a quaternion.
+ * @internal
+ */
+function rotateVector(
+  [x, y, z]: [number, number, number],
+  rotation: { x: number; y: number; z: number; w: number }
+): [number, number, number] {
+  const qx = rotation.x;
+  const qy = rotation.y;
+  const qz = rotation.z;
+  const qw = rotation.w;
+
+  // Rotate point by quaternion: p' = q * p * q^-1
+  // Optimized formula for rotating a vector by a quaternion
+  const ix = qw * x + qy * z - qz * y;
+  const iy = qw * y + qz * x - qx * z;
+  const iz = qw * z + qx * y - qy * x;
+  const iw = -qx * x - qy * y - qz * z;
+
+  return [
+    ix * qw + iw * -qx + iy * -qz - iz * -qy,
+    iy * qw + iw * -qy + iz * -qx - ix * -qz,
+    iz * qw + iw * -qz + ix * -qy - iy * -qx,
+  ];
+}
+
+/**
+ * Scale and rotate a point around a center.
+ * @internal
+ */
+function transformPoint(
+  initial: [number, number, number],
+  center: [number, number, number],
+  rotation: { x: number; y: number; z: number; w: number },
+  scale: [number, number, number],
+  scaleAxes?: { x: number; y: number; z: number; w: number }
+): [number, number, number] {
+  // Translate to origin (relative to center)
+  let offset: [number, number, number] = [
+    initial[0] - center[0],
+    initial[1] - center[1],
+    initial[2] - center[2],
+  ];
+
+  // Apply scale, along the scale axes if given
+  if (scaleAxes) {
+    offset = rotateVector(offset, { x: -scaleAxes.x, y: -scaleAxes.y, z: -scaleAxes.z, w: scaleAxes.w });
+  }
+  offset = [offset[0] * scale[0], offset[1] * scale[1], offset[2] * scale[2]];
+  if (scaleAxes) {
+    offset = rotateVector(offset, scaleAxes);
+  }
+
+  // Apply rotation and translate back from origin
+  const [rx, ry, rz] = rotateVector(offset, rotation);
+  return [rx + center[0], ry + center[1], rz + center[2]];
+}
+
+/**
+ * Interpolate from a point towards its transformed position.
+ * @internal
+ */
+function blendPoint(
+  from: [number, number, number],
+  to: [number, number, number],
+  weight: number
+): [number, number, number] {
+  if (weight === 1) return to;
+  return [
+    from[0] + (to[0] - from[0]) * weight,
+    from[1] + (to[1] - from[1]) * weight,
+    from[2] + (to[2] - from[2]) * weight,
+  ];
+}
+
 /**
  * Apply rotation and scale transformation to vertices around a center point.
  *
  * Uses quaternion rotation and scales vertices relative to the center.
  * Uses initial positions if provided to prevent cumulative drift during dragging.
  *
- * @param geometry - The BufferGeometry to modify
+ * @param target - The BufferGeometry or EditableMesh to modify
  * @param vertexIndices - Array of unique vertex indices to transform
  * @param center - Center point for the transformation
  * @param rotation - Quaternion rotation as {x, y, z, w}
  * @param scale - Scale factors [sx, sy, sz]
  * @param vertices - Optional vertex data for deduplication mapping
  * @param initialPositions - Optional captured initial positions
+ * @param weights - Optional proportional editing weights of other vertices,
+ *   which move part of the way to their transformed position by their weight
+ * @param scaleAxes - Optional orientation of the scale axes as a quaternion,
+ *   to scale along other axes than the mesh's
  */
 export function transformVerticesAroundCenter(
-  geometry: BufferGeometry,
+  target: MeshSource,
   vertexIndices: number[],
   center: [number, number, number],
   rotation: { x: number; y: number; z: number; w: number },
   scale: [number, number, number],
   vertices?: VertexData[],
-  initialPositions?: Map<number, [number, number, number]>
+  initialPositions?: Map<number, [number, number, number]>,
+  weights?: Map<number, number>,
+  scaleAxes?: { x: number; y: number; z: number; w: number }
 ): void {
+  const affected = affectedVertices(vertexIndices, weights);
+
+  if (target instanceof EditableMesh) {
+    const transformed = new Set<number>();
+    for (const [index, weight] of affected) {
+      if (!target.vertices[index]) continue;
+      const initial = initialPositions?.get(index) ?? target.vertices[index].position;
+      const transformedPoint = transformPoint(initial, center, rotation, scale, scaleAxes);
+      target.setVertexPosition(index, blendPoint(initial, transformedPoint, weight));
+      transformed.add(index);
+    }
+    target.syncPositions(transformed);
+    return;
+  }
+
+  const geometry = target;
   const positionAttribute = geometry.getAttribute('position');
   if (!positionAttribute) return;
 
   // Collect all original buffer indices to update
   const indicesToUpdate = new Map<number, number>(); // originalIndex -> uniqueIndex
 
-  for (const index of vertexIndices) {
+  for (const index of affected.keys()) {
     if (vertices && vertices[index]?.originalIndices) {
       for (const origIndex of vertices[index].originalIndices!) {
         indicesToUpdate.set(origIndex, index);
@@ -354,51 +417,14 @@ export function transformVerticesAroundCenter(
   // Apply transformation to each vertex
   for (const [origIndex, uniqueIndex] of indicesToUpdate) {
     // Get initial position (from captured positions or current)
-    let initialX: number, initialY: number, initialZ: number;
-    if (initialPositions && initialPositions.has(uniqueIndex)) {
-      const pos = initialPositions.get(uniqueIndex)!;
-      initialX = pos[0];
-      initialY = pos[1];
-      initialZ = pos[2];
-    } else {
-      initialX = positionAttribute.getX(origIndex);
-      initialY = positionAttribute.getY(origIndex);
-      initialZ = positionAttribute.getZ(origIndex);
-    }
-
-    // Translate to origin (relative to center)
-    let x = initialX - center[0];
-    let y = initialY - center[1];
-    let z = initialZ - center[2];
-
-    // Apply scale
-    x *= scale[0];
-    y *= scale[1];
-    z *= scale[2];
-
-    // Apply rotation (quaternion rotation)
-    const qx = rotation.x;
-    const qy = rotation.y;
-    const qz = rotation.z;
-    const qw = rotation.w;
-
-    // Rotate point by quaternion: p' = q * p * q^-1
-    // Optimized formula for rotating a vector by a quaternion
-    const ix = qw * x + qy * z - qz * y;
-    const iy = qw * y + qz * x - qx * z;
-    const iz = qw * z + qx * y - qy * x;
-    const iw = -qx * x - qy * y - qz * z;
-
-    const rx = ix * qw + iw * -qx + iy * -qz - iz * -qy;
-    const ry = iy * qw + iw * -qy + iz * -qx - ix * -qz;
-    const rz = iz * qw + iw * -qz + ix * -qy - iy * -qx;
-
-    // Translate back from origin
-    const finalX = rx + center[0];
-    const finalY = ry + center[1];
-    const finalZ = rz + center[2];
-
-    positionAttribute.setXYZ(origIndex, finalX, finalY, finalZ);
+    const initial: [number, number, number] = initialPositions?.get(uniqueIndex) ?? [
+      positionAttribute.getX(origIndex),
+      positionAttribute.getY(origIndex),
+      positionAttribute.getZ(origIndex),
+    ];
+    const transformedPoint = transformPoint(initial, center, rotation, scale, scaleAxes);
+    const [x, y, z] = blendPoint(initial, transformedPoint, affected.get(uniqueIndex)!);
+    positionAttribute.setXYZ(origIndex, x, y, z);
   }
 
   positionAttribute.needsUpdate = true;
@@ -414,201 +440,2725 @@ export interface ExtrudeFaceResult {
   geometry: BufferGeometry;
   /** Buffer indices of the new vertices created for the extruded face */
   extrudedVertexBufferIndices: number[];
-  /** Face index of the extruded top face in the new geometry */
+  /** Unique vertex indices of the extruded face */
+  extrudedVertexIndices: number[];
+  /** Face index of the extruded top face (the extruded face itself) */
   extrudedFaceIndex: number;
 }
 
 /**
- * Calculate the normal vector of a face.
- * @internal
+ * How the vertices of an extruded face region are moved.
+ *
+ * - `region`: the whole region moves along its average normal
+ * - `individual`: each vertex moves along the normals of its own faces,
+ *   scaled so every face ends up `distance` away from where it started
+ * - `vector`: the whole region moves along a free direction
  */
-function calculateFaceNormal(
-  v1: [number, number, number],
-  v2: [number, number, number],
-  v3: [number, number, number]
-): Vector3 {
-  const a = new Vector3(v2[0] - v1[0], v2[1] - v1[1], v2[2] - v1[2]);
-  const b = new Vector3(v3[0] - v1[0], v3[1] - v1[1], v3[2] - v1[2]);
-  return a.cross(b).normalize();
+export type ExtrudeMode = 'region' | 'individual' | 'vector';
+
+/**
+ * Result of a region extrusion.
+ */
+export interface ExtrudeFacesResult {
+  /** The new geometry with the extruded region */
+  geometry: BufferGeometry;
+  /** Face indices of the extruded cap region (the extruded faces themselves) */
+  capFaceIndices: number[];
+  /** Unique vertex indices of the cap region */
+  capVertexIndices: number[];
+  /** Face indices of the side walls */
+  wallFaceIndices: number[];
+}
+
+/**
+ * Extrude a set of faces as connected regions.
+ *
+ * The selected faces are detached from the rest of the mesh and moved,
+ * becoming the cap; a quad wall is created for every edge on the region
+ * boundary (edges used by exactly one selected face). Edges between two
+ * selected faces get no walls, so adjacent faces extrude as one piece.
+ * An EditableMesh is extruded in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param faceIndices - Indices of the faces to extrude
+ * @param distance - Distance to extrude (positive = outward)
+ * @param mode - How the region is moved @default 'region'
+ * @param direction - Direction to extrude along in `vector` mode
+ * @returns Result containing the new geometry and the cap and wall faces
+ */
+export function extrudeFaces(
+  source: MeshSource,
+  faceIndices: number[],
+  distance: number,
+  mode: ExtrudeMode = 'region',
+  direction?: [number, number, number]
+): ExtrudeFacesResult {
+  const mesh = toEditableMesh(source);
+  const region = new Set(faceIndices);
+  for (const faceIndex of region) {
+    if (!mesh.faces[faceIndex]) {
+      throw new Error(`Face index ${faceIndex} not found`);
+    }
+  }
+  if (mode === 'vector' && !direction) {
+    throw new Error('A direction is required to extrude in vector mode');
+  }
+
+  const faceNormals = new Map<number, Vector3>();
+  for (const faceIndex of region) {
+    faceNormals.set(faceIndex, mesh.getFaceNormal(faceIndex));
+  }
+
+  // Boundary edges of the region, with the selected face using them
+  const boundary = new Map<number, number>();
+  for (const faceIndex of region) {
+    for (const edgeIndex of mesh.faces[faceIndex].edges) {
+      const selectedUsers = mesh.edges[edgeIndex].faces.filter((f) => region.has(f));
+      if (selectedUsers.length === 1) boundary.set(edgeIndex, faceIndex);
+    }
+  }
+
+  // Region vertices. Those on the boundary or shared with unselected faces
+  // are duplicated; interior vertices are simply moved.
+  const regionVertices = new Set<number>();
+  for (const faceIndex of region) {
+    for (const v of mesh.faces[faceIndex].vertices) regionVertices.add(v);
+  }
+  const boundaryVertices = new Set<number>();
+  for (const edgeIndex of boundary.keys()) {
+    for (const v of mesh.edges[edgeIndex].vertices) boundaryVertices.add(v);
+  }
+
+  // Offset of every region vertex
+  const regionNormal = new Vector3();
+  for (const normal of faceNormals.values()) regionNormal.add(normal);
+  regionNormal.normalize();
+  const vectorOffset = direction
+    ? new Vector3(...direction).normalize().multiplyScalar(distance)
+    : null;
+
+  const getOffset = (vertexIndex: number): Vector3 => {
+    if (mode === 'vector') return vectorOffset!.clone();
+    if (mode === 'region') return regionNormal.clone().multiplyScalar(distance);
+
+    const normals = mesh
+      .getVertexFaces(vertexIndex)
+      .filter((f) => region.has(f))
+      .map((f) => faceNormals.get(f)!);
+    const vertexNormal = new Vector3();
+    for (const normal of normals) vertexNormal.add(normal);
+    vertexNormal.normalize();
+    // Even thickness: compensate for the angle between the vertex and face normals
+    const meanDot = normals.reduce((sum, n) => sum + n.dot(vertexNormal), 0) / normals.length;
+    return vertexNormal.multiplyScalar(distance / Math.max(meanDot, 0.1));
+  };
+
+  const capVertexOf = new Map<number, number>();
+  for (const v of regionVertices) {
+    const offset = getOffset(v);
+    const p = mesh.vertices[v].position;
+    const moved: [number, number, number] = [p[0] + offset.x, p[1] + offset.y, p[2] + offset.z];
+    const shared = mesh.getVertexFaces(v).some((f) => !region.has(f));
+    if (boundaryVertices.has(v) || shared) {
+      capVertexOf.set(v, mesh.addVertex(moved));
+    } else {
+      mesh.setVertexPosition(v, moved);
+      capVertexOf.set(v, v);
+    }
+  }
+
+  // Snapshot the boundary before re-pointing the faces
+  const walls = Array.from(boundary, ([edgeIndex, faceIndex]) => {
+    const face = mesh.faces[faceIndex];
+    const [v1, v2] = mesh.edges[edgeIndex].vertices;
+    const i = face.vertices.findIndex(
+      (v, k) =>
+        (v === v1 || v === v2) &&
+        face.vertices[(k + 1) % face.vertices.length] === (v === v1 ? v2 : v1)
+    );
+    const j = (i + 1) % face.vertices.length;
+    return {
+      a: face.vertices[i],
+      b: face.vertices[j],
+      loopA: face.loops[i],
+      loopB: face.loops[j],
+      materialIndex: face.materialIndex,
+      smooth: face.smooth,
+    };
+  });
+
+  // The selected faces become the cap, keeping their sharp edges
+  const oldRegionEdges = new Set<number>();
+  const sharpCapEdges: Array<[number, number]> = [];
+  for (const faceIndex of region) {
+    const face = mesh.faces[faceIndex];
+    face.edges.forEach((e) => {
+      oldRegionEdges.add(e);
+      if (mesh.edges[e].sharp) sharpCapEdges.push(mesh.edges[e].vertices);
+    });
+    mesh.setFaceVertices(
+      faceIndex,
+      face.vertices.map((v) => capVertexOf.get(v)!),
+      face.loops
+    );
+  }
+  for (const [a, b] of sharpCapEdges) {
+    mesh.edges[mesh.findEdge(capVertexOf.get(a)!, capVertexOf.get(b)!)].sharp = true;
+  }
+
+  // Walls connect each boundary edge to its extruded copy. They copy the
+  // attributes and shading of the face corners they were extruded from.
+  const wallFaceIndices = walls.map(({ a, b, loopA, loopB, materialIndex, smooth }) => {
+    const capA = capVertexOf.get(a)!;
+    const capB = capVertexOf.get(b)!;
+    return mesh.addFace(
+      [a, b, capB, capA],
+      [copyLoop(loopA), copyLoop(loopB), copyLoop(loopB), copyLoop(loopA)],
+      materialIndex,
+      smooth
+    );
+  });
+
+  // Edges and vertices left behind inside the region are no longer used
+  const unusedEdges = Array.from(oldRegionEdges).filter((e) => mesh.edges[e].faces.length === 0);
+  const unusedVertices = new Set<number>();
+  for (const e of unusedEdges) {
+    for (const v of mesh.edges[e].vertices) {
+      if (mesh.vertices[v].edges.every((edge) => unusedEdges.includes(edge))) {
+        unusedVertices.add(v);
+      }
+    }
+  }
+  const remap = mesh.deleteElements({ vertices: unusedVertices, edges: unusedEdges });
+
+  const geometry = mesh.toBufferGeometry();
+
+  return {
+    geometry,
+    capFaceIndices: Array.from(region, (f) => remap.faces[f]),
+    capVertexIndices: Array.from(new Set(capVertexOf.values()), (v) => remap.vertices[v]),
+    wallFaceIndices: wallFaceIndices.map((f) => remap.faces[f]),
+  };
 }
 
 /**
- * Extrude a face from a BufferGeometry.
+ * Extrude a face from a geometry.
  *
- * Creates a new geometry with the face extruded by the specified distance.
- * The original face vertices are duplicated and moved along the face normal,
- * and new side faces are created to connect the original and extruded faces.
+ * The face is moved along its normal and side faces are created to connect
+ * it to the faces around it. This is {@link extrudeFaces} for a single face.
+ * An EditableMesh is extruded in place; a BufferGeometry is left untouched.
  *
- * @param geometry - The original BufferGeometry
+ * @param source - The original BufferGeometry or EditableMesh
  * @param faceIndex - Index of the face to extrude
  * @param distance - Distance to extrude (positive = outward along normal)
- * @param vertices - Vertex data for position lookup
- * @param faces - Face data for the geometry
+ * @param _vertices - Vertex data (unused, positions are read from the mesh)
+ * @param _faces - Face data (unused)
  * @returns Result containing the new geometry and indices of new vertices
  */
 export function extrudeFace(
-  geometry: BufferGeometry,
+  source: MeshSource,
   faceIndex: number,
   distance: number,
-  vertices: VertexData[],
-  faces: FaceData[]
+  _vertices?: VertexData[],
+  _faces?: FaceData[]
 ): ExtrudeFaceResult {
-  const face = faces[faceIndex];
-  if (!face) {
-    throw new Error(`Face index ${faceIndex} not found`);
-  }
+  const mesh = toEditableMesh(source);
+  const result = extrudeFaces(mesh, [faceIndex], distance, 'region');
+  const extrudedFaceIndex = result.capFaceIndices[0];
+  const extrudedVertexIndices = [...mesh.faces[extrudedFaceIndex].vertices];
 
-  const positionAttribute = geometry.getAttribute('position');
-  const indexAttribute = geometry.getIndex();
+  return {
+    geometry: result.geometry,
+    extrudedVertexBufferIndices: extrudedVertexIndices.map((v) => mesh.vertexBufferIndices[v][0]),
+    extrudedVertexIndices,
+    extrudedFaceIndex,
+  };
+}
+
+/**
+ * Result of extruding vertices or edges.
+ */
+export interface ExtrudeElementsResult {
+  /** The new geometry */
+  geometry: BufferGeometry;
+  /** Indices of the extruded copies of the vertices */
+  newVertexIndices: number[];
+  /** Indices of the extruded copies of the edges (empty for vertex extrusion) */
+  newEdgeIndices: number[];
+  /** Indices of the faces connecting the edges to their copies (empty for vertex extrusion) */
+  newFaceIndices: number[];
+}
 
-  if (!positionAttribute) {
-    throw new Error('Geometry has no position attribute');
+/**
+ * Extrude vertices.
+ *
+ * Every vertex gets a copy, offset by `offset` and connected to the
+ * original by a new edge. The copies are loose vertices: they are not part
+ * of any face, so the written geometry keeps them outside its triangles
+ * (see {@link EditableMesh.toBufferGeometry}). The offset must not be
+ * zero: copies on top of their originals would be welded back to them when
+ * the geometry is read again. An EditableMesh is extruded in place; a
+ * BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param vertexIndices - Indices of the vertices to extrude
+ * @param offset - Offset of the copies from the originals
+ * @returns Result containing the new geometry and the new vertices and edges
+ */
+export function extrudeVertices(
+  source: MeshSource,
+  vertexIndices: number[],
+  offset: [number, number, number]
+): ExtrudeElementsResult {
+  const mesh = toEditableMesh(source);
+  if (offset.every((c) => c === 0)) {
+    throw new Error('Extrude offset must not be zero');
   }
+  const newVertexIndices: number[] = [];
+  const newEdgeIndices: number[] = [];
 
-  // Get the original face vertices
-  const v1 = vertices[face.vertexIndices[0]];
-  const v2 = vertices[face.vertexIndices[1]];
-  const v3 = vertices[face.vertexIndices[2]];
+  for (const vertexIndex of new Set(vertexIndices)) {
+    const vertex = mesh.vertices[vertexIndex];
+    if (!vertex) {
+      throw new Error(`Vertex index ${vertexIndex} not found`);
+    }
+    const [x, y, z] = vertex.position;
+    const copy = mesh.addVertex([x + offset[0], y + offset[1], z + offset[2]]);
+    newVertexIndices.push(copy);
+    newEdgeIndices.push(mesh.addEdge(vertexIndex, copy));
+  }
 
-  // Calculate face normal
-  const normal = calculateFaceNormal(v1.position, v2.position, v3.position);
+  return {
+    geometry: mesh.toBufferGeometry(),
+    newVertexIndices,
+    newEdgeIndices,
+    newFaceIndices: [],
+  };
+}
 
-  // Calculate new vertex positions (extruded along normal)
-  const newV1: [number, number, number] = [
-    v1.position[0] + normal.x * distance,
-    v1.position[1] + normal.y * distance,
-    v1.position[2] + normal.z * distance,
-  ];
-  const newV2: [number, number, number] = [
-    v2.position[0] + normal.x * distance,
-    v2.position[1] + normal.y * distance,
-    v2.position[2] + normal.z * distance,
-  ];
-  const newV3: [number, number, number] = [
-    v3.position[0] + normal.x * distance,
-    v3.position[1] + normal.y * distance,
-    v3.position[2] + normal.z * distance,
+/**
+ * Walk direction of an edge, given by a face winding.
+ * @internal
+ */
+function edgeDirectionInFace(mesh: EditableMesh, edgeIndex: number, faceIndex: number): [number, number] {
+  const face = mesh.faces[faceIndex];
+  const i = face.edges.indexOf(edgeIndex);
+  return [face.vertices[i], face.vertices[(i + 1) % face.vertices.length]];
+}
+
+/**
+ * Extrude edges into a strip of quads.
+ *
+ * Every edge gets a copy, offset by `offset`, and a quad connecting it to
+ * the copy. Edges sharing a vertex share the copy of that vertex, so an
+ * edge chain becomes one connected strip. Each strip is wound against a
+ * face on its boundary edges so it continues that surface, and the quads
+ * copy the corner attributes and material of the faces next to them. The
+ * offset must not be zero, which would leave quads without area. An
+ * EditableMesh is extruded in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param edgeIndices - Indices of the edges to extrude
+ * @param offset - Offset of the copies from the originals
+ * @returns Result containing the new geometry and the new vertices, edges and faces
+ */
+export function extrudeEdges(
+  source: MeshSource,
+  edgeIndices: number[],
+  offset: [number, number, number]
+): ExtrudeElementsResult {
+  const mesh = toEditableMesh(source);
+  if (offset.every((c) => c === 0)) {
+    throw new Error('Extrude offset must not be zero');
+  }
+  const selectedEdges = Array.from(new Set(edgeIndices));
+  for (const edgeIndex of selectedEdges) {
+    if (!mesh.edges[edgeIndex]) {
+      throw new Error(`Edge index ${edgeIndex} not found`);
+    }
+  }
+
+  // Orient every chain head to tail, so neighbouring quads are wound
+  // consistently. A chain is seeded from an edge with a single face (the
+  // strip continues that face) when it has one.
+  const selected = new Set(selectedEdges);
+  const direction = new Map<number, [number, number]>();
+  const seeds = [
+    ...selectedEdges.filter((e) => mesh.edges[e].faces.length === 1),
+    ...selectedEdges,
   ];
+  for (const seed of seeds) {
+    if (direction.has(seed)) continue;
+    const [seedFace] = mesh.edges[seed].faces;
+    const [head, tail] =
+      seedFace !== undefined ? edgeDirectionInFace(mesh, seed, seedFace) : mesh.edges[seed].vertices;
+    direction.set(seed, [tail, head]);
+
+    const stack = [seed];
+    while (stack.length > 0) {
+      const [a, b] = direction.get(stack.pop()!)!;
+      for (const shared of [a, b]) {
+        for (const next of mesh.vertices[shared].edges) {
+          if (!selected.has(next) || direction.has(next)) continue;
+          const other = mesh.getOtherVertex(next, shared);
+          direction.set(next, shared === b ? [b, other] : [other, a]);
+          stack.push(next);
+        }
+      }
+    }
+  }
+
+  const copies = new Map<number, number>();
+  const getCopy = (vertexIndex: number): number => {
+    let copy = copies.get(vertexIndex);
+    if (copy === undefined) {
+      const [x, y, z] = mesh.vertices[vertexIndex].position;
+      copy = mesh.addVertex([x + offset[0], y + offset[1], z + offset[2]]);
+      copies.set(vertexIndex, copy);
+    }
+    return copy;
+  };
+
+  const newEdgeIndices: number[] = [];
+  const newFaceIndices: number[] = [];
+
+  for (const edgeIndex of selectedEdges) {
+    const [a, b] = direction.get(edgeIndex)!;
+    // Prefer the face the strip continues (the one walking the edge b to a)
+    const faces = mesh.edges[edgeIndex].faces;
+    const faceIndex =
+      faces.find((f) => edgeDirectionInFace(mesh, edgeIndex, f)[0] === b) ?? faces[0];
+    const loopA = faceIndex !== undefined ? mesh.getLoop(faceIndex, a)! : mesh.sampleVertexLoop(a);
+    const loopB = faceIndex !== undefined ? mesh.getLoop(faceIndex, b)! : mesh.sampleVertexLoop(b);
+    const materialIndex = faceIndex !== undefined ? mesh.faces[faceIndex].materialIndex : 0;
+    const smooth = faceIndex !== undefined ? mesh.faces[faceIndex].smooth : true;
+
+    const copyA = getCopy(a);
+    const copyB = getCopy(b);
+    newFaceIndices.push(
+      mesh.addFace(
+        [a, b, copyB, copyA],
+        [copyLoop(loopA), copyLoop(loopB), copyLoop(loopB), copyLoop(loopA)],
+        materialIndex,
+        smooth
+      )
+    );
+    const newEdgeIndex = mesh.findEdge(copyA, copyB);
+    mesh.edges[newEdgeIndex].sharp = mesh.edges[edgeIndex].sharp;
+    newEdgeIndices.push(newEdgeIndex);
+  }
+
+  return {
+    geometry: mesh.toBufferGeometry(),
+    newVertexIndices: Array.from(copies.values()),
+    newEdgeIndices,
+    newFaceIndices,
+  };
+}
+
+/**
+ * Options for {@link insetFaces}.
+ */
+export interface InsetOptions {
+  /** Inset every face on its own instead of the selection as one region @default false */
+  individual?: boolean;
+}
+
+/**
+ * Result of an inset operation.
+ */
+export interface InsetFacesResult {
+  /** The new geometry with the inset faces */
+  geometry: BufferGeometry;
+  /** Face indices of the inset faces (the selected faces themselves) */
+  insetFaceIndices: number[];
+  /** Face indices of the ring of quads around the inset faces */
+  ringFaceIndices: number[];
+}
+
+/**
+ * A closed outline previewing the inner border of an inset.
+ */
+export type InsetOutline = [number, number, number][];
 
-  // Create new position array with additional vertices
-  const oldPositions = positionAttribute.array as Float32Array;
-  const oldVertexCount = positionAttribute.count;
-  const newVertexCount = oldVertexCount + 3;
-  const newPositions = new Float32Array(newVertexCount * 3);
+/**
+ * An inset region: its boundary, walked in face winding, and where its
+ * vertices end up.
+ * @internal
+ */
+interface InsetRegion {
+  /** Boundary edges as [from, to, face] */
+  boundary: Array<[number, number, number]>;
+  /** New positions of the boundary vertices (of their inner copies) */
+  inner: Map<number, [number, number, number]>;
+  /** New positions of the vertices inside the region */
+  interior: Map<number, [number, number, number]>;
+}
 
-  // Copy old positions
-  newPositions.set(oldPositions);
+/**
+ * Work out the boundary of a face region and where its vertices move.
+ *
+ * Boundary vertices move inward in the plane of their faces, mitred so the
+ * border keeps an even `thickness`; all region vertices then move along
+ * the normal of their faces by `depth`.
+ * @internal
+ */
+function computeInsetRegion(
+  mesh: EditableMesh,
+  region: Set<number>,
+  thickness: number,
+  depth: number
+): InsetRegion {
+  const boundary: Array<[number, number, number]> = [];
+  const incoming = new Map<number, Vector3>();
+  const outgoing = new Map<number, Vector3>();
+
+  for (const faceIndex of region) {
+    const face = mesh.faces[faceIndex];
+    const normal = mesh.getFaceNormal(faceIndex);
+    face.edges.forEach((edgeIndex, i) => {
+      const selectedUsers = mesh.edges[edgeIndex].faces.filter((f) => region.has(f));
+      if (selectedUsers.length !== 1) return;
+      const from = face.vertices[i];
+      const to = face.vertices[(i + 1) % face.vertices.length];
+      boundary.push([from, to, faceIndex]);
+      // The inside of a counter-clockwise face is to the left of its edges
+      const direction = new Vector3(...mesh.vertices[to].position).sub(
+        new Vector3(...mesh.vertices[from].position)
+      );
+      const inward = normal.clone().cross(direction).normalize();
+      if (!outgoing.has(from)) outgoing.set(from, inward);
+      if (!incoming.has(to)) incoming.set(to, inward);
+    });
+  }
 
-  // Add new vertices at the end
-  const newVertexStartIndex = oldVertexCount;
-  newPositions[newVertexStartIndex * 3] = newV1[0];
-  newPositions[newVertexStartIndex * 3 + 1] = newV1[1];
-  newPositions[newVertexStartIndex * 3 + 2] = newV1[2];
+  const offsetAlongNormal = (vertexIndex: number, position: Vector3) => {
+    const normal = new Vector3();
+    for (const f of mesh.getVertexFaces(vertexIndex)) {
+      if (region.has(f)) normal.add(mesh.getFaceNormal(f));
+    }
+    return position.addScaledVector(normal.normalize(), depth);
+  };
 
-  newPositions[(newVertexStartIndex + 1) * 3] = newV2[0];
-  newPositions[(newVertexStartIndex + 1) * 3 + 1] = newV2[1];
-  newPositions[(newVertexStartIndex + 1) * 3 + 2] = newV2[2];
+  const inner = new Map<number, [number, number, number]>();
+  for (const [vertexIndex, inwardOut] of outgoing) {
+    const inwardIn = incoming.get(vertexIndex) ?? inwardOut;
+    const miter = inwardIn.clone().add(inwardOut);
+    if (miter.lengthSq() < 1e-8) miter.copy(inwardIn);
+    miter.normalize();
+    const scale = thickness / Math.max(miter.dot(inwardIn), 0.1);
+    const position = new Vector3(...mesh.vertices[vertexIndex].position).addScaledVector(miter, scale);
+    inner.set(vertexIndex, offsetAlongNormal(vertexIndex, position).toArray());
+  }
 
-  newPositions[(newVertexStartIndex + 2) * 3] = newV3[0];
-  newPositions[(newVertexStartIndex + 2) * 3 + 1] = newV3[1];
-  newPositions[(newVertexStartIndex + 2) * 3 + 2] = newV3[2];
+  const interior = new Map<number, [number, number, number]>();
+  for (const faceIndex of region) {
+    for (const v of mesh.faces[faceIndex].vertices) {
+      if (inner.has(v) || interior.has(v)) continue;
+      interior.set(v, offsetAlongNormal(v, new Vector3(...mesh.vertices[v].position)).toArray());
+    }
+  }
 
-  // Get original vertex buffer indices for the face
-  let origIdx1: number, origIdx2: number, origIdx3: number;
+  return { boundary, inner, interior };
+}
 
-  if (v1.originalIndices && v1.originalIndices.length > 0) {
-    origIdx1 = v1.originalIndices[0];
-  } else {
-    origIdx1 = face.vertexIndices[0];
+/**
+ * Split a face selection into inset regions.
+ * @internal
+ */
+function getInsetRegions(mesh: EditableMesh, faceIndices: number[], individual: boolean): Set<number>[] {
+  for (const faceIndex of faceIndices) {
+    if (!mesh.faces[faceIndex]) {
+      throw new Error(`Face index ${faceIndex} not found`);
+    }
+  }
+  const unique = Array.from(new Set(faceIndices));
+  return individual ? unique.map((f) => new Set([f])) : [new Set(unique)];
+}
+
+/**
+ * Get the inner outlines an inset would create, without changing the mesh.
+ *
+ * Use this to preview an inset (see the InsetPreview component) before
+ * calling {@link insetFaces} with the same arguments.
+ *
+ * @param source - The BufferGeometry or EditableMesh
+ * @param faceIndices - Indices of the faces to inset
+ * @param thickness - Width of the border
+ * @param depth - Distance to move the inset faces along their normal
+ * @param options - Inset options
+ * @returns One closed outline per boundary loop
+ */
+export function findInsetOutlines(
+  source: MeshSource,
+  faceIndices: number[],
+  thickness: number,
+  depth: number = 0,
+  options: InsetOptions = {}
+): InsetOutline[] {
+  const mesh = toEditableMesh(source);
+  const outlines: InsetOutline[] = [];
+
+  for (const region of getInsetRegions(mesh, faceIndices, options.individual ?? false)) {
+    const { boundary, inner } = computeInsetRegion(mesh, region, thickness, depth);
+    const next = new Map<number, number>();
+    for (const [from, to] of boundary) {
+      if (!next.has(from)) next.set(from, to);
+    }
+    const visited = new Set<number>();
+    for (const [start] of boundary) {
+      if (visited.has(start)) continue;
+      const outline: InsetOutline = [];
+      let current: number | undefined = start;
+      while (current !== undefined && !visited.has(current)) {
+        visited.add(current);
+        outline.push(inner.get(current)!);
+        current = next.get(current);
+      }
+      if (outline.length >= 2) outlines.push(outline);
+    }
+  }
+
+  return outlines;
+}
+
+/**
+ * Inset faces.
+ *
+ * The faces are shrunk inward by `thickness` (and moved along their normal
+ * by `depth`), and a ring of quads bridges them to their original
+ * boundary. Adjacent faces are inset as one region unless `individual` is
+ * set. The inset faces keep their indices and the texture is pulled in
+ * with them. An EditableMesh is inset in place; a BufferGeometry is left
+ * untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param faceIndices - Indices of the faces to inset
+ * @param thickness - Width of the border
+ * @param depth - Distance to move the inset faces along their normal
+ * @param options - Inset options
+ * @returns Result containing the new geometry and the inset and ring faces
+ */
+export function insetFaces(
+  source: MeshSource,
+  faceIndices: number[],
+  thickness: number,
+  depth: number = 0,
+  options: InsetOptions = {}
+): InsetFacesResult {
+  const mesh = toEditableMesh(source);
+  const regions = getInsetRegions(mesh, faceIndices, options.individual ?? false);
+  const ringFaceIndices: number[] = [];
+  const oldRegionEdges = new Set<number>();
+
+  for (const region of regions) {
+    const { boundary, inner, interior } = computeInsetRegion(mesh, region, thickness, depth);
+
+    // Corner attributes move towards the face center with the corner
+    const innerLoops = new Map<string, LoopAttributes>();
+    for (const faceIndex of region) {
+      const face = mesh.faces[faceIndex];
+      const center = new Vector3(...mesh.getFaceCenter(faceIndex));
+      const normal = mesh.getFaceNormal(faceIndex);
+      const weight = 1 / face.vertices.length;
+      const centerLoop = mesh.interpolateLoops(face.loops.map((loop) => [loop, weight]));
+      face.vertices.forEach((v, i) => {
+        const target = inner.get(v);
+        if (!target) return;
+        const original = new Vector3(...mesh.vertices[v].position);
+        const moved = new Vector3(...target).sub(original).projectOnPlane(normal);
+        const reach = original.distanceTo(center);
+        const t = reach > 0 ? Math.min(moved.length() / reach, 1) : 0;
+        innerLoops.set(
+          `${faceIndex}:${v}`,
+          mesh.interpolateLoops([
+            [face.loops[i], 1 - t],
+            [centerLoop, t],
+          ])
+        );
+      });
+    }
+
+    for (const [v, position] of interior) mesh.setVertexPosition(v, position);
+    const innerVertexOf = new Map<number, number>();
+    for (const [v, position] of inner) innerVertexOf.set(v, mesh.addVertex(position));
+
+    // The ring copies the outer corners, the moved inner corners and the
+    // shading of the face it borders
+    const ring = boundary.map(([a, b, faceIndex]) => {
+      const face = mesh.faces[faceIndex];
+      return {
+        a,
+        b,
+        loopA: face.loops[face.vertices.indexOf(a)],
+        loopB: face.loops[face.vertices.indexOf(b)],
+        innerLoopA: innerLoops.get(`${faceIndex}:${a}`)!,
+        innerLoopB: innerLoops.get(`${faceIndex}:${b}`)!,
+        materialIndex: face.materialIndex,
+        smooth: face.smooth,
+      };
+    });
+
+    for (const faceIndex of region) {
+      const face = mesh.faces[faceIndex];
+      face.edges.forEach((e) => oldRegionEdges.add(e));
+      mesh.setFaceVertices(
+        faceIndex,
+        face.vertices.map((v) => innerVertexOf.get(v) ?? v),
+        face.vertices.map((v, i) => innerLoops.get(`${faceIndex}:${v}`) ?? face.loops[i])
+      );
+    }
+
+    for (const { a, b, loopA, loopB, innerLoopA, innerLoopB, materialIndex, smooth } of ring) {
+      const innerA = innerVertexOf.get(a)!;
+      const innerB = innerVertexOf.get(b)!;
+      ringFaceIndices.push(
+        mesh.addFace(
+          [a, b, innerB, innerA],
+          [copyLoop(loopA), copyLoop(loopB), copyLoop(innerLoopB), copyLoop(innerLoopA)],
+          materialIndex,
+          smooth
+        )
+      );
+    }
+  }
+
+  // Edges between two boundary vertices inside a region are replaced by
+  // edges between their inner copies
+  const unusedEdges = Array.from(oldRegionEdges).filter((e) => mesh.edges[e].faces.length === 0);
+  const remap = mesh.deleteElements({ edges: unusedEdges });
+
+  return {
+    geometry: mesh.toBufferGeometry(),
+    insetFaceIndices: regions.flatMap((region) => Array.from(region, (f) => remap.faces[f])),
+    ringFaceIndices: ringFaceIndices.map((f) => remap.faces[f]),
+  };
+}
+
+/**
+ * Options for beveling edges or vertices.
+ */
+export interface BevelOptions {
+  /** Distance of the new edges from the beveled edge (or vertex) */
+  width: number;
+  /** Number of segments across the bevel @default 1 */
+  segments?: number;
+  /**
+   * Shape of the bevel: 0.5 is a round profile, 0.25 a straight chamfer,
+   * 1 a sharp corner and 0 a concave profile @default 0.5
+   */
+  profile?: number;
+}
+
+/**
+ * Which elements a bevel is applied to.
+ */
+export type BevelAffect = 'edges' | 'vertices';
+
+/**
+ * Result of a bevel operation.
+ */
+export interface BevelResult {
+  /** The new geometry with the bevel */
+  geometry: BufferGeometry;
+  /** Face indices of the bevel strips and corner patches */
+  bevelFaceIndices: number[];
+}
+
+/**
+ * A line segment of a bevel preview, as start and end positions.
+ */
+export type BevelOutlineSegment = [[number, number, number], [number, number, number]];
+
+/**
+ * The faces around a vertex in winding order. Face `faces[i]` lies between
+ * `edges[i]` (leaving the vertex in its winding) and `edges[i + 1]`
+ * (entering it). A closed fan wraps around, so its last face lies between
+ * the last edge and `edges[0]`; an open fan has one more edge than faces.
+ * @internal
+ */
+interface VertexFan {
+  edges: number[];
+  faces: number[];
+  closed: boolean;
+}
+
+/**
+ * Walk the faces around a vertex.
+ * @internal
+ */
+function getVertexFan(mesh: EditableMesh, vertexIndex: number): VertexFan {
+  const vertexFaces = mesh.getVertexFaces(vertexIndex);
+  const corner = (f: number) => mesh.faces[f].vertices.indexOf(vertexIndex);
+  const outgoing = (f: number) => mesh.faces[f].edges[corner(f)];
+  const incoming = (f: number) => {
+    const face = mesh.faces[f];
+    return face.edges[(corner(f) - 1 + face.vertices.length) % face.vertices.length];
+  };
+  const across = (e: number, f: number): number | undefined => {
+    const edgeFaces = mesh.edges[e].faces;
+    if (edgeFaces.length !== 2) return undefined;
+    return edgeFaces[0] === f ? edgeFaces[1] : edgeFaces[0];
+  };
+
+  if (vertexFaces.length === 0) {
+    return { edges: [...mesh.vertices[vertexIndex].edges], faces: [], closed: false };
+  }
+
+  // Walk backwards to the start of an open fan
+  let start = vertexFaces[0];
+  for (let step = 0; step < vertexFaces.length; step++) {
+    const previous = across(outgoing(start), start);
+    if (previous === undefined || previous === vertexFaces[0]) break;
+    start = previous;
+  }
+
+  const faces: number[] = [];
+  const edges = [outgoing(start)];
+  let closed = false;
+  let current = start;
+  while (faces.length <= vertexFaces.length) {
+    faces.push(current);
+    const next = across(incoming(current), current);
+    if (next === start) {
+      closed = true;
+      break;
+    }
+    edges.push(incoming(current));
+    if (next === undefined) break;
+    current = next;
+  }
+
+  if (faces.length !== vertexFaces.length) {
+    throw new Error(`Vertex ${vertexIndex} is not manifold and cannot be beveled`);
+  }
+
+  return { edges, faces, closed };
+}
+
+/**
+ * Blend weights of a bevel profile point, for the start point, the end
+ * point and the corner the profile bends towards.
+ *
+ * The profile is a superellipse quadrant whose exponent follows the
+ * profile shape (0.5 gives a circular arc).
+ * @internal
+ */
+function profileWeights(step: number, segments: number, profile: number): [number, number, number] {
+  const exponent = -Math.log2(Math.min(Math.max(profile, 1e-3), 1));
+  const angle = (Math.PI / 2) * (step / segments);
+  const x = Math.pow(Math.cos(angle), exponent);
+  const y = Math.pow(Math.sin(angle), exponent);
+  return [1 - y, 1 - x, x + y - 1];
+}
+
+/**
+ * The face-level properties new faces built from a face take over.
+ * @internal
+ */
+function faceProperties(face: MeshFace): { materialIndex: number; smooth: boolean } {
+  return { materialIndex: face.materialIndex, smooth: face.smooth };
+}
+
+/**
+ * Drop consecutive duplicates from a closed vertex loop.
+ * @internal
+ */
+function dedupeLoop<T extends { vertex: number }>(items: T[]): T[] {
+  const result = items.filter((item, i) => i === 0 || item.vertex !== items[i - 1].vertex);
+  while (result.length > 1 && result[0].vertex === result[result.length - 1].vertex) result.pop();
+  return result;
+}
+
+/**
+ * A point of a bevel corner patch, with its corner attributes.
+ * @internal
+ */
+interface PatchPoint {
+  vertex: number;
+  loop: LoopAttributes;
+}
+
+/**
+ * Fill a corner patch of `sides` sides with `segments` points each, starting
+ * at the first point of a side. Like Blender, rings of quads step in from
+ * the sides towards `center`, ending in a fan of quads around a center
+ * vertex (even segments) or a center face (odd segments).
+ * @internal
+ */
+function fillCornerPatch(
+  mesh: EditableMesh,
+  points: PatchPoint[],
+  sides: number,
+  segments: number,
+  center: { position: Vector3; loop: LoopAttributes },
+  materialIndex: number,
+  smooth: boolean
+): number[] {
+  const faces: number[] = [];
+  const addFace = (facePoints: PatchPoint[]) =>
+    faces.push(
+      mesh.addFace(
+        facePoints.map(({ vertex }) => vertex),
+        facePoints.map(({ loop }) => copyLoop(loop)),
+        materialIndex,
+        smooth
+      )
+    );
+  // A new point `t` of the way from the middle of `from` to the center
+  const inward = (from: PatchPoint[], t: number): PatchPoint => {
+    const point = from
+      .reduce((sum, { vertex }) => sum.add(new Vector3(...mesh.vertices[vertex].position)), new Vector3())
+      .divideScalar(from.length)
+      .lerp(center.position, t);
+    const loop = mesh.interpolateLoops([
+      ...from.map(({ loop }): [LoopAttributes, number] => [loop, (1 - t) / from.length]),
+      [center.loop, t],
+    ]);
+    return { vertex: mesh.addVertex(point.toArray()), loop };
+  };
+
+  // The current ring, as `size` points per side; a side ends at the next side's first point
+  let ring = points;
+  let size = segments;
+  const at = (i: number, j: number) => {
+    const side = ((i % sides) + sides) % sides;
+    return j === size ? ring[((side + 1) % sides) * size] : ring[side * size + j];
+  };
+
+  while (size >= 3) {
+    // The next ring has two segments less per side
+    const t = 2 / size;
+    const inner: PatchPoint[] = [];
+    for (let i = 0; i < sides; i++) {
+      inner.push(inward([at(i - 1, size - 1), at(i, 1)], t));
+      for (let j = 2; j < size - 1; j++) inner.push(inward([at(i, j)], t));
+    }
+    const innerSize = size - 2;
+    const innerAt = (i: number, j: number) =>
+      inner[((i + Math.floor(j / innerSize)) % sides) * innerSize + (j % innerSize)];
+    for (let i = 0; i < sides; i++) {
+      addFace([at(i - 1, size - 1), at(i, 0), at(i, 1), innerAt(i, 0)]);
+      for (let j = 1; j < size - 1; j++) {
+        addFace([at(i, j), at(i, j + 1), innerAt(i, j), innerAt(i, j - 1)]);
+      }
+    }
+    ring = inner;
+    size = innerSize;
+  }
+
+  if (size === 2) {
+    const middle = { vertex: mesh.addVertex(center.position.toArray()), loop: center.loop };
+    for (let i = 0; i < sides; i++) addFace([at(i - 1, 1), at(i, 0), at(i, 1), middle]);
+  } else {
+    addFace(ring);
+  }
+  return faces;
+}
+
+/**
+ * Bevel a mesh in place.
+ * @internal
+ */
+function bevelMesh(
+  mesh: EditableMesh,
+  indices: number[],
+  affect: BevelAffect,
+  { width, segments: requestedSegments = 1, profile = 0.5 }: BevelOptions
+): number[] {
+  const segments = Math.max(1, Math.floor(requestedSegments));
+  const position = (v: number) => new Vector3(...mesh.vertices[v].position);
+  const loopKey = (f: number, v: number) => `${f}:${v}`;
+
+  // Corner loops of new points, per face, and the first loop of every new
+  // point for faces it was not blended in (such as corner patches)
+  const loops = new Map<string, LoopAttributes>();
+  const pointLoops = new Map<number, LoopAttributes>();
+  const setLoop = (f: number, v: number, loop: LoopAttributes) => {
+    loops.set(loopKey(f, v), loop);
+    if (!pointLoops.has(v)) pointLoops.set(v, loop);
+  };
+  const getCornerLoop = (f: number, v: number) =>
+    loops.get(loopKey(f, v)) ?? mesh.getLoop(f, v) ?? pointLoops.get(v) ?? {};
+  // Replacement corners (in winding order) for the corner of a face at a beveled vertex
+  const replacements = new Map<string, number[]>();
+  // Corner patches to fill, as closed loops of [vertex, face the loop comes
+  // from]. Patches with `sides` equal sides of `segments` points each are
+  // filled with a grid, the others with one face
+  const patches: Array<{
+    corners: Array<{ vertex: number; face: number }>;
+    materialIndex: number;
+    smooth: boolean;
+    sides?: number;
+    center?: { position: Vector3; loop: LoopAttributes };
+  }> = [];
+  const bevelVertices = new Set<number>();
+  const newFaces: number[] = [];
+
+  // Center of a grid corner patch: the middle of its corners, pulled towards
+  // the beveled vertex `v` as far as the middle of a profile is
+  const patchCenter = (corners: Array<{ vertex: number; face: number }>, v: number, f: number) => {
+    const unique = dedupeLoop(corners);
+    const [, , pull] = profileWeights(1, 2, profile);
+    const middle = unique
+      .reduce((sum, { vertex }) => sum.add(position(vertex)), new Vector3())
+      .divideScalar(unique.length);
+    const loop = mesh.interpolateLoops([
+      ...unique.map(({ vertex, face }): [LoopAttributes, number] => [
+        getCornerLoop(face, vertex),
+        (1 - pull) / unique.length,
+      ]),
+      [mesh.getLoop(f, v)!, pull],
+    ]);
+    return { position: middle.lerp(position(v), pull), loop };
+  };
+
+  // Add a point blended from other points, with its loop blended the same way
+  const addPoint = (samples: Array<[number, LoopAttributes, number]>): [number, LoopAttributes] => {
+    const point = new Vector3();
+    for (const [v, , weight] of samples) point.addScaledVector(position(v), weight);
+    const loop = mesh.interpolateLoops(samples.map(([, l, weight]) => [l, weight]));
+    return [mesh.addVertex(point.toArray()), loop];
+  };
+
+  // Set the loop of a point on the edge from `v` to `other`, blended in face `f`
+  const setEdgePointLoop = (f: number, point: number, v: number, other: number) => {
+    if (point === v || loops.has(loopKey(f, point))) return;
+    const length = position(v).distanceTo(position(other));
+    const t = length > 0 ? position(v).distanceTo(position(point)) / length : 0;
+    setLoop(
+      f,
+      point,
+      mesh.interpolateLoops([
+        [mesh.getLoop(f, v)!, 1 - t],
+        [mesh.getLoop(f, other)!, t],
+      ])
+    );
+  };
+
+  // Add the interior points of a profile from `a` to `b` bending towards `corner`
+  const addProfile = (
+    [a, loopA]: [number, LoopAttributes],
+    [b, loopB]: [number, LoopAttributes],
+    [corner, cornerLoop]: [number, LoopAttributes]
+  ): Array<[number, LoopAttributes]> => {
+    const points: Array<[number, LoopAttributes]> = [];
+    for (let step = 1; step < segments; step++) {
+      const [wa, wb, wc] = profileWeights(step, segments, profile);
+      points.push(
+        addPoint([
+          [a, loopA, wa],
+          [b, loopB, wb],
+          [corner, cornerLoop, wc],
+        ])
+      );
+    }
+    return points;
+  };
+
+  if (affect === 'vertices') {
+    const selected = new Set(indices);
+    for (const v of selected) {
+      if (!mesh.vertices[v]) {
+        throw new Error(`Vertex index ${v} not found`);
+      }
+    }
+    // Non-manifold vertices and vertices without faces are skipped
+    const bevelable = getBevelableIndices(mesh, indices, 'vertices');
+    const fans = new Map(bevelable.map((v) => [v, getVertexFan(mesh, v)]));
+
+    for (const [v, fan] of fans) {
+      bevelVertices.add(v);
+
+      // A point on every edge, `width` away from the vertex
+      const others = fan.edges.map((e) => mesh.getOtherVertex(e, v));
+      const edgePoints = others.map((other) => {
+        const length = position(v).distanceTo(position(other));
+        const t = length > 0 ? Math.min(width, length * (selected.has(other) ? 0.5 : 1)) / length : 0;
+        return mesh.addVertex(position(v).lerp(position(other), t).toArray());
+      });
+      const edgeAt = (i: number) => i % fan.edges.length;
+
+      // In every face, the corner is cut along a profile between the points
+      // on its two edges
+      const profiles = fan.faces.map((f, i) => {
+        const incoming = edgeAt(i + 1);
+        const outgoing = edgeAt(i);
+        setEdgePointLoop(f, edgePoints[incoming], v, others[incoming]);
+        setEdgePointLoop(f, edgePoints[outgoing], v, others[outgoing]);
+        const points = addProfile(
+          [edgePoints[incoming], getCornerLoop(f, edgePoints[incoming])],
+          [edgePoints[outgoing], getCornerLoop(f, edgePoints[outgoing])],
+          [v, mesh.getLoop(f, v)!]
+        );
+        points.forEach(([point, loop]) => setLoop(f, point, loop));
+        const vertices = points.map(([point]) => point);
+        replacements.set(loopKey(f, v), [edgePoints[incoming], ...vertices, edgePoints[outgoing]]);
+        return vertices;
+      });
+
+      if (fan.closed) {
+        const corners = fan.faces.flatMap((f, i) => [
+          { vertex: edgePoints[edgeAt(i)], face: f },
+          ...[...profiles[i]].reverse().map((vertex) => ({ vertex, face: f })),
+        ]);
+        patches.push({
+          corners,
+          ...faceProperties(mesh.faces[fan.faces[0]]),
+          sides: fan.faces.length,
+          center: patchCenter(corners, v, fan.faces[0]),
+        });
+      }
+    }
+  } else {
+    for (const e of indices) {
+      if (!mesh.edges[e]) {
+        throw new Error(`Edge index ${e} not found`);
+      }
+    }
+    // Only edges between two faces have two sides to bevel, and only
+    // manifold vertices have fans to cut
+    const beveled = new Set(getBevelableIndices(mesh, indices, 'edges'));
+    for (const e of beveled) {
+      for (const v of mesh.edges[e].vertices) bevelVertices.add(v);
+    }
+
+    const fans = new Map(Array.from(bevelVertices, (v) => [v, getVertexFan(mesh, v)]));
+    // Points on both sides of every beveled edge end, per [vertex, edge, face]
+    const sides = new Map<string, number>();
+
+    for (const [v, fan] of fans) {
+      const k = fan.faces.length;
+      const edgeAt = (i: number) => (fan.closed ? fan.edges[((i % k) + k) % k] : fan.edges[i]);
+      const isBeveled = (i: number) => {
+        const edge = edgeAt(i);
+        return edge !== undefined && beveled.has(edge);
+      };
+      const faceAt = (i: number) => (fan.closed ? fan.faces[((i % k) + k) % k] : fan.faces[i]);
+      const direction = (i: number) =>
+        position(mesh.getOtherVertex(edgeAt(i), v)).sub(position(v)).normalize();
+      const sine = (i: number, j: number) =>
+        Math.max(direction(i).cross(direction(j)).length(), 0.1);
+
+      // Unbeveled edges next to a beveled one get a point sliding along them
+      const slides = new Map<number, number>();
+      const slidePoint = (i: number): number => {
+        if (slides.has(edgeAt(i))) return slides.get(edgeAt(i))!;
+        const distances: number[] = [];
+        if (faceAt(i - 1) !== undefined && isBeveled(i - 1)) distances.push(width / sine(i, i - 1));
+        if (faceAt(i) !== undefined && isBeveled(i + 1)) distances.push(width / sine(i, i + 1));
+        let point = v;
+        if (distances.length > 0) {
+          const other = mesh.getOtherVertex(edgeAt(i), v);
+          const length = position(v).distanceTo(position(other));
+          const distance = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+          const t = length > 0 ? distance / length : 0;
+          point = mesh.addVertex(position(v).lerp(position(other), t).toArray());
+        }
+        slides.set(edgeAt(i), point);
+        return point;
+      };
+
+      // Faces between two beveled edges get a point inside them
+      const insides = new Map<number, number>();
+      const insidePoint = (i: number): number => {
+        const f = faceAt(i)!;
+        if (!insides.has(f)) {
+          const a = mesh.getOtherVertex(edgeAt(i), v);
+          const b = mesh.getOtherVertex(edgeAt(i + 1), v);
+          const offset = width / sine(i, i + 1);
+          const ta = offset / position(v).distanceTo(position(a));
+          const tb = offset / position(v).distanceTo(position(b));
+          const [point, loop] = addPoint([
+            [v, mesh.getLoop(f, v)!, 1 - ta - tb],
+            [a, mesh.getLoop(f, a)!, ta],
+            [b, mesh.getLoop(f, b)!, tb],
+          ]);
+          setLoop(f, point, loop);
+          insides.set(f, point);
+        }
+        return insides.get(f)!;
+      };
+
+      const left = (i: number) =>
+        isBeveled(i) ? (isBeveled(i + 1) ? insidePoint(i) : slidePoint(i + 1)) : slidePoint(i);
+      const right = (i: number) =>
+        isBeveled(i + 1) ? (isBeveled(i) ? insidePoint(i) : slidePoint(i)) : slidePoint(i + 1);
+
+      fan.faces.forEach((f, i) => {
+        const l = left(i);
+        const r = right(i);
+        replacements.set(loopKey(f, v), r === l ? [l] : [r, l]);
+        // Slide points take their loops from every face using them
+        if (!isBeveled(i)) setEdgePointLoop(f, l, v, mesh.getOtherVertex(edgeAt(i), v));
+        if (!isBeveled(i + 1)) setEdgePointLoop(f, r, v, mesh.getOtherVertex(edgeAt(i + 1), v));
+        if (isBeveled(i)) sides.set(`${v}:${edgeAt(i)}:${f}`, l);
+        if (isBeveled(i + 1)) sides.set(`${v}:${edgeAt(i + 1)}:${f}`, r);
+      });
+    }
+
+    // A strip of quads along every beveled edge
+    const profiles = new Map<string, { vertices: number[]; face: number }>();
+    const strips: Array<{
+      vertices: number[];
+      loops: LoopAttributes[];
+      materialIndex: number;
+      smooth: boolean;
+    }> = [];
+    for (const e of beveled) {
+      const [f1, f2] = mesh.edges[e].faces;
+      const [a, b] = mesh.edges[e].vertices;
+      const ends = [a, b].map((v) => {
+        const start = sides.get(`${v}:${e}:${f1}`)!;
+        const end = sides.get(`${v}:${e}:${f2}`)!;
+        const startLoop = getCornerLoop(f1, start);
+        const endLoop = getCornerLoop(f2, end);
+        const interior = addProfile([start, startLoop], [end, endLoop], [v, mesh.getLoop(f1, v)!]);
+        interior.forEach(([point, loop]) => setLoop(f1, point, loop));
+        const vertices = [start, ...interior.map(([point]) => point), end];
+        profiles.set(`${v}:${e}`, { vertices, face: f1 });
+        return {
+          vertices,
+          loops: [startLoop, ...interior.map(([, loop]) => loop), endLoop],
+        };
+      });
+
+      const face = mesh.faces[f1];
+      const corner = face.vertices.indexOf(a);
+      const walksAToB = face.vertices[(corner + 1) % face.vertices.length] === b;
+      const [first, second] = walksAToB ? [ends[1], ends[0]] : [ends[0], ends[1]];
+      for (let step = 0; step < segments; step++) {
+        strips.push({
+          vertices: [
+            first.vertices[step],
+            second.vertices[step],
+            second.vertices[step + 1],
+            first.vertices[step + 1],
+          ],
+          loops: [
+            first.loops[step],
+            second.loops[step],
+            second.loops[step + 1],
+            first.loops[step + 1],
+          ],
+          ...faceProperties(face),
+        });
+      }
+    }
+
+    // Corner patches close the gap between strips meeting at a vertex
+    for (const [v, fan] of fans) {
+      if (!fan.closed) continue;
+      const corners: Array<{ vertex: number; face: number }> = [];
+      fan.faces.forEach((f, i) => {
+        const e = fan.edges[i];
+        if (beveled.has(e)) {
+          const stored = profiles.get(`${v}:${e}`)!;
+          const previous = fan.faces[(i - 1 + fan.faces.length) % fan.faces.length];
+          const ordered = stored.face === previous ? stored.vertices : [...stored.vertices].reverse();
+          corners.push(...ordered.map((vertex) => ({ vertex, face: stored.face })));
+        }
+        const replacement = replacements.get(loopKey(f, v))!;
+        const [r, l] = replacement.length === 1 ? [replacement[0], replacement[0]] : replacement;
+        corners.push({ vertex: l, face: f }, { vertex: r, face: f });
+      });
+      // With every edge beveled the patch has a profile for each side
+      const regular = fan.edges.every((e) => beveled.has(e));
+      patches.push({
+        corners,
+        ...faceProperties(mesh.faces[fan.faces[0]]),
+        ...(regular && { sides: fan.faces.length, center: patchCenter(corners, v, fan.faces[0]) }),
+      });
+    }
+
+    for (const strip of strips) {
+      newFaces.push(
+        mesh.addFace(strip.vertices, strip.loops.map(copyLoop), strip.materialIndex, strip.smooth)
+      );
+    }
+  }
+
+  // Replace the beveled corners of the faces around
+  const touchedEdges = new Set<number>();
+  for (const v of bevelVertices) mesh.vertices[v].edges.forEach((e) => touchedEdges.add(e));
+  const touchedFaces = new Set<number>();
+  for (const v of bevelVertices) mesh.getVertexFaces(v).forEach((f) => touchedFaces.add(f));
+  for (const f of touchedFaces) {
+    const face = mesh.faces[f];
+    const faceVertices: number[] = [];
+    const faceLoops: LoopAttributes[] = [];
+    face.vertices.forEach((v, i) => {
+      const replacement = replacements.get(loopKey(f, v));
+      if (!replacement) {
+        faceVertices.push(v);
+        faceLoops.push(face.loops[i]);
+        return;
+      }
+      for (const point of replacement) {
+        faceVertices.push(point);
+        faceLoops.push(point === v ? face.loops[i] : getCornerLoop(f, point));
+      }
+    });
+    mesh.setFaceVertices(f, faceVertices, faceLoops);
+  }
+
+  for (const { corners, materialIndex, smooth, sides, center } of patches) {
+    const unique = dedupeLoop(corners);
+    if (unique.length < 3) continue;
+    if (segments > 1 && sides && sides >= 3 && center && unique.length === sides * segments) {
+      const points = unique.map(({ vertex, face }) => ({ vertex, loop: getCornerLoop(face, vertex) }));
+      newFaces.push(...fillCornerPatch(mesh, points, sides, segments, center, materialIndex, smooth));
+      continue;
+    }
+    newFaces.push(
+      mesh.addFace(
+        unique.map(({ vertex }) => vertex),
+        unique.map(({ vertex, face }) => getCornerLoop(face, vertex)),
+        materialIndex,
+        smooth
+      )
+    );
+  }
+
+  // The beveled edges, and edges and vertices replaced by new points, are no longer used
+  const unusedEdges = Array.from(touchedEdges).filter((e) => mesh.edges[e].faces.length === 0);
+  const unused = new Set(unusedEdges);
+  const unusedVertices = Array.from(bevelVertices).filter((v) =>
+    mesh.vertices[v].edges.every((e) => unused.has(e))
+  );
+  const remap = mesh.deleteElements({ vertices: unusedVertices, edges: unusedEdges });
+
+  return newFaces.map((f) => remap.faces[f]);
+}
+
+/**
+ * Bevel edges.
+ *
+ * Every edge is replaced by a strip of `segments` quads following the
+ * profile shape, the faces on both sides are cut back by `width`, and
+ * where three or more beveled edges meet the strips are joined by a corner
+ * patch, a grid of quads when `segments` is more than 1. Edges that do not
+ * have a face on each side, or end at a non-manifold vertex, are skipped.
+ * An EditableMesh is beveled in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param edgeIndices - Indices of the edges to bevel
+ * @param options - Width, segments and profile of the bevel
+ * @returns Result containing the new geometry and the bevel faces
+ */
+export function bevelEdges(source: MeshSource, edgeIndices: number[], options: BevelOptions): BevelResult {
+  const mesh = toEditableMesh(source);
+  const bevelFaceIndices = bevelMesh(mesh, edgeIndices, 'edges', options);
+  return { geometry: mesh.toBufferGeometry(), bevelFaceIndices };
+}
+
+/**
+ * Bevel vertices.
+ *
+ * Every vertex is cut off `width` along its edges and replaced by a
+ * patch, with `segments` points following the profile shape in each face
+ * around it. The patch is one face, or a grid of quads when `segments` is
+ * more than 1. Non-manifold vertices are skipped. An EditableMesh is
+ * beveled in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param vertexIndices - Indices of the vertices to bevel
+ * @param options - Width, segments and profile of the bevel
+ * @returns Result containing the new geometry and the bevel faces
+ */
+export function bevelVertices(
+  source: MeshSource,
+  vertexIndices: number[],
+  options: BevelOptions
+): BevelResult {
+  const mesh = toEditableMesh(source);
+  const bevelFaceIndices = bevelMesh(mesh, vertexIndices, 'vertices', options);
+  return { geometry: mesh.toBufferGeometry(), bevelFaceIndices };
+}
+
+/**
+ * The elements a bevel would change.
+ *
+ * Vertices need faces around them and edges a face on each side, and
+ * neither may touch a non-manifold vertex, whose faces do not form one fan.
+ * Use this to check a selection before beveling it.
+ *
+ * @param source - The BufferGeometry or EditableMesh
+ * @param indices - Indices of the edges or vertices to bevel
+ * @param affect - Whether `indices` are edges or vertices @default 'edges'
+ * @returns The indices that can be beveled, without duplicates
+ */
+export function getBevelableIndices(
+  source: MeshSource,
+  indices: number[],
+  affect: BevelAffect = 'edges'
+): number[] {
+  const mesh = toEditableMesh(source);
+  const manifold = new Map<number, boolean>();
+  const isManifold = (v: number) => {
+    if (!manifold.has(v)) {
+      try {
+        getVertexFan(mesh, v);
+        manifold.set(v, true);
+      } catch {
+        manifold.set(v, false);
+      }
+    }
+    return manifold.get(v)!;
+  };
+
+  const unique = Array.from(new Set(indices));
+  if (affect === 'vertices') {
+    return unique.filter((v) => mesh.vertices[v] && mesh.getVertexFaces(v).length > 0 && isManifold(v));
+  }
+  return unique.filter(
+    (e) => mesh.edges[e]?.faces.length === 2 && mesh.edges[e].vertices.every(isManifold)
+  );
+}
+
+/**
+ * Get the edges a bevel would create, without changing the mesh.
+ *
+ * Use this to preview a bevel (see the BevelPreview component) before
+ * calling {@link bevelEdges} or {@link bevelVertices} with the same arguments.
+ *
+ * @param source - The BufferGeometry or EditableMesh
+ * @param indices - Indices of the edges or vertices to bevel
+ * @param options - Width, segments and profile of the bevel
+ * @param affect - Whether `indices` are edges or vertices @default 'edges'
+ * @returns The edges of the bevel faces as line segments
+ */
+export function findBevelOutline(
+  source: MeshSource,
+  indices: number[],
+  options: BevelOptions,
+  affect: BevelAffect = 'edges'
+): BevelOutlineSegment[] {
+  const mesh = source instanceof EditableMesh ? source.clone() : toEditableMesh(source);
+  const faceIndices = bevelMesh(mesh, indices, affect, options);
+
+  const edges = new Set<number>();
+  for (const f of faceIndices) mesh.faces[f].edges.forEach((e) => edges.add(e));
+  return Array.from(edges, (e) => {
+    const [a, b] = mesh.edges[e].vertices;
+    return [[...mesh.vertices[a].position], [...mesh.vertices[b].position]];
+  });
+}
+
+/**
+ * Result of deleting or dissolving elements.
+ */
+export interface DeleteResult {
+  /** The new geometry */
+  geometry: BufferGeometry;
+  /** How vertex, edge and face indices before the operation map to the new ones (-1 if removed) */
+  remap: MeshIndexRemap;
+}
+
+/**
+ * Options for {@link deleteFaces}.
+ */
+export interface DeleteFacesOptions {
+  /** Delete only the faces, keeping their edges and vertices @default false */
+  onlyFaces?: boolean;
+}
+
+/**
+ * Chain two remaps: `first` applied, then `second`.
+ * @internal
+ */
+function composeRemaps(first: MeshIndexRemap, second: MeshIndexRemap): MeshIndexRemap {
+  const chain = (a: number[], b: number[]) => a.map((i) => (i === -1 ? -1 : b[i]));
+  return {
+    vertices: chain(first.vertices, second.vertices),
+    edges: chain(first.edges, second.edges),
+    faces: chain(first.faces, second.faces),
+  };
+}
+
+/**
+ * An identity remap for the current mesh.
+ * @internal
+ */
+function identityRemap(mesh: EditableMesh): MeshIndexRemap {
+  return {
+    vertices: mesh.vertices.map((_, i) => i),
+    edges: mesh.edges.map((_, i) => i),
+    faces: mesh.faces.map((_, i) => i),
+  };
+}
+
+/**
+ * Delete elements along with the edges and vertices they leave dangling:
+ * edges of deleted faces that no longer have a face, and vertices of
+ * deleted edges that no longer have an edge. Loose geometry elsewhere is
+ * kept.
+ * @internal
+ */
+function deleteWithDangling(
+  mesh: EditableMesh,
+  { vertices = [], edges = [], faces = [] }: { vertices?: number[]; edges?: number[]; faces?: number[] }
+): MeshIndexRemap {
+  const deletedVertices = new Set(vertices);
+  const deletedEdges = new Set(edges);
+  for (const v of deletedVertices) mesh.vertices[v].edges.forEach((e) => deletedEdges.add(e));
+
+  const deletedFaces = new Set(faces);
+  for (const e of deletedEdges) mesh.edges[e].faces.forEach((f) => deletedFaces.add(f));
+  for (const f of deletedFaces) {
+    for (const e of mesh.faces[f].edges) {
+      if (mesh.edges[e].faces.every((other) => deletedFaces.has(other))) deletedEdges.add(e);
+    }
+  }
+  for (const e of deletedEdges) {
+    for (const v of mesh.edges[e].vertices) {
+      if (mesh.vertices[v].edges.every((other) => deletedEdges.has(other))) deletedVertices.add(v);
+    }
+  }
+
+  return mesh.deleteElements({ vertices: deletedVertices, edges: deletedEdges, faces: deletedFaces });
+}
+
+/**
+ * Validate element indices.
+ * @internal
+ */
+function assertIndices(indices: number[], count: number, kind: string): void {
+  for (const index of indices) {
+    if (!Number.isInteger(index) || index < 0 || index >= count) {
+      throw new Error(`${kind} index ${index} not found`);
+    }
+  }
+}
+
+/**
+ * Delete vertices, with their edges and faces.
+ *
+ * Edges and vertices left without faces or edges by the deletion are
+ * removed too. Indices are compacted. An EditableMesh is edited in place;
+ * a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param vertexIndices - Indices of the vertices to delete
+ * @returns Result containing the new geometry and the index remap
+ */
+export function deleteVertices(source: MeshSource, vertexIndices: number[]): DeleteResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(vertexIndices, mesh.vertices.length, 'Vertex');
+  const remap = deleteWithDangling(mesh, { vertices: vertexIndices });
+  return { geometry: mesh.toBufferGeometry(), remap };
+}
+
+/**
+ * Delete edges, with their faces.
+ *
+ * Edges and vertices left without faces or edges by the deletion are
+ * removed too. Indices are compacted. An EditableMesh is edited in place;
+ * a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param edgeIndices - Indices of the edges to delete
+ * @returns Result containing the new geometry and the index remap
+ */
+export function deleteEdges(source: MeshSource, edgeIndices: number[]): DeleteResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(edgeIndices, mesh.edges.length, 'Edge');
+  const remap = deleteWithDangling(mesh, { edges: edgeIndices });
+  return { geometry: mesh.toBufferGeometry(), remap };
+}
+
+/**
+ * Delete faces.
+ *
+ * By default, edges and vertices only used by the deleted faces are
+ * removed too; with `onlyFaces` they are kept, leaving a hole bounded by
+ * edges. Indices are compacted. An EditableMesh is edited in place; a
+ * BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param faceIndices - Indices of the faces to delete
+ * @param options - Delete options
+ * @returns Result containing the new geometry and the index remap
+ */
+export function deleteFaces(
+  source: MeshSource,
+  faceIndices: number[],
+  options: DeleteFacesOptions = {}
+): DeleteResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(faceIndices, mesh.faces.length, 'Face');
+  const remap = options.onlyFaces
+    ? mesh.deleteElements({ faces: faceIndices })
+    : deleteWithDangling(mesh, { faces: faceIndices });
+  return { geometry: mesh.toBufferGeometry(), remap };
+}
+
+/**
+ * Dissolve vertices, merging the faces around each into one polygon.
+ *
+ * A vertex on the mesh boundary is cut off, the merged polygon closing
+ * across it. Vertices whose faces cannot be merged into a simple polygon
+ * (such as faces sharing more than one edge) are left as they are. Indices
+ * are compacted. An EditableMesh is edited in place; a BufferGeometry is
+ * left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param vertexIndices - Indices of the vertices to dissolve
+ * @returns Result containing the new geometry and the index remap
+ */
+export function dissolveVertices(source: MeshSource, vertexIndices: number[]): DeleteResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(vertexIndices, mesh.vertices.length, 'Vertex');
+  let remap = identityRemap(mesh);
+
+  for (const original of new Set(vertexIndices)) {
+    const v = remap.vertices[original];
+    if (v === -1 || mesh.getVertexFaces(v).length === 0) continue;
+
+    let fan: VertexFan;
+    try {
+      fan = getVertexFan(mesh, v);
+    } catch {
+      continue;
+    }
+
+    // Walk every face from the corner after the vertex to the one before,
+    // dropping the last corner (the next face starts with it) except at
+    // the end of an open fan
+    const merged: number[] = [];
+    const mergedLoops: LoopAttributes[] = [];
+    fan.faces.forEach((f, i) => {
+      const face = mesh.faces[f];
+      const corner = face.vertices.indexOf(v);
+      const count = face.vertices.length;
+      const last = !fan.closed && i === fan.faces.length - 1 ? count - 1 : count - 2;
+      for (let step = 1; step <= last; step++) {
+        merged.push(face.vertices[(corner + step) % count]);
+        mergedLoops.push(face.loops[(corner + step) % count]);
+      }
+    });
+    if (merged.length < 3 || new Set(merged).size !== merged.length) continue;
+
+    const [kept, ...removed] = fan.faces;
+    mesh.setFaceVertices(kept, merged, mergedLoops);
+    remap = composeRemaps(remap, mesh.deleteElements({ vertices: [v], faces: removed }));
+  }
+
+  return { geometry: mesh.toBufferGeometry(), remap };
+}
+
+/**
+ * Dissolve edges, merging the two faces on either side of each.
+ *
+ * Edges without exactly two faces, or whose faces share more than that
+ * edge, are left as they are. Indices are compacted. An EditableMesh is
+ * edited in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param edgeIndices - Indices of the edges to dissolve
+ * @returns Result containing the new geometry and the index remap
+ */
+export function dissolveEdges(source: MeshSource, edgeIndices: number[]): DeleteResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(edgeIndices, mesh.edges.length, 'Edge');
+  let remap = identityRemap(mesh);
+
+  for (const original of new Set(edgeIndices)) {
+    const e = remap.edges[original];
+    if (e === -1 || mesh.edges[e].faces.length !== 2) continue;
+    const [first, second] = mesh.edges[e].faces.map((f) => mesh.faces[f]);
+
+    // The first face walks the edge a -> b and the second b -> a: walk the
+    // first from b around to a, then the rest of the second
+    const i = first.edges.indexOf(e);
+    const j = second.edges.indexOf(e);
+    const merged: number[] = [];
+    const mergedLoops: LoopAttributes[] = [];
+    for (let step = 1; step <= first.vertices.length; step++) {
+      const corner = (i + step) % first.vertices.length;
+      merged.push(first.vertices[corner]);
+      mergedLoops.push(first.loops[corner]);
+    }
+    for (let step = 2; step < second.vertices.length; step++) {
+      const corner = (j + step) % second.vertices.length;
+      merged.push(second.vertices[corner]);
+      mergedLoops.push(second.loops[corner]);
+    }
+    if (new Set(merged).size !== merged.length) continue;
+
+    const [kept, removed] = mesh.edges[e].faces;
+    mesh.setFaceVertices(kept, merged, mergedLoops);
+    remap = composeRemaps(remap, mesh.deleteElements({ edges: [e], faces: [removed] }));
+  }
+
+  return { geometry: mesh.toBufferGeometry(), remap };
+}
+
+/**
+ * Where merged vertices end up.
+ *
+ * - `center`: the average position of the merged vertices
+ * - `first`: the position of the first vertex given
+ * - `last`: the position of the last vertex given
+ * - `cursor`: a given position, such as a 3D cursor
+ */
+export type MergeMode = 'center' | 'first' | 'last' | 'cursor';
+
+/**
+ * Result of merging vertices.
+ */
+export interface MergeResult extends DeleteResult {
+  /** Number of vertices removed by the merge */
+  removedCount: number;
+}
+
+/**
+ * Split a polygon that visits a vertex more than once into simple polygons.
+ * @internal
+ */
+function splitAtRepeats(
+  vertices: number[],
+  loops: LoopAttributes[]
+): Array<{ vertices: number[]; loops: LoopAttributes[] }> {
+  for (let i = 0; i < vertices.length; i++) {
+    const j = vertices.indexOf(vertices[i], i + 1);
+    if (j === -1) continue;
+    const inner = { vertices: vertices.slice(i, j), loops: loops.slice(i, j) };
+    const outer = {
+      vertices: [...vertices.slice(j), ...vertices.slice(0, i)],
+      loops: [...loops.slice(j), ...loops.slice(0, i)],
+    };
+    return [...splitAtRepeats(inner.vertices, inner.loops), ...splitAtRepeats(outer.vertices, outer.loops)];
+  }
+  return vertices.length >= 3 ? [{ vertices, loops }] : [];
+}
+
+/**
+ * Weld vertices into others, rebuilding the faces around them.
+ *
+ * Faces that collapse below three corners are removed, faces folded onto
+ * themselves are split, and faces ending up with the same corners as
+ * another face are removed. Edges and vertices left dangling are removed.
+ * @internal
+ */
+function weldVertices(mesh: EditableMesh, targets: Map<number, number>): MeshIndexRemap {
+  const mapVertex = (v: number) => targets.get(v) ?? v;
+  const touchedFaces = new Set<number>();
+  for (const v of targets.keys()) mesh.getVertexFaces(v).forEach((f) => touchedFaces.add(f));
+  const boundEdges = new Set<number>();
+  for (const f of touchedFaces) mesh.faces[f].edges.forEach((e) => boundEdges.add(e));
+  const sharpEdges: Array<[number, number]> = [];
+  for (const v of targets.keys()) {
+    for (const e of mesh.vertices[v].edges) {
+      if (mesh.edges[e].sharp) sharpEdges.push([mapVertex(mesh.edges[e].vertices[0]), mapVertex(mesh.edges[e].vertices[1])]);
+    }
+  }
+
+  const deletedFaces = new Set<number>();
+  const rebuiltFaces: number[] = [];
+  for (const f of touchedFaces) {
+    const face = mesh.faces[f];
+    // Collapse corners welded onto their neighbour
+    const vertices: number[] = [];
+    const loops: LoopAttributes[] = [];
+    face.vertices.forEach((v, i) => {
+      const mapped = mapVertex(v);
+      if (vertices[vertices.length - 1] === mapped) return;
+      vertices.push(mapped);
+      loops.push(face.loops[i]);
+    });
+    while (vertices.length > 1 && vertices[0] === vertices[vertices.length - 1]) {
+      vertices.pop();
+      loops.pop();
+    }
+
+    const [first, ...rest] = splitAtRepeats(vertices, loops);
+    if (!first) {
+      deletedFaces.add(f);
+      continue;
+    }
+    mesh.setFaceVertices(f, first.vertices, first.loops);
+    rebuiltFaces.push(f);
+    for (const piece of rest) {
+      rebuiltFaces.push(mesh.addFace(piece.vertices, piece.loops, face.materialIndex, face.smooth));
+    }
+  }
+
+  // Loose edges follow their vertices
+  for (const v of targets.keys()) {
+    for (const e of [...mesh.vertices[v].edges]) {
+      if (mesh.edges[e].faces.length > 0) continue;
+      const [a, b] = mesh.edges[e].vertices.map(mapVertex);
+      if (a !== b) mesh.addEdge(a, b);
+    }
+  }
+  // Edges replacing sharp edges stay sharp
+  for (const [a, b] of sharpEdges) {
+    const e = a === b ? -1 : mesh.findEdge(a, b);
+    if (e !== -1) mesh.edges[e].sharp = true;
+  }
+
+  // Faces welded onto another face are duplicates
+  const faceKey = (f: number) => [...mesh.faces[f].vertices].sort((a, b) => a - b).join(',');
+  for (const f of rebuiltFaces) {
+    if (deletedFaces.has(f)) continue;
+    const key = faceKey(f);
+    const duplicate = mesh
+      .getVertexFaces(mesh.faces[f].vertices[0])
+      .some((other) => other !== f && !deletedFaces.has(other) && faceKey(other) === key);
+    if (duplicate) deletedFaces.add(f);
+  }
+
+  const deletedEdges = new Set<number>();
+  for (const e of boundEdges) {
+    if (mesh.edges[e].faces.every((f) => deletedFaces.has(f))) deletedEdges.add(e);
+  }
+  // Vertices merged into are kept even when nothing is left around them
+  const kept = new Set(targets.values());
+  const deletedVertices = new Set(targets.keys());
+  for (const e of deletedEdges) {
+    for (const v of mesh.edges[e].vertices) {
+      if (kept.has(v)) continue;
+      if (mesh.vertices[v].edges.every((other) => deletedEdges.has(other))) deletedVertices.add(v);
+    }
+  }
+
+  return mesh.deleteElements({ vertices: deletedVertices, edges: deletedEdges, faces: deletedFaces });
+}
+
+/**
+ * Merge vertices into one.
+ *
+ * The vertices are welded into the first one given, which is moved
+ * according to `mode`. Faces collapsing below three corners are removed.
+ * Corner attributes such as UVs are kept per face. Indices are compacted.
+ * An EditableMesh is edited in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param vertexIndices - Indices of the vertices to merge, in selection order
+ * @param mode - Where the merged vertex ends up @default 'center'
+ * @param cursor - Position to merge at in `cursor` mode
+ * @returns Result containing the new geometry, the index remap and the number of removed vertices
+ */
+export function mergeVertices(
+  source: MeshSource,
+  vertexIndices: number[],
+  mode: MergeMode = 'center',
+  cursor?: [number, number, number]
+): MergeResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(vertexIndices, mesh.vertices.length, 'Vertex');
+  if (mode === 'cursor' && !cursor) {
+    throw new Error('A cursor position is required to merge at the cursor');
+  }
+
+  const unique = Array.from(new Set(vertexIndices));
+  if (unique.length < 2) {
+    return { geometry: mesh.toBufferGeometry(), remap: identityRemap(mesh), removedCount: 0 };
+  }
+
+  let position: [number, number, number];
+  if (mode === 'cursor') {
+    position = [...cursor!];
+  } else if (mode === 'first' || mode === 'last') {
+    position = [...mesh.vertices[mode === 'first' ? unique[0] : unique[unique.length - 1]].position];
+  } else {
+    const center = new Vector3();
+    for (const v of unique) center.add(new Vector3(...mesh.vertices[v].position));
+    position = center.divideScalar(unique.length).toArray();
+  }
+
+  const [target, ...merged] = unique;
+  mesh.setVertexPosition(target, position);
+  const remap = weldVertices(mesh, new Map(merged.map((v) => [v, target])));
+
+  return {
+    geometry: mesh.toBufferGeometry(),
+    remap,
+    removedCount: remap.vertices.filter((v) => v === -1).length,
+  };
+}
+
+/**
+ * Merge vertices closer together than a threshold.
+ *
+ * Each vertex is welded into the first vertex found within `threshold` of
+ * it, which keeps its position. Faces collapsing below three corners and
+ * duplicate faces are removed. Indices are compacted. An EditableMesh is
+ * edited in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param threshold - Maximum distance between merged vertices @default 0.0001
+ * @param vertexIndices - Only merge these vertices (all vertices if omitted)
+ * @returns Result containing the new geometry, the index remap and the number of removed vertices
+ */
+export function mergeByDistance(
+  source: MeshSource,
+  threshold: number = 0.0001,
+  vertexIndices?: number[]
+): MergeResult {
+  const mesh = toEditableMesh(source);
+  const candidates = vertexIndices ? Array.from(new Set(vertexIndices)) : mesh.vertices.map((_, i) => i);
+  assertIndices(candidates, mesh.vertices.length, 'Vertex');
+
+  // Spatial hash with cells the size of the threshold, so only the 27
+  // cells around a vertex need to be searched
+  const cellSize = Math.max(threshold, 1e-9);
+  const cellOf = (p: [number, number, number]) => p.map((c) => Math.floor(c / cellSize));
+  const cells = new Map<string, number[]>();
+  const targets = new Map<number, number>();
+
+  for (const v of candidates) {
+    const position = mesh.vertices[v].position;
+    const [cx, cy, cz] = cellOf(position);
+    let target: number | undefined;
+    search: for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const other of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            const p = mesh.vertices[other].position;
+            const distance = Math.hypot(p[0] - position[0], p[1] - position[1], p[2] - position[2]);
+            if (distance <= threshold) {
+              target = other;
+              break search;
+            }
+          }
+        }
+      }
+    }
+    if (target !== undefined) {
+      targets.set(v, target);
+      continue;
+    }
+    const key = `${cx},${cy},${cz}`;
+    cells.set(key, [...(cells.get(key) ?? []), v]);
+  }
+
+  const remap = targets.size > 0 ? weldVertices(mesh, targets) : identityRemap(mesh);
+  return {
+    geometry: mesh.toBufferGeometry(),
+    remap,
+    removedCount: remap.vertices.filter((v) => v === -1).length,
+  };
+}
+
+/**
+ * Result of subdividing edges.
+ */
+export interface SubdivideResult extends DeleteResult {
+  /** Indices of the vertices created by the subdivision */
+  newVertexIndices: number[];
+  /** The segments each subdivided edge was split into, by old edge index */
+  edgeSegments: Map<number, number[]>;
+  /** The faces each touched face was split into (including itself), by face index */
+  faceSplits: Map<number, number[]>;
+}
+
+/**
+ * Position along an edge, bent towards a smooth curve following the vertex
+ * normals at both ends.
+ * @internal
+ */
+function smoothEdgePoint(
+  a: Vector3,
+  b: Vector3,
+  normalA: Vector3,
+  normalB: Vector3,
+  t: number,
+  smoothness: number
+): Vector3 {
+  const linear = a.clone().lerp(b, t);
+  if (smoothness === 0) return linear;
+
+  // Cubic Hermite curve with end tangents along the edge, flattened into the
+  // tangent plane of each end vertex
+  const d = b.clone().sub(a);
+  const length = d.length();
+  const tangentA = d.clone().addScaledVector(normalA, -d.dot(normalA)).setLength(length);
+  const tangentB = d.clone().addScaledVector(normalB, -d.dot(normalB)).setLength(length);
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const curve = a
+    .clone()
+    .multiplyScalar(2 * t3 - 3 * t2 + 1)
+    .addScaledVector(tangentA, t3 - 2 * t2 + t)
+    .addScaledVector(b, -2 * t3 + 3 * t2)
+    .addScaledVector(tangentB, t3 - t2);
+  return linear.lerp(curve, smoothness);
+}
+
+/**
+ * Subdivide edges, splitting each into `cuts + 1` segments and filling the
+ * faces around them.
+ *
+ * Quads with all edges cut become quad grids and quads with two opposite
+ * edges cut become strips. Triangles with all edges cut become triangle
+ * grids. Other faces become triangle fans, from an uncut corner when one
+ * exists and from a new centre vertex otherwise. Corner attributes such as
+ * UVs are interpolated. An EditableMesh is edited in place; a BufferGeometry
+ * is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param edgeIndices - Indices of the edges to subdivide
+ * @param cuts - Number of cuts per edge @default 1
+ * @param smoothness - How far new vertices bend towards a smooth surface (0 = flat) @default 0
+ * @returns Result containing the new geometry and the created elements
+ */
+export function subdivide(
+  source: MeshSource,
+  edgeIndices: number[],
+  cuts: number = 1,
+  smoothness: number = 0
+): SubdivideResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(edgeIndices, mesh.edges.length, 'Edge');
+  const selected = new Set(edgeIndices);
+  cuts = Math.max(1, Math.floor(cuts));
+  const divisions = cuts + 1;
+
+  const normalCache = new Map<number, Vector3>();
+  const vertexNormal = (v: number) => {
+    let normal = normalCache.get(v);
+    if (!normal) {
+      normal = new Vector3();
+      for (const f of mesh.getVertexFaces(v)) normal.add(mesh.getFaceNormal(f));
+      normal.normalize();
+      normalCache.set(v, normal);
+    }
+    return normal;
+  };
+  const position = (v: number) => new Vector3(...mesh.vertices[v].position);
+
+  // Cut points along each edge, ordered from its first to its second vertex
+  const newVertexIndices: number[] = [];
+  const cutVertices = new Map<number, number[]>();
+  for (const e of selected) {
+    const [a, b] = mesh.edges[e].vertices;
+    const points: number[] = [];
+    for (let k = 1; k <= cuts; k++) {
+      const point = smoothEdgePoint(
+        position(a),
+        position(b),
+        vertexNormal(a),
+        vertexNormal(b),
+        k / divisions,
+        smoothness
+      );
+      points.push(mesh.addVertex(point.toArray()));
+    }
+    newVertexIndices.push(...points);
+    cutVertices.set(e, points);
+  }
+
+  const touchedFaces = new Set<number>();
+  for (const e of selected) mesh.edges[e].faces.forEach((f) => touchedFaces.add(f));
+
+  const faceSplits = new Map<number, number[]>();
+  for (const f of touchedFaces) {
+    const face = mesh.faces[f];
+    const n = face.vertices.length;
+    const corners = face.vertices.map((v) => position(v));
+    const isCut = face.edges.map((e) => selected.has(e));
+
+    // Cut points of each side in winding order, with their corner weights
+    const sides = face.edges.map((e, i) => {
+      const points = cutVertices.get(e) ?? [];
+      return mesh.edges[e].vertices[0] === face.vertices[i] ? points : [...points].reverse();
+    });
+    const sideLoop = (i: number, k: number) =>
+      mesh.interpolateLoops([
+        [face.loops[i], 1 - k / divisions],
+        [face.loops[(i + 1) % n], k / divisions],
+      ]);
+
+    // New faces as [vertex, loop] corners
+    const pieces: Array<Array<[number, LoopAttributes]>> = [];
+    const cornerOf = (i: number): [number, LoopAttributes] => [face.vertices[i], copyLoop(face.loops[i])];
+    const sideOf = (i: number, k: number): [number, LoopAttributes] =>
+      k === 0 ? cornerOf(i) : k === divisions ? cornerOf((i + 1) % n) : [sides[i][k - 1], sideLoop(i, k)];
+    const addInterior = (point: Vector3, weights: number[]): [number, LoopAttributes] => {
+      const vertex = mesh.addVertex(point.toArray());
+      newVertexIndices.push(vertex);
+      const samples: Array<[LoopAttributes, number]> = weights.map((w, i) => [face.loops[i], w]);
+      return [vertex, mesh.interpolateLoops(samples.filter(([, w]) => w > 0))];
+    };
+
+    if (n === 4 && isCut.every(Boolean)) {
+      // Quad grid, filled as a Coons patch of the four sides
+      const grid: Array<Array<[number, LoopAttributes]>> = [];
+      const at = (corner: [number, LoopAttributes]) => new Vector3(...mesh.vertices[corner[0]].position);
+      for (let i = 0; i <= divisions; i++) {
+        grid.push([]);
+        for (let j = 0; j <= divisions; j++) {
+          if (j === 0) grid[i].push(sideOf(0, i));
+          else if (i === divisions) grid[i].push(sideOf(1, j));
+          else if (j === divisions) grid[i].push(sideOf(2, divisions - i));
+          else if (i === 0) grid[i].push(sideOf(3, divisions - j));
+          else grid[i].push([-1, {}]);
+        }
+      }
+      for (let i = 1; i < divisions; i++) {
+        for (let j = 1; j < divisions; j++) {
+          const u = i / divisions;
+          const v = j / divisions;
+          const point = at(grid[i][0])
+            .multiplyScalar(1 - v)
+            .addScaledVector(at(grid[i][divisions]), v)
+            .addScaledVector(at(grid[0][j]), 1 - u)
+            .addScaledVector(at(grid[divisions][j]), u)
+            .addScaledVector(corners[0], -(1 - u) * (1 - v))
+            .addScaledVector(corners[1], -u * (1 - v))
+            .addScaledVector(corners[2], -u * v)
+            .addScaledVector(corners[3], -(1 - u) * v);
+          grid[i][j] = addInterior(point, [(1 - u) * (1 - v), u * (1 - v), u * v, (1 - u) * v]);
+        }
+      }
+      for (let i = 0; i < divisions; i++) {
+        for (let j = 0; j < divisions; j++) {
+          pieces.push([grid[i][j], grid[i + 1][j], grid[i + 1][j + 1], grid[i][j + 1]]);
+        }
+      }
+    } else if (n === 4 && isCut[0] === isCut[2] && isCut[1] === isCut[3]) {
+      // Quad strip between the two cut sides
+      const start = isCut[0] ? 0 : 1;
+      for (let k = 0; k < divisions; k++) {
+        pieces.push([
+          sideOf(start, k),
+          sideOf(start, k + 1),
+          sideOf(start + 2, divisions - k - 1),
+          sideOf(start + 2, divisions - k),
+        ]);
+      }
+    } else if (n === 3 && isCut.every(Boolean)) {
+      // Triangle grid: point (i, j) has weights (d - i - j, i, j) / d for the corners
+      const grid = new Map<string, [number, LoopAttributes]>();
+      const key = (i: number, j: number) => `${i},${j}`;
+      for (let k = 0; k <= divisions; k++) {
+        grid.set(key(k, 0), sideOf(0, k));
+        grid.set(key(divisions - k, k), sideOf(1, k));
+        grid.set(key(0, divisions - k), sideOf(2, k));
+      }
+      const at = (i: number, j: number) => new Vector3(...mesh.vertices[grid.get(key(i, j))![0]].position);
+      for (let i = 1; i < divisions; i++) {
+        for (let j = 1; i + j < divisions; j++) {
+          // Average of the three lerps between the sides through the point
+          const s = i + j;
+          const point = at(0, j)
+            .lerp(at(divisions - j, j), i / (divisions - j))
+            .add(at(i, 0).lerp(at(i, divisions - i), j / (divisions - i)))
+            .add(at(s, 0).lerp(at(0, s), j / s))
+            .divideScalar(3);
+          grid.set(key(i, j), addInterior(point, [(divisions - s) / divisions, i / divisions, j / divisions]));
+        }
+      }
+      for (let i = 0; i < divisions; i++) {
+        for (let j = 0; i + j < divisions; j++) {
+          pieces.push([grid.get(key(i, j))!, grid.get(key(i + 1, j))!, grid.get(key(i, j + 1))!]);
+          if (i + j < divisions - 1) {
+            pieces.push([grid.get(key(i + 1, j))!, grid.get(key(i + 1, j + 1))!, grid.get(key(i, j + 1))!]);
+          }
+        }
+      }
+    } else {
+      const boundary: Array<[number, LoopAttributes]> = [];
+      for (let i = 0; i < n; i++) {
+        boundary.push(cornerOf(i));
+        if (isCut[i]) for (let k = 1; k <= cuts; k++) boundary.push(sideOf(i, k));
+      }
+      const apex = face.vertices.findIndex((_, i) => !isCut[i] && !isCut[(i + n - 1) % n]);
+      if (apex !== -1) {
+        // Fan from the uncut corner
+        const start = boundary.findIndex(([v]) => v === face.vertices[apex]);
+        const ordered = [...boundary.slice(start), ...boundary.slice(0, start)];
+        for (let k = 1; k < ordered.length - 1; k++) {
+          pieces.push([ordered[0], ordered[k], ordered[k + 1]]);
+        }
+      } else {
+        // Fan from a new centre vertex
+        const center = addInterior(
+          corners.reduce((sum, c) => sum.add(c), new Vector3()).divideScalar(n),
+          corners.map(() => 1 / n)
+        );
+        boundary.forEach((corner, k) => {
+          pieces.push([center, corner, boundary[(k + 1) % boundary.length]]);
+        });
+      }
+    }
+
+    const [first, ...rest] = pieces;
+    mesh.setFaceVertices(
+      f,
+      first.map(([v]) => v),
+      first.map(([, loop]) => loop)
+    );
+    faceSplits.set(f, [
+      f,
+      ...rest.map((piece) =>
+        mesh.addFace(
+          piece.map(([v]) => v),
+          piece.map(([, loop]) => copyLoop(loop)),
+          face.materialIndex,
+          face.smooth
+        )
+      ),
+    ]);
+  }
+
+  // Chain the cut points so loose edges are split too, then drop the old edges
+  const segmentVertices = new Map<number, number[]>();
+  for (const e of selected) {
+    const chain = [mesh.edges[e].vertices[0], ...cutVertices.get(e)!, mesh.edges[e].vertices[1]];
+    for (let k = 0; k < chain.length - 1; k++) {
+      mesh.edges[mesh.addEdge(chain[k], chain[k + 1])].sharp = mesh.edges[e].sharp;
+    }
+    segmentVertices.set(e, chain);
+  }
+  const remap = mesh.deleteElements({ edges: selected });
+
+  const edgeSegments = new Map<number, number[]>();
+  for (const [e, chain] of segmentVertices) {
+    edgeSegments.set(
+      e,
+      chain.slice(0, -1).map((v, k) => mesh.findEdge(v, chain[k + 1]))
+    );
+  }
+
+  return {
+    geometry: mesh.toBufferGeometry(),
+    remap,
+    newVertexIndices,
+    edgeSegments,
+    faceSplits,
+  };
+}
+
+/**
+ * A point on the mesh surface for the knife tool.
+ */
+export interface KnifePoint {
+  /** Position on the surface */
+  position: [number, number, number];
+  /** Index of the face the point lies on */
+  faceIndex: number;
+}
+
+/**
+ * A knife point after snapping, with what it snapped to.
+ */
+export interface KnifeSnapResult extends KnifePoint {
+  /** What the point snapped to, or `'face'` when it was left on the face */
+  snap: 'vertex' | 'midpoint' | 'edge' | 'face';
+  /** The vertex snapped to */
+  vertexIndex?: number;
+  /** The edge snapped to (for `midpoint` and `edge` snaps) */
+  edgeIndex?: number;
+}
+
+/**
+ * Options for knife cuts.
+ */
+export interface KnifeCutOptions {
+  /**
+   * Camera position for a perspective view. Each knife segment cuts along
+   * the plane through its end points and this position.
+   */
+  viewPosition?: [number, number, number];
+  /**
+   * View direction for an orthographic view, used when `viewPosition` is not
+   * given. Without either, segments cut along the plane containing the
+   * normals of the faces at their end points.
+   */
+  viewDirection?: [number, number, number];
+}
+
+/**
+ * Result of a knife cut.
+ */
+export interface KnifeCutResult {
+  /** The new geometry with the cut applied */
+  geometry: BufferGeometry;
+  /** Indices of the vertices created along the cut */
+  newVertexIndices: number[];
+  /** Indices of the edges along the cut */
+  cutEdgeIndices: number[];
+}
+
+/**
+ * Where a knife path crosses the mesh: at a vertex, along an edge or inside a face.
+ * @internal
+ */
+type KnifeEvent =
+  | { kind: 'vertex'; vertex: number }
+  | { kind: 'edge'; edge: number; t: number; position: Vector3 }
+  | { kind: 'face'; face: number; position: Vector3 };
+
+/**
+ * Part of a knife cut across one face, between two crossings of its border
+ * and through the points inside it.
+ * @internal
+ */
+interface KnifeChain {
+  from: Exclude<KnifeEvent, { kind: 'face' }>;
+  inner: Array<Extract<KnifeEvent, { kind: 'face' }>>;
+  to: Exclude<KnifeEvent, { kind: 'face' }>;
+  face: number;
+}
+
+/**
+ * Barycentric weights of a point for the corners of a face, using the face's
+ * fan triangles. `inside` tells whether the point projects into the face.
+ * @internal
+ */
+function faceWeightsAt(mesh: EditableMesh, faceIndex: number, point: Vector3): { weights: number[]; inside: boolean } {
+  const corners = mesh.faces[faceIndex].vertices.map((v) => new Vector3(...mesh.vertices[v].position));
+  const triangle = new Triangle();
+  const barycentric = new Vector3();
+  let best = { weights: corners.map((_, i): number => (i === 0 ? 1 : 0)), inside: false, score: -Infinity };
+
+  for (let k = 1; k < corners.length - 1; k++) {
+    triangle.set(corners[0], corners[k], corners[k + 1]);
+    const projected = triangle.closestPointToPoint(point, new Vector3());
+    triangle.getBarycoord(projected, barycentric);
+    const score = Math.min(barycentric.x, barycentric.y, barycentric.z) - projected.distanceTo(point);
+    if (score <= best.score) continue;
+    const weights = corners.map(() => 0);
+    weights[0] = barycentric.x;
+    weights[k] = barycentric.y;
+    weights[k + 1] = barycentric.z;
+    best = { weights, inside: projected.distanceToSquared(point) < 1e-12 || score > -1e-6, score };
+  }
+  return { weights: best.weights, inside: best.inside };
+}
+
+/**
+ * Classify a point on a face as lying on one of its vertices, on one of its
+ * edges or inside it.
+ * @internal
+ */
+function classifyKnifePoint(mesh: EditableMesh, faceIndex: number, point: Vector3): KnifeEvent {
+  const face = mesh.faces[faceIndex];
+  const corners = face.vertices.map((v) => new Vector3(...mesh.vertices[v].position));
+  const size = Math.max(...corners.map((c, i) => c.distanceTo(corners[(i + 1) % corners.length])));
+  const epsilon = size * 1e-4;
+
+  for (let i = 0; i < corners.length; i++) {
+    if (corners[i].distanceTo(point) < epsilon) return { kind: 'vertex', vertex: face.vertices[i] };
+  }
+  for (let i = 0; i < corners.length; i++) {
+    const edge = new Line3(corners[i], corners[(i + 1) % corners.length]);
+    const t = edge.closestPointToPointParameter(point, true);
+    if (edge.at(t, new Vector3()).distanceTo(point) >= epsilon) continue;
+    const edgeIndex = face.edges[i];
+    const forward = mesh.edges[edgeIndex].vertices[0] === face.vertices[i];
+    return { kind: 'edge', edge: edgeIndex, t: forward ? t : 1 - t, position: point.clone() };
+  }
+  return { kind: 'face', face: faceIndex, position: point.clone() };
+}
+
+/**
+ * Find where the knife plane next leaves a face, past `progress` along `direction`.
+ * @internal
+ */
+function nextKnifeCrossing(
+  mesh: EditableMesh,
+  faceIndex: number,
+  origin: Vector3,
+  direction: Vector3,
+  planeNormal: Vector3,
+  progress: number
+): { event: KnifeEvent; progress: number } | null {
+  const face = mesh.faces[faceIndex];
+  const corners = face.vertices.map((v) => new Vector3(...mesh.vertices[v].position));
+  const epsilon = 1e-6 * direction.lengthSq();
+  let best: { event: KnifeEvent; progress: number } | null = null;
+
+  corners.forEach((start, i) => {
+    const end = corners[(i + 1) % corners.length];
+    const s0 = planeNormal.dot(start.clone().sub(origin));
+    const s1 = planeNormal.dot(end.clone().sub(origin));
+    if ((s0 > 0 && s1 > 0) || (s0 < 0 && s1 < 0) || s0 === s1) return;
+
+    const t = s0 / (s0 - s1);
+    const point = start.clone().lerp(end, t);
+    const along = point.clone().sub(origin).dot(direction);
+    if (along <= progress + epsilon || (best && along >= best.progress)) return;
+
+    let event: KnifeEvent;
+    if (t < 1e-6) {
+      event = { kind: 'vertex', vertex: face.vertices[i] };
+    } else if (t > 1 - 1e-6) {
+      event = { kind: 'vertex', vertex: face.vertices[(i + 1) % corners.length] };
+    } else {
+      const edgeIndex = face.edges[i];
+      const forward = mesh.edges[edgeIndex].vertices[0] === face.vertices[i];
+      event = { kind: 'edge', edge: edgeIndex, t: forward ? t : 1 - t, position: point };
+    }
+    best = { event, progress: along };
+  });
+
+  return best;
+}
+
+/**
+ * Faces a knife point may be traced from or to: the faces around the
+ * vertex or edge it lies on, starting with its own face.
+ * @internal
+ */
+function knifePointFaces(mesh: EditableMesh, point: KnifePoint): { event: KnifeEvent; faces: number[] } {
+  const event = classifyKnifePoint(mesh, point.faceIndex, new Vector3(...point.position));
+  const around =
+    event.kind === 'vertex'
+      ? mesh.getVertexFaces(event.vertex)
+      : event.kind === 'edge'
+        ? mesh.edges[event.edge].faces
+        : [];
+  return { event, faces: [point.faceIndex, ...around.filter((f) => f !== point.faceIndex)] };
+}
+
+/**
+ * Trace a knife segment across the surface, from face to face, along the
+ * cutting plane. A point on a vertex or an edge may be traced from or to
+ * any face around it. Returns the crossings and the faces between them, or
+ * null when the plane leaves the mesh before reaching the end point.
+ * @internal
+ */
+function traceKnifeSegment(
+  mesh: EditableMesh,
+  start: KnifePoint,
+  end: KnifePoint,
+  planeNormal: Vector3
+): { events: KnifeEvent[]; faces: number[] } | null {
+  const origin = new Vector3(...start.position);
+  const target = new Vector3(...end.position);
+  const direction = target.clone().sub(origin);
+  const from = knifePointFaces(mesh, start);
+  const to = knifePointFaces(mesh, end);
+
+  // Try the faces the segment heads into first
+  const step = origin.clone().addScaledVector(direction, 1e-4);
+  const heading = (f: number) => {
+    const normal = mesh.getFaceNormal(f);
+    const onPlane = step.clone().addScaledVector(normal, -normal.dot(step.clone().sub(origin)));
+    return faceWeightsAt(mesh, f, onPlane).inside ? 0 : 1;
+  };
+  const startFaces = [...from.faces].sort((a, b) => heading(a) - heading(b));
+
+  for (const startFace of startFaces) {
+    const traced = traceKnifeFrom(mesh, startFace, to.faces, origin, direction, planeNormal);
+    if (!traced) continue;
+    const endFace = traced.faces[traced.faces.length - 1];
+    return {
+      events: [from.event, ...traced.events, classifyKnifePoint(mesh, endFace, target)],
+      faces: traced.faces,
+    };
+  }
+  return null;
+}
+
+/**
+ * Follow the cutting plane from a face until reaching one of `endFaces`,
+ * returning the crossings on the way and the faces walked through.
+ * @internal
+ */
+function traceKnifeFrom(
+  mesh: EditableMesh,
+  startFace: number,
+  endFaces: number[],
+  origin: Vector3,
+  direction: Vector3,
+  planeNormal: Vector3
+): { events: KnifeEvent[]; faces: number[] } | null {
+  const events: KnifeEvent[] = [];
+  const faces: number[] = [];
+  let faceIndex = startFace;
+  let progress = 0;
+  for (let guard = 0; !endFaces.includes(faceIndex); guard++) {
+    if (guard > mesh.faces.length) return null;
+    const crossing = nextKnifeCrossing(mesh, faceIndex, origin, direction, planeNormal, progress);
+    if (!crossing) return null;
+    events.push(crossing.event);
+    faces.push(faceIndex);
+    progress = crossing.progress;
+
+    // Continue into the face on the other side
+    const previous = faceIndex;
+    const event = crossing.event;
+    let next: number | undefined;
+    if (event.kind === 'edge') {
+      next = mesh.edges[event.edge].faces.find((f) => f !== previous);
+    } else if (event.kind === 'vertex') {
+      const around = mesh.getVertexFaces(event.vertex).filter((f) => f !== previous);
+      next =
+        around.find((f) => endFaces.includes(f)) ??
+        around.find((f) => nextKnifeCrossing(mesh, f, origin, direction, planeNormal, progress) !== null);
+    }
+    if (next === undefined) return null;
+    faceIndex = next;
   }
+  faces.push(faceIndex);
+  return { events, faces };
+}
 
-  if (v2.originalIndices && v2.originalIndices.length > 0) {
-    origIdx2 = v2.originalIndices[0];
-  } else {
-    origIdx2 = face.vertexIndices[1];
+/**
+ * Snap a point on a face to the nearest vertex, edge midpoint or edge of
+ * that face within `threshold`, in that order of preference.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param point - The point on the face
+ * @param faceIndex - The face the point lies on
+ * @param threshold - Maximum snapping distance
+ * @returns The snapped point
+ */
+export function snapKnifePoint(
+  source: MeshSource,
+  point: [number, number, number],
+  faceIndex: number,
+  threshold: number
+): KnifeSnapResult {
+  const mesh = toEditableMesh(source);
+  const face = mesh.faces[faceIndex];
+  if (!face) throw new Error(`Face index ${faceIndex} not found`);
+  const p = new Vector3(...point);
+
+  let nearestVertex = -1;
+  let vertexDistance = threshold;
+  for (const v of face.vertices) {
+    const distance = p.distanceTo(new Vector3(...mesh.vertices[v].position));
+    if (distance <= vertexDistance) {
+      nearestVertex = v;
+      vertexDistance = distance;
+    }
   }
-
-  if (v3.originalIndices && v3.originalIndices.length > 0) {
-    origIdx3 = v3.originalIndices[0];
-  } else {
-    origIdx3 = face.vertexIndices[2];
+  if (nearestVertex !== -1) {
+    return {
+      position: [...mesh.vertices[nearestVertex].position],
+      faceIndex,
+      snap: 'vertex',
+      vertexIndex: nearestVertex,
+    };
   }
 
-  // New vertex buffer indices
-  const nv1 = newVertexStartIndex;
-  const nv2 = newVertexStartIndex + 1;
-  const nv3 = newVertexStartIndex + 2;
-
-  // Create new index array
-  let oldIndices: Uint16Array | Uint32Array;
-  if (indexAttribute) {
-    oldIndices = indexAttribute.array as Uint16Array | Uint32Array;
-  } else {
-    // Create indices for non-indexed geometry
-    oldIndices = new Uint16Array(oldVertexCount);
-    for (let i = 0; i < oldVertexCount; i++) {
-      oldIndices[i] = i;
+  let midpoint: KnifeSnapResult | null = null;
+  let onEdge: KnifeSnapResult | null = null;
+  let midpointDistance = threshold;
+  let edgeDistance = threshold;
+  for (const e of face.edges) {
+    const [a, b] = mesh.edges[e].vertices.map((v) => new Vector3(...mesh.vertices[v].position));
+    const center = a.clone().lerp(b, 0.5);
+    if (p.distanceTo(center) <= midpointDistance) {
+      midpointDistance = p.distanceTo(center);
+      midpoint = { position: center.toArray(), faceIndex, snap: 'midpoint', edgeIndex: e };
+    }
+    const closest = new Line3(a, b).closestPointToPoint(p, true, new Vector3());
+    if (p.distanceTo(closest) <= edgeDistance) {
+      edgeDistance = p.distanceTo(closest);
+      onEdge = { position: closest.toArray(), faceIndex, snap: 'edge', edgeIndex: e };
     }
   }
 
-  // New indices: old triangles + top face (3) + 6 side triangles (18)
-  const newIndicesCount = oldIndices.length + 3 + 18;
-  const newIndices = new Uint32Array(newIndicesCount);
-
-  // Copy old indices
-  newIndices.set(oldIndices);
-
-  let idx = oldIndices.length;
-
-  // Add top face (the extruded face)
-  newIndices[idx++] = nv1;
-  newIndices[idx++] = nv2;
-  newIndices[idx++] = nv3;
+  return midpoint ?? onEdge ?? { position: [...point], faceIndex, snap: 'face' };
+}
 
-  // Add side faces (3 quads, each made of 2 triangles)
-  // Side 1: origIdx1-origIdx2-nv2-nv1
-  newIndices[idx++] = origIdx1;
-  newIndices[idx++] = origIdx2;
-  newIndices[idx++] = nv2;
+/**
+ * Cut faces along a polyline drawn on the surface, like Blender's knife.
+ *
+ * Each segment between successive points cuts every face it crosses,
+ * following the plane through the segment and the view (see
+ * {@link KnifeCutOptions}). New vertices are added where the cut crosses
+ * edges and at points inside faces. Parts of the path that start or end
+ * inside a face without crossing its border are ignored, as are segments
+ * whose plane leaves the mesh; edges are only split where a face is cut.
+ * Points on a vertex or an edge may continue into any face around it.
+ * Corner attributes are interpolated. An EditableMesh is edited in place; a
+ * BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param points - The knife points in order
+ * @param options - How to orient the cutting planes
+ * @returns Result containing the new geometry and the cut
+ */
+export function knifeCut(source: MeshSource, points: KnifePoint[], options: KnifeCutOptions = {}): KnifeCutResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(
+    points.map((point) => point.faceIndex),
+    mesh.faces.length,
+    'Face'
+  );
 
-  newIndices[idx++] = origIdx1;
-  newIndices[idx++] = nv2;
-  newIndices[idx++] = nv1;
+  // Trace the whole path on the unmodified mesh. Segments that cannot be
+  // traced end the current run of the cut.
+  const runs: Array<{ events: KnifeEvent[]; faces: number[] }> = [];
+  let run: { events: KnifeEvent[]; faces: number[] } | null = null;
+  for (let k = 0; k < points.length - 1; k++) {
+    const a = new Vector3(...points[k].position);
+    const b = new Vector3(...points[k + 1].position);
+    let planeNormal: Vector3;
+    if (options.viewPosition) {
+      const eye = new Vector3(...options.viewPosition);
+      planeNormal = a.clone().sub(eye).cross(b.clone().sub(eye));
+    } else {
+      const view = options.viewDirection
+        ? new Vector3(...options.viewDirection)
+        : mesh.getFaceNormal(points[k].faceIndex).add(mesh.getFaceNormal(points[k + 1].faceIndex));
+      planeNormal = b.clone().sub(a).cross(view);
+    }
 
-  // Side 2: origIdx2-origIdx3-nv3-nv2
-  newIndices[idx++] = origIdx2;
-  newIndices[idx++] = origIdx3;
-  newIndices[idx++] = nv3;
+    const segment =
+      planeNormal.lengthSq() > 1e-12 ? traceKnifeSegment(mesh, points[k], points[k + 1], planeNormal) : null;
+    if (!segment) {
+      run = null;
+      continue;
+    }
+    if (run) {
+      run.events.push(...segment.events.slice(1));
+      run.faces.push(...segment.faces);
+    } else {
+      run = segment;
+      runs.push(run);
+    }
+  }
 
-  newIndices[idx++] = origIdx2;
-  newIndices[idx++] = nv3;
-  newIndices[idx++] = nv2;
+  // Pair up border crossings into chains, each cutting one face between two
+  // crossings through the points inside it. Parts of a run before its first
+  // or after its last crossing cut nothing.
+  const chains: KnifeChain[] = [];
+  for (const { events, faces } of runs) {
+    let from = events.findIndex((event) => event.kind !== 'face');
+    while (from !== -1) {
+      const to = events.findIndex((event, k) => k > from && event.kind !== 'face');
+      if (to === -1) break;
+      const a = events[from] as KnifeChain['from'];
+      const b = events[to] as KnifeChain['to'];
+      const same =
+        a.kind === 'vertex'
+          ? b.kind === 'vertex' && a.vertex === b.vertex
+          : b.kind === 'edge' && a.edge === b.edge && Math.abs(a.t - b.t) < 1e-6;
+      if (!same) {
+        const inner = events.slice(from + 1, to) as KnifeChain['inner'];
+        chains.push({ from: a, inner, to: b, face: faces[from] });
+      }
+      from = to;
+    }
+  }
 
-  // Side 3: origIdx3-origIdx1-nv1-nv3
-  newIndices[idx++] = origIdx3;
-  newIndices[idx++] = origIdx1;
-  newIndices[idx++] = nv1;
+  // Split the edges crossed by a chain, furthest point first so each split
+  // keeps the edge's first vertex
+  const edgeVertices = new Map<number, Array<{ t: number; vertex: number }>>();
+  for (const { from, to } of chains) {
+    for (const event of [from, to]) {
+      if (event.kind !== 'edge') continue;
+      const list = edgeVertices.get(event.edge) ?? [];
+      if (!list.some((entry) => Math.abs(entry.t - event.t) < 1e-6)) list.push({ t: event.t, vertex: -1 });
+      edgeVertices.set(event.edge, list);
+    }
+  }
+  const newVertexIndices: number[] = [];
+  for (const [edgeIndex, list] of edgeVertices) {
+    list.sort((x, y) => y.t - x.t);
+    let length = 1;
+    for (const entry of list) {
+      entry.vertex = mesh.splitEdge(edgeIndex, entry.t / length);
+      newVertexIndices.push(entry.vertex);
+      length = entry.t;
+    }
+  }
+  const vertexOf = (event: KnifeChain['from']): number =>
+    event.kind === 'vertex'
+      ? event.vertex
+      : edgeVertices.get(event.edge)!.find((entry) => Math.abs(entry.t - event.t) < 1e-6)!.vertex;
+
+  const cutEdges = new Set<number>();
+  for (const { from, inner, to, face } of chains) {
+    const chain = splitFaceAlongKnife(mesh, vertexOf(from), inner, vertexOf(to), face);
+    if (chain) {
+      newVertexIndices.push(...chain.slice(1, -1));
+      chain.slice(0, -1).forEach((v, k) => cutEdges.add(mesh.findEdge(v, chain[k + 1])));
+    }
+  }
+  cutEdges.delete(-1);
 
-  newIndices[idx++] = origIdx3;
-  newIndices[idx++] = nv1;
-  newIndices[idx++] = nv3;
+  return {
+    geometry: mesh.toBufferGeometry(),
+    newVertexIndices,
+    cutEdgeIndices: Array.from(cutEdges),
+  };
+}
 
-  // Create new geometry
-  const newGeometry = new BufferGeometry();
-  newGeometry.setAttribute('position', new BufferAttribute(newPositions, 3));
-  newGeometry.setIndex(new BufferAttribute(newIndices, 1));
-  newGeometry.computeVertexNormals();
-  newGeometry.computeBoundingSphere();
+/**
+ * Split the face between two border vertices along a chain of points inside
+ * it. Returns the vertices of the cut, or null when there is nothing to cut.
+ * @internal
+ */
+function splitFaceAlongKnife(
+  mesh: EditableMesh,
+  start: number,
+  inner: Array<{ position: Vector3 }>,
+  end: number,
+  originalFace: number
+): number[] | null {
+  if (start === end) return null;
+  const chainStart = inner[0]?.position;
+  const candidates = mesh.getVertexFaces(start).filter((f) => mesh.faces[f].vertices.includes(end));
+  const adjacent = (f: number) => {
+    const vertices = mesh.faces[f].vertices;
+    const count = vertices.length;
+    const i = vertices.indexOf(start);
+    return vertices[(i + 1) % count] === end || vertices[(i + count - 1) % count] === end;
+  };
 
-  // The extruded top face is the first new triangle added after the original indices
-  // Its face index in the extracted faces will be oldIndices.length / 3
-  const extrudedFaceIndex = oldIndices.length / 3;
+  let faceIndex: number | undefined;
+  if (inner.length === 0) {
+    // Cutting straight across: the vertices may already share an edge
+    if (mesh.findEdge(start, end) !== -1) return [start, end];
+    faceIndex = candidates.find((f) => !adjacent(f));
+  } else {
+    faceIndex =
+      candidates.find((f) => f === originalFace && faceWeightsAt(mesh, f, chainStart!).inside) ??
+      candidates.find((f) => faceWeightsAt(mesh, f, chainStart!).inside) ??
+      candidates[0];
+  }
+  if (faceIndex === undefined) return null;
+
+  const face = mesh.faces[faceIndex];
+  const innerVertices = inner.map(({ position }) => mesh.addVertex(position.toArray()));
+  const innerLoops = inner.map(({ position }) => {
+    const { weights } = faceWeightsAt(mesh, faceIndex!, position);
+    const samples: Array<[LoopAttributes, number]> = weights.map((w, i) => [face.loops[i], w]);
+    return mesh.interpolateLoops(samples.filter(([, w]) => w > 0));
+  });
+
+  const count = face.vertices.length;
+  const i = face.vertices.indexOf(start);
+  const j = face.vertices.indexOf(end);
+  const firstVertices: number[] = [];
+  const firstLoops: LoopAttributes[] = [];
+  for (let k = i; ; k = (k + 1) % count) {
+    firstVertices.push(face.vertices[k]);
+    firstLoops.push(face.loops[k]);
+    if (k === j) break;
+  }
+  const secondVertices: number[] = [];
+  const secondLoops: LoopAttributes[] = [];
+  for (let k = j; ; k = (k + 1) % count) {
+    secondVertices.push(face.vertices[k]);
+    secondLoops.push(copyLoop(face.loops[k]));
+    if (k === i) break;
+  }
 
-  return {
-    geometry: newGeometry,
-    extrudedVertexBufferIndices: [nv1, nv2, nv3],
-    extrudedFaceIndex,
-  };
+  // The first part runs back from end to start through the chain, the second
+  // part from start to end
+  mesh.setFaceVertices(
+    faceIndex,
+    [...firstVertices, ...[...innerVertices].reverse()],
+    [...firstLoops, ...[...innerLoops].reverse()]
+  );
+  mesh.addFace(
+    [...secondVertices, ...innerVertices],
+    [...secondLoops, ...innerLoops.map(copyLoop)],
+    face.materialIndex,
+    face.smooth
+  );
+  return [start, ...innerVertices, end];
 }
 
 /**
@@ -635,6 +3185,14 @@ export interface LoopCutPath {
   isClosed: boolean;
 }
 
+/**
+ * Get the canonical edge key for two vertex indices.
+ * @internal
+ */
+function edgeKey(v1: number, v2: number): string {
+  return v1 < v2 ? `${v1}-${v2}` : `${v2}-${v1}`;
+}
+
 /**
  * Build an adjacency map: edge key -> array of face indices that contain this edge.
  * @internal
@@ -642,33 +3200,20 @@ export interface LoopCutPath {
 function buildEdgeToFacesMap(faces: FaceData[]): Map<string, number[]> {
   const edgeToFaces = new Map<string, number[]>();
 
-  const addEdgeToFace = (v1: number, v2: number, faceIndex: number) => {
-    const key = v1 < v2 ? `${v1}-${v2}` : `${v2}-${v1}`;
-    if (!edgeToFaces.has(key)) {
-      edgeToFaces.set(key, []);
-    }
-    edgeToFaces.get(key)!.push(faceIndex);
-  };
-
   for (const face of faces) {
-    const [v1, v2, v3] = face.vertexIndices;
-    addEdgeToFace(v1, v2, face.index);
-    addEdgeToFace(v2, v3, face.index);
-    addEdgeToFace(v3, v1, face.index);
+    const loop = face.vertexIndices;
+    for (let i = 0; i < loop.length; i++) {
+      const key = edgeKey(loop[i], loop[(i + 1) % loop.length]);
+      if (!edgeToFaces.has(key)) {
+        edgeToFaces.set(key, []);
+      }
+      edgeToFaces.get(key)!.push(face.index);
+    }
   }
 
   return edgeToFaces;
 }
 
-/**
- * Get the canonical edge key for two vertex indices.
- * @internal
- */
-function edgeKey(v1: number, v2: number): string {
-  return v1 < v2 ? `${v1}-${v2}` : `${v2}-${v1}`;
-}
-
-
 /**
  * Find the loop cut path starting from a given edge.
  *
@@ -681,6 +3226,8 @@ function edgeKey(v1: number, v2: number): string {
  * @param faces - Array of all faces in the geometry
  * @param vertices - Array of all vertices for position lookup
  * @param t - Parameter along each edge for cut position (0.5 = midpoint)
+ * @param mesh - Optional editable mesh the arrays were extracted from, used
+ *   for edge-to-face adjacency instead of rebuilding it
  * @returns The loop cut path with all cut points
  */
 export function findLoopCutPath(
@@ -688,7 +3235,8 @@ export function findLoopCutPath(
   edges: EdgeData[],
   faces: FaceData[],
   vertices: VertexData[],
-  t: number = 0.5
+  t: number = 0.5,
+  mesh?: EditableMesh
 ): LoopCutPath {
   const v1Pos = vertices[startEdge.vertexIndices[0]]?.position;
   const v2Pos = vertices[startEdge.vertexIndices[1]]?.position;
@@ -721,6 +3269,7 @@ export function findLoopCutPath(
   }
 
   const candidateEdges: CandidateEdge[] = [];
+  const candidatesByKey = new Map<string, CandidateEdge>();
 
   for (const edge of edges) {
     const p1 = vertices[edge.vertexIndices[0]]?.position;
@@ -745,12 +3294,14 @@ export function findLoopCutPath(
         p1[2] + (p2[2] - p1[2]) * tIntersect,
       ];
 
-      candidateEdges.push({
+      const candidate: CandidateEdge = {
         edgeIndex: edge.index,
         edge,
         position: intersection,
         tValue: tIntersect,
-      });
+      };
+      candidateEdges.push(candidate);
+      candidatesByKey.set(edgeKey(edge.vertexIndices[0], edge.vertexIndices[1]), candidate);
     }
   }
 
@@ -758,8 +3309,13 @@ export function findLoopCutPath(
     return { points: [], isClosed: false };
   }
 
-  // Build edge-to-faces map for adjacency lookup
-  const edgeToFaces = buildEdgeToFacesMap(faces);
+  // Edge-to-faces adjacency: from the mesh when available, otherwise built
+  // from the face array
+  const edgeToFaces = mesh ? null : buildEdgeToFacesMap(faces);
+  const getAdjacentFaces = (edge: EdgeData): number[] =>
+    mesh
+      ? (mesh.edges[edge.index]?.faces ?? [])
+      : (edgeToFaces!.get(edgeKey(edge.vertexIndices[0], edge.vertexIndices[1])) ?? []);
 
   // Order the candidate edges by traversing through adjacent faces
   // Starting from the first candidate, find connected edges through face adjacency
@@ -784,31 +3340,22 @@ export function findLoopCutPath(
       currentCandidate.edge.vertexIndices[0],
       currentCandidate.edge.vertexIndices[1]
     );
-    const adjacentFaces = edgeToFaces.get(currentKey) || [];
+    const adjacentFaces = getAdjacentFaces(currentCandidate.edge);
 
     let nextCandidate: CandidateEdge | null = null;
 
     // Check each adjacent face for other candidate edges
     for (const faceIdx of adjacentFaces) {
-      const face = faces[faceIdx];
-      const faceEdges: [number, number][] = [
-        [face.vertexIndices[0], face.vertexIndices[1]],
-        [face.vertexIndices[1], face.vertexIndices[2]],
-        [face.vertexIndices[2], face.vertexIndices[0]],
-      ];
+      const loop = faces[faceIdx].vertexIndices;
 
-      for (const faceEdge of faceEdges) {
-        const faceEdgeKey = edgeKey(faceEdge[0], faceEdge[1]);
+      for (let i = 0; i < loop.length; i++) {
+        const faceEdgeKey = edgeKey(loop[i], loop[(i + 1) % loop.length]);
         if (faceEdgeKey === currentKey) continue; // Skip current edge
 
         // Find this edge in candidates
-        const candidate = candidateEdges.find(
-          (c) =>
-            !usedEdges.has(c.edgeIndex) &&
-            edgeKey(c.edge.vertexIndices[0], c.edge.vertexIndices[1]) === faceEdgeKey
-        );
+        const candidate = candidatesByKey.get(faceEdgeKey);
 
-        if (candidate) {
+        if (candidate && !usedEdges.has(candidate.edgeIndex)) {
           nextCandidate = candidate;
           break;
         }
@@ -832,7 +3379,7 @@ export function findLoopCutPath(
 export interface LoopCutResult {
   /** The new geometry with the loop cut applied */
   geometry: BufferGeometry;
-  /** Indices of the newly created vertices */
+  /** Unique indices of the newly created vertices */
   newVertexIndices: number[];
 }
 
@@ -840,164 +3387,57 @@ export interface LoopCutResult {
  * Execute a loop cut on a geometry.
  *
  * This creates new vertices at the cut points and splits the affected faces,
- * effectively adding a new edge loop to the mesh.
+ * effectively adding a new edge loop to the mesh. Each face interpolates the
+ * attributes of its own corners, so UV seams along the cut survive.
  *
- * @param geometry - The original BufferGeometry
+ * @param source - The original BufferGeometry or EditableMesh
  * @param loopCutPath - The loop cut path to execute
- * @param _vertices - Vertex data (unused, mapping extracted from geometry)
+ * @param _vertices - Vertex data (unused, positions are read from the mesh)
  * @param _faces - Face data (unused)
  * @returns Result containing the new geometry and new vertex indices
  */
 export function executeLoopCut(
-  geometry: BufferGeometry,
+  source: MeshSource,
   loopCutPath: LoopCutPath,
-  _vertices: VertexData[],
-  _faces: FaceData[]
+  _vertices?: VertexData[],
+  _faces?: FaceData[]
 ): LoopCutResult {
-  const positionAttribute = geometry.getAttribute('position');
-  const indexAttribute = geometry.getIndex();
-
-  if (!positionAttribute) {
-    throw new Error('Geometry has no position attribute');
-  }
+  const mesh = toEditableMesh(source);
 
-  const oldPositions = positionAttribute.array as Float32Array;
-  const oldVertexCount = positionAttribute.count;
-
-  // Build a map from raw buffer index to unique vertex index
-  // This is needed because loopCutPath uses unique vertex indices,
-  // but the geometry uses raw buffer indices
-  const { vertexIndexMap } = extractVerticesWithMappings(geometry);
-
-  // Create new vertices for each cut point
-  const newVertexCount = oldVertexCount + loopCutPath.points.length;
-  const newPositions = new Float32Array(newVertexCount * 3);
-  newPositions.set(oldPositions);
-
-  // Map from edge key (using unique vertex indices) to new vertex buffer index
-  const edgeToNewVertex = new Map<string, number>();
+  // Split every cut edge, remembering the faces that now need splitting
   const newVertexIndices: number[] = [];
-
-  for (let i = 0; i < loopCutPath.points.length; i++) {
-    const point = loopCutPath.points[i];
-    const newIdx = oldVertexCount + i;
-
-    newPositions[newIdx * 3] = point.position[0];
-    newPositions[newIdx * 3 + 1] = point.position[1];
-    newPositions[newIdx * 3 + 2] = point.position[2];
-
-    // Store using unique vertex indices
-    const key = edgeKey(point.edgeVertices[0], point.edgeVertices[1]);
-    edgeToNewVertex.set(key, newIdx);
-    newVertexIndices.push(newIdx);
-  }
-
-  // Build set of cut edges for quick lookup (using unique vertex indices)
-  const cutEdges = new Set<string>();
+  const touchedFaces = new Set<number>();
   for (const point of loopCutPath.points) {
-    cutEdges.add(edgeKey(point.edgeVertices[0], point.edgeVertices[1]));
-  }
-
-  // Process faces - split faces that have cut edges
-  const newIndices: number[] = [];
-
-  const getOldIndices = (): number[] => {
-    if (indexAttribute) {
-      return Array.from(indexAttribute.array);
-    }
-    const result: number[] = [];
-    for (let i = 0; i < oldVertexCount; i++) {
-      result.push(i);
+    const edge = mesh.edges[point.edgeIndex];
+    if (!edge) continue;
+    const t = edge.vertices[0] === point.edgeVertices[0] ? point.t : 1 - point.t;
+    for (const faceIndex of edge.faces) {
+      touchedFaces.add(faceIndex);
     }
-    return result;
-  };
-
-  const oldIndices = getOldIndices();
-
-  // Helper to get unique vertex index from raw buffer index
-  const toUniqueIndex = (rawIndex: number): number => {
-    return vertexIndexMap.get(rawIndex) ?? rawIndex;
-  };
+    newVertexIndices.push(mesh.splitEdge(point.edgeIndex, t, point.position));
+  }
 
-  // Process each triangle
-  for (let i = 0; i < oldIndices.length; i += 3) {
-    const v1 = oldIndices[i];
-    const v2 = oldIndices[i + 1];
-    const v3 = oldIndices[i + 2];
-
-    // Convert to unique vertex indices for edge key lookup
-    const u1 = toUniqueIndex(v1);
-    const u2 = toUniqueIndex(v2);
-    const u3 = toUniqueIndex(v3);
-
-    // Check which edges of this face are cut (using unique indices)
-    const edge1Key = edgeKey(u1, u2);
-    const edge2Key = edgeKey(u2, u3);
-    const edge3Key = edgeKey(u3, u1);
-
-    const edge1Cut = cutEdges.has(edge1Key);
-    const edge2Cut = cutEdges.has(edge2Key);
-    const edge3Cut = cutEdges.has(edge3Key);
-
-    const cutCount = (edge1Cut ? 1 : 0) + (edge2Cut ? 1 : 0) + (edge3Cut ? 1 : 0);
-
-    if (cutCount === 0) {
-      // No cuts, keep original face
-      newIndices.push(v1, v2, v3);
-    } else if (cutCount === 2) {
-      // Two edges cut - split into 3 triangles
-      const newV1 = edge1Cut ? edgeToNewVertex.get(edge1Key)! : -1;
-      const newV2 = edge2Cut ? edgeToNewVertex.get(edge2Key)! : -1;
-      const newV3 = edge3Cut ? edgeToNewVertex.get(edge3Key)! : -1;
-
-      if (edge1Cut && edge2Cut) {
-        // Cuts on v1-v2 and v2-v3
-        // Triangle layout: v1 at top, v2 at bottom-left, v3 at bottom-right
-        // Cut points: newV1 on edge v1-v2, newV2 on edge v2-v3
-        newIndices.push(v1, newV1, v3);
-        newIndices.push(newV1, newV2, v3);
-        newIndices.push(newV1, v2, newV2);
-      } else if (edge2Cut && edge3Cut) {
-        // Cuts on v2-v3 and v3-v1
-        newIndices.push(v1, v2, newV2);
-        newIndices.push(v1, newV2, newV3);
-        newIndices.push(newV2, v3, newV3);
-      } else if (edge1Cut && edge3Cut) {
-        // Cuts on v1-v2 and v3-v1
-        newIndices.push(v2, v3, newV3);
-        newIndices.push(v2, newV3, newV1);
-        newIndices.push(newV1, newV3, v1);
-      }
-    } else if (cutCount === 1) {
-      // One edge cut - split into 2 triangles
-      if (edge1Cut) {
-        const newV = edgeToNewVertex.get(edge1Key)!;
-        newIndices.push(v1, newV, v3);
-        newIndices.push(newV, v2, v3);
-      } else if (edge2Cut) {
-        const newV = edgeToNewVertex.get(edge2Key)!;
-        newIndices.push(v1, v2, newV);
-        newIndices.push(v1, newV, v3);
-      } else {
-        const newV = edgeToNewVertex.get(edge3Key)!;
-        newIndices.push(v1, v2, newV);
-        newIndices.push(newV, v3, v1);
+  // Connect the cut vertices across each face
+  const cutVertices = new Set(newVertexIndices);
+  const pending = Array.from(touchedFaces);
+  while (pending.length > 0) {
+    const faceIndex = pending.pop()!;
+    const cuts = mesh.faces[faceIndex].vertices.filter((v) => cutVertices.has(v));
+
+    let split = false;
+    for (let i = 0; i < cuts.length && !split; i++) {
+      for (let j = i + 1; j < cuts.length && !split; j++) {
+        const newFace = mesh.splitFace(faceIndex, cuts[i], cuts[j]);
+        if (newFace !== -1) {
+          pending.push(faceIndex, newFace);
+          split = true;
+        }
       }
-    } else {
-      // All three edges cut (rare case) - keep original for now
-      newIndices.push(v1, v2, v3);
     }
   }
 
-  // Create new geometry
-  const newGeometry = new BufferGeometry();
-  newGeometry.setAttribute('position', new BufferAttribute(newPositions, 3));
-  newGeometry.setIndex(new BufferAttribute(new Uint32Array(newIndices), 1));
-  newGeometry.computeVertexNormals();
-  newGeometry.computeBoundingSphere();
-
   return {
-    geometry: newGeometry,
+    geometry: mesh.toBufferGeometry(),
     newVertexIndices,
   };
 }
@@ -1006,32 +3446,46 @@ export function executeLoopCut(
  * Result of validating an edge loop.
  */
 export interface EdgeLoopValidation {
-  /** Whether the edges form a valid closed loop */
+  /** Whether the edges form a valid loop */
   isValid: boolean;
   /** Ordered vertex indices forming the loop (if valid) */
   orderedVertices: number[];
+  /** Whether the loop is closed (if valid) */
+  isClosed?: boolean;
   /** Error message if not valid */
   error?: string;
 }
 
+/**
+ * Options for validating an edge loop.
+ */
+export interface EdgeLoopValidationOptions {
+  /** Also accept open chains of edges, ordered from one end to the other @default false */
+  allowOpen?: boolean;
+}
+
 /**
  * Validate that selected edges form a closed loop.
  *
- * Checks if the edges connect end-to-end to form a closed polygon.
+ * Checks if the edges connect end-to-end to form a closed polygon, or with
+ * `allowOpen` an open chain.
  *
  * @param edgeIndices - Array of selected edge indices
  * @param edges - Array of all edges in the geometry
+ * @param options - Validation options
  * @returns Validation result with ordered vertices if valid
  */
 export function validateEdgeLoop(
   edgeIndices: number[],
-  edges: EdgeData[]
+  edges: EdgeData[],
+  options: EdgeLoopValidationOptions = {}
 ): EdgeLoopValidation {
-  if (edgeIndices.length < 3) {
+  const { allowOpen = false } = options;
+  if (edgeIndices.length < (allowOpen ? 1 : 3)) {
     return {
       isValid: false,
       orderedVertices: [],
-      error: 'Need at least 3 edges to form a face',
+      error: allowOpen ? 'Need at least 1 edge to form a loop' : 'Need at least 3 edges to form a face',
     };
   }
 
@@ -1057,9 +3511,13 @@ export function validateEdgeLoop(
     }
   }
 
-  // For a valid loop, each vertex must be connected to exactly 2 edges
+  // For a closed loop, each vertex must be connected to exactly 2 edges.
+  // An open chain has two ends connected to a single edge.
+  const ends: number[] = [];
   for (const [vertex, edgeList] of vertexToEdges) {
-    if (edgeList.length !== 2) {
+    if (edgeList.length === 1 && allowOpen) {
+      ends.push(vertex);
+    } else if (edgeList.length !== 2) {
       return {
         isValid: false,
         orderedVertices: [],
@@ -1067,18 +3525,26 @@ export function validateEdgeLoop(
       };
     }
   }
+  if (ends.length !== 0 && ends.length !== 2) {
+    return {
+      isValid: false,
+      orderedVertices: [],
+      error: 'Edges do not form a single connected loop',
+    };
+  }
+  const isClosed = ends.length === 0;
 
   // Traverse the loop to get ordered vertices
   const orderedVertices: number[] = [];
   const visitedEdges = new Set<number>();
 
-  // Start from first edge
-  let currentEdgeIdx = 0;
-  let currentVertex = selectedEdges[0].vertexIndices[0];
+  // Start from first edge, or from an end of an open chain
+  let currentEdgeIdx = isClosed ? 0 : vertexToEdges.get(ends[0])![0];
+  let currentVertex = isClosed ? selectedEdges[0].vertexIndices[0] : ends[0];
   orderedVertices.push(currentVertex);
   visitedEdges.add(currentEdgeIdx);
 
-  while (visitedEdges.size < selectedEdges.length) {
+  while (visitedEdges.size <= selectedEdges.length) {
     const currentEdge = selectedEdges[currentEdgeIdx];
     // Get the other vertex of this edge
     const nextVertex =
@@ -1093,7 +3559,7 @@ export function validateEdgeLoop(
     const nextEdgeIdx = connectedEdges.find((idx) => !visitedEdges.has(idx));
 
     if (nextEdgeIdx === undefined) {
-      // Should close the loop
+      // Should close the loop, or reach the other end
       break;
     }
 
@@ -1122,6 +3588,7 @@ export function validateEdgeLoop(
   return {
     isValid: true,
     orderedVertices,
+    isClosed,
   };
 }
 
@@ -1131,90 +3598,86 @@ export function validateEdgeLoop(
 export interface CreateFaceResult {
   /** The new geometry with the face added */
   geometry: BufferGeometry;
-  /** Index of the newly created face (first triangle if polygon was triangulated) */
+  /** Index of the newly created polygon face (the first one when filling around holes) */
   newFaceIndex: number;
+  /** Indices of all faces created */
+  newFaceIndices: number[];
 }
 
 /**
  * Create a face from a closed edge loop.
  *
- * Takes the ordered vertices from a valid edge loop and creates triangular
- * faces to fill the polygon. Uses ear clipping for triangulation of
- * polygons with more than 3 vertices.
+ * Takes the ordered vertices from a valid edge loop and creates a single
+ * polygon face; it is only triangulated when written back to the buffer,
+ * by ear clipping on its best-fit plane so concave loops fill correctly.
+ * With holes, the area between the outer loop and the hole loops is filled
+ * with triangles instead, since a polygon face cannot have holes. The
+ * winding is chosen to match the faces already on the loops. Corner
+ * attributes are copied from neighbouring faces and the face takes the
+ * material of a face sharing its first vertex.
  *
- * @param geometry - The original BufferGeometry
+ * @param source - The original BufferGeometry or EditableMesh
  * @param orderedVertices - Ordered vertex indices forming the closed loop
- * @param vertices - Vertex data for position lookup
+ * @param _vertices - Vertex data (unused, positions are read from the mesh)
+ * @param holes - Ordered vertex indices of loops inside the outer loop to leave open
  * @returns Result containing the new geometry and new face index
  */
 export function createFaceFromEdgeLoop(
-  geometry: BufferGeometry,
+  source: MeshSource,
   orderedVertices: number[],
-  vertices: VertexData[]
+  _vertices?: VertexData[],
+  holes: number[][] = []
 ): CreateFaceResult {
-  const positionAttribute = geometry.getAttribute('position');
-  const indexAttribute = geometry.getIndex();
+  const mesh = toEditableMesh(source);
 
-  if (!positionAttribute) {
-    throw new Error('Geometry has no position attribute');
+  const loops = [orderedVertices, ...holes];
+  if (loops.some((loop) => loop.length < 3 || loop.some((v) => !mesh.vertices[v]))) {
+    throw new Error('Edge loop must reference at least 3 existing vertices');
   }
 
-  // Get existing indices
-  const oldIndices: number[] = indexAttribute
-    ? Array.from(indexAttribute.array)
-    : [];
-
-  // Get buffer indices for each unique vertex
-  const getBufferIndex = (uniqueIdx: number): number => {
-    const vertex = vertices[uniqueIdx];
-    if (vertex?.originalIndices && vertex.originalIndices.length > 0) {
-      return vertex.originalIndices[0];
-    }
-    return uniqueIdx;
-  };
-
-  // Triangulate the polygon
-  // For 3 vertices: single triangle
-  // For 4+ vertices: use fan triangulation (simple but works for convex polygons)
-  const newTriangles: number[] = [];
-
-  if (orderedVertices.length === 3) {
-    // Simple triangle
-    newTriangles.push(
-      getBufferIndex(orderedVertices[0]),
-      getBufferIndex(orderedVertices[1]),
-      getBufferIndex(orderedVertices[2])
-    );
-  } else if (orderedVertices.length >= 4) {
-    // Fan triangulation from first vertex
-    // This works well for convex polygons
-    const v0 = getBufferIndex(orderedVertices[0]);
-    for (let i = 1; i < orderedVertices.length - 1; i++) {
-      const v1 = getBufferIndex(orderedVertices[i]);
-      const v2 = getBufferIndex(orderedVertices[i + 1]);
-      newTriangles.push(v0, v1, v2);
-    }
+  const [anchor] = orderedVertices;
+  const neighbour = mesh.getVertexFaces(anchor)[0];
+  const { materialIndex, smooth } =
+    neighbour !== undefined ? faceProperties(mesh.faces[neighbour]) : { materialIndex: 0, smooth: true };
+
+  // The fill polygons, as the outer loop or as triangles between the loops
+  const allVertices = loops.flat();
+  const position = (v: number) => mesh.vertices[v].position;
+  let polygons =
+    holes.length === 0
+      ? [orderedVertices]
+      : triangulatePolygon(
+          orderedVertices.map(position),
+          holes.map((hole) => hole.map(position))
+        ).map((triangle) => triangle.map((i) => allVertices[i]));
+
+  // Run against the faces already on the loop edges
+  let agreeing = 0;
+  for (const polygon of polygons) {
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      const edgeIndex = mesh.findEdge(a, b);
+      if (edgeIndex === -1) return;
+      for (const f of mesh.edges[edgeIndex].faces) {
+        agreeing += edgeDirectionInFace(mesh, edgeIndex, f)[0] === a ? 1 : -1;
+      }
+    });
   }
-
-  // Combine old and new indices
-  const newIndices = [...oldIndices, ...newTriangles];
-
-  // Create new geometry
-  const newGeometry = new BufferGeometry();
-  newGeometry.setAttribute(
-    'position',
-    new BufferAttribute(positionAttribute.array.slice() as Float32Array, 3)
+  if (agreeing > 0) polygons = polygons.map((polygon) => [...polygon].reverse());
+
+  const newFaceIndices = polygons.map((polygon) =>
+    mesh.addFace(
+      polygon,
+      polygon.map((v) => mesh.sampleVertexLoop(v)),
+      materialIndex,
+      smooth
+    )
   );
-  newGeometry.setIndex(new BufferAttribute(new Uint32Array(newIndices), 1));
-  newGeometry.computeVertexNormals();
-  newGeometry.computeBoundingSphere();
-
-  // The new face index is the first new triangle
-  const newFaceIndex = oldIndices.length / 3;
 
   return {
-    geometry: newGeometry,
-    newFaceIndex,
+    geometry: mesh.toBufferGeometry(),
+    newFaceIndex: newFaceIndices[0],
+    newFaceIndices,
   };
 }
 
@@ -1229,24 +3692,443 @@ export function faceExistsForVertices(
   orderedVertices: number[],
   faces: FaceData[]
 ): boolean {
-  if (orderedVertices.length !== 3) {
-    // For polygons with more than 3 vertices, check if all triangulated
-    // faces would already exist (simplified check)
-    return false;
-  }
-
   const sortedTarget = [...orderedVertices].sort((a, b) => a - b);
 
   for (const face of faces) {
+    if (face.vertexIndices.length !== sortedTarget.length) continue;
     const sortedFace = [...face.vertexIndices].sort((a, b) => a - b);
-    if (
-      sortedFace[0] === sortedTarget[0] &&
-      sortedFace[1] === sortedTarget[1] &&
-      sortedFace[2] === sortedTarget[2]
-    ) {
+    if (sortedFace.every((v, i) => v === sortedTarget[i])) {
       return true;
     }
   }
 
   return false;
 }
+
+/**
+ * Options for bridging edge loops.
+ */
+export interface BridgeOptions {
+  /** Number of face rows between the loops @default 1 */
+  segments?: number;
+  /** Extra rotation of the second loop's start vertex, in vertices (closed loops only) @default 0 */
+  twist?: number;
+}
+
+/**
+ * Result of bridging edge loops.
+ */
+export interface BridgeResult {
+  /** The new geometry with the bridge added */
+  geometry: BufferGeometry;
+  /** Indices of the bridge faces */
+  newFaceIndices: number[];
+  /** Indices of the vertices created between the loops */
+  newVertexIndices: number[];
+}
+
+/**
+ * Order the vertices of an edge loop, throwing when the edges do not form one.
+ * @internal
+ */
+function orderBridgeLoop(mesh: EditableMesh, edgeIndices: number[]): { vertices: number[]; closed: boolean } {
+  const validation = validateEdgeLoop(edgeIndices, mesh.getEdgeData(), { allowOpen: true });
+  if (!validation.isValid) {
+    throw new Error(`Invalid edge loop: ${validation.error}`);
+  }
+  return { vertices: validation.orderedVertices, closed: validation.isClosed ?? true };
+}
+
+/**
+ * How an existing face runs along a loop: 1 when one of its faces traverses
+ * the loop in order, -1 when against it, 0 when the loop has no faces.
+ * @internal
+ */
+function loopFaceWinding(mesh: EditableMesh, vertices: number[], closed: boolean): number {
+  let winding = 0;
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    for (const f of mesh.edges[mesh.findEdge(a, b)].faces) {
+      const [from] = edgeDirectionInFace(mesh, mesh.findEdge(a, b), f);
+      winding += from === a ? 1 : -1;
+    }
+  }
+  return Math.sign(winding);
+}
+
+/**
+ * Arc-length parameters of a loop's vertices from 0 to 1, with the closing
+ * vertex of a closed loop at 1.
+ * @internal
+ */
+function loopParameters(points: Vector3[], closed: boolean): number[] {
+  const lengths = [0];
+  const count = closed ? points.length : points.length - 1;
+  for (let i = 0; i < count; i++) {
+    lengths.push(lengths[i] + points[i].distanceTo(points[(i + 1) % points.length]));
+  }
+  const total = lengths[lengths.length - 1] || 1;
+  return lengths.map((l) => l / total);
+}
+
+/**
+ * Point on a loop at an arc-length parameter.
+ * @internal
+ */
+function pointOnLoop(points: Vector3[], parameters: number[], t: number): Vector3 {
+  for (let i = 1; i < parameters.length; i++) {
+    if (t > parameters[i] && i < parameters.length - 1) continue;
+    const span = parameters[i] - parameters[i - 1] || 1;
+    const local = Math.min(Math.max((t - parameters[i - 1]) / span, 0), 1);
+    return points[i - 1].clone().lerp(points[i % points.length], local);
+  }
+  return points[0].clone();
+}
+
+/**
+ * Connect two edge loops with a strip of faces.
+ *
+ * Both loops must be closed or both open. Their vertex counts may differ:
+ * vertices are matched by distance along the loops, with triangles taking
+ * up the difference. The second loop's direction follows the winding of the
+ * faces already on the loops (or their shape when they have none), and for
+ * closed loops the start vertex is the one lining the loops up best, offset
+ * by `twist`. An EditableMesh is edited in place; a BufferGeometry is left
+ * untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param loopA - Edge indices of the first loop
+ * @param loopB - Edge indices of the second loop
+ * @param options - Bridge options
+ * @returns Result containing the new geometry and the bridge faces
+ */
+export function bridgeEdgeLoops(
+  source: MeshSource,
+  loopA: number[],
+  loopB: number[],
+  options: BridgeOptions = {}
+): BridgeResult {
+  const mesh = toEditableMesh(source);
+  const segments = Math.max(1, Math.floor(options.segments ?? 1));
+  const twist = Math.round(options.twist ?? 0);
+
+  const a = orderBridgeLoop(mesh, loopA);
+  const b = orderBridgeLoop(mesh, loopB);
+  if (a.closed !== b.closed) {
+    throw new Error('Cannot bridge a closed edge loop with an open one');
+  }
+  if (a.vertices.some((v) => b.vertices.includes(v))) {
+    throw new Error('Edge loops to bridge must not share vertices');
+  }
+  const closed = a.closed;
+
+  // Bridge faces run against the faces already on loop A and along the
+  // faces already on loop B
+  const windingA = loopFaceWinding(mesh, a.vertices, closed);
+  const windingB = loopFaceWinding(mesh, b.vertices, closed);
+  let loopAVertices = windingA > 0 ? [...a.vertices].reverse() : a.vertices;
+  let loopBVertices = windingB < 0 ? [...b.vertices].reverse() : b.vertices;
+  const toPoints = (vertices: number[]) => vertices.map((v) => new Vector3(...mesh.vertices[v].position));
+
+  // Line up the loops by shape: closed loops relative to their centres
+  const centred = (points: Vector3[]) => {
+    if (!closed) return points;
+    const center = points.reduce((sum, p) => sum.add(p), new Vector3()).divideScalar(points.length);
+    return points.map((p) => p.clone().sub(center));
+  };
+  const alignmentCost = (vertices: number[]) => {
+    const pointsA = centred(toPoints(loopAVertices));
+    const pointsB = centred(toPoints(vertices));
+    const parametersA = loopParameters(pointsA, closed);
+    const parametersB = loopParameters(pointsB, closed);
+    return pointsA.reduce((sum, p, i) => sum + p.distanceTo(pointOnLoop(pointsB, parametersB, parametersA[i])), 0);
+  };
+  const rotations = (vertices: number[]) =>
+    closed ? vertices.map((_, k) => [...vertices.slice(k), ...vertices.slice(0, k)]) : [vertices];
+  const best = (candidates: number[][]) =>
+    candidates.reduce((bestSoFar, candidate) =>
+      alignmentCost(candidate) < alignmentCost(bestSoFar) ? candidate : bestSoFar
+    );
+
+  if (windingA === 0 && windingB !== 0) {
+    // Only loop B has faces: fit loop A's direction to it
+    const aligned = [loopAVertices, [...loopAVertices].reverse()].map((candidateA) => {
+      loopAVertices = candidateA;
+      const candidateB = best(rotations(loopBVertices));
+      return { candidateA, candidateB, cost: alignmentCost(candidateB) };
+    });
+    const choice = aligned[0].cost <= aligned[1].cost ? aligned[0] : aligned[1];
+    loopAVertices = choice.candidateA;
+    loopBVertices = choice.candidateB;
+  } else {
+    const candidates = rotations(loopBVertices);
+    if (windingB === 0) candidates.push(...rotations([...loopBVertices].reverse()));
+    loopBVertices = best(candidates);
+  }
+  if (closed && twist !== 0) {
+    const k = ((twist % loopBVertices.length) + loopBVertices.length) % loopBVertices.length;
+    loopBVertices = [...loopBVertices.slice(k), ...loopBVertices.slice(0, k)];
+  }
+
+  // Walk both loops together, advancing the one whose next vertex is
+  // closest in parameter, or both for a quad
+  const parametersA = loopParameters(toPoints(loopAVertices), closed);
+  const parametersB = loopParameters(toPoints(loopBVertices), closed);
+  const stepsA = parametersA.length - 1;
+  const stepsB = parametersB.length - 1;
+  const states: Array<[number, number]> = [[0, 0]];
+  let i = 0;
+  let j = 0;
+  while (i < stepsA || j < stepsB) {
+    const moves: Array<[number, number]> = [];
+    if (i < stepsA && j < stepsB) moves.push([i + 1, j + 1]);
+    if (i < stepsA) moves.push([i + 1, j]);
+    if (j < stepsB) moves.push([i, j + 1]);
+    [i, j] = moves.reduce((bestOption, option) =>
+      Math.abs(parametersA[option[0]] - parametersB[option[1]]) <
+      Math.abs(parametersA[bestOption[0]] - parametersB[bestOption[1]]) - 1e-9
+        ? option
+        : bestOption
+    );
+    states.push([i, j]);
+  }
+
+  // Rails from loop A to loop B, one per walk state, with shared ends
+  const vertexA = (index: number) => loopAVertices[index % loopAVertices.length];
+  const vertexB = (index: number) => loopBVertices[index % loopBVertices.length];
+  const newVertexIndices: number[] = [];
+  const rails = new Map<string, number[]>();
+  const railOf = ([ri, rj]: [number, number]) => {
+    const key = `${ri % loopAVertices.length},${rj % loopBVertices.length}`;
+    let rail = rails.get(key);
+    if (!rail) {
+      const start = new Vector3(...mesh.vertices[vertexA(ri)].position);
+      const end = new Vector3(...mesh.vertices[vertexB(rj)].position);
+      rail = [vertexA(ri)];
+      for (let s = 1; s < segments; s++) {
+        const vertex = mesh.addVertex(start.clone().lerp(end, s / segments).toArray());
+        newVertexIndices.push(vertex);
+        rail.push(vertex);
+      }
+      rail.push(vertexB(rj));
+      rails.set(key, rail);
+    }
+    return rail;
+  };
+
+  const sampleLoop = (v: number) => mesh.sampleVertexLoop(v);
+  const materialFace = mesh.getVertexFaces(loopAVertices[0])[0] ?? mesh.getVertexFaces(loopBVertices[0])[0];
+  const { materialIndex, smooth } =
+    materialFace !== undefined ? faceProperties(mesh.faces[materialFace]) : { materialIndex: 0, smooth: true };
+  const newFaceIndices: number[] = [];
+  for (let k = 0; k < states.length - 1; k++) {
+    const from = railOf(states[k]);
+    const to = railOf(states[k + 1]);
+    for (let s = 0; s < segments; s++) {
+      const corners = dedupeLoop(
+        [from[s], to[s], to[s + 1], from[s + 1]].map((vertex) => ({ vertex }))
+      ).map(({ vertex }) => vertex);
+      if (corners.length < 3) continue;
+      newFaceIndices.push(mesh.addFace(corners, corners.map(sampleLoop), materialIndex, smooth));
+    }
+  }
+
+  return {
+    geometry: mesh.toBufferGeometry(),
+    newFaceIndices,
+    newVertexIndices,
+  };
+}
+
+/**
+ * Result of flipping or recalculating face normals.
+ */
+export interface FlipFacesResult {
+  /** The new geometry with the faces rewound */
+  geometry: BufferGeometry;
+  /** Indices of the faces whose winding was reversed */
+  flippedFaceIndices: number[];
+}
+
+/**
+ * Options for {@link recalculateNormals}.
+ */
+export interface RecalculateNormalsOptions {
+  /** Point the normals into the enclosed volume instead of out of it @default false */
+  inside?: boolean;
+  /** Faces to reorient; orientation only spreads between these faces (all faces if omitted) */
+  faceIndices?: number[];
+}
+
+/**
+ * Reverse the winding of faces, flipping their normals.
+ *
+ * Indices are unchanged. An EditableMesh is edited in place; a
+ * BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param faceIndices - Indices of the faces to flip
+ * @returns Result containing the new geometry and the flipped faces
+ */
+export function flipFaces(source: MeshSource, faceIndices: number[]): FlipFacesResult {
+  const mesh = toEditableMesh(source);
+  assertIndices(faceIndices, mesh.faces.length, 'Face');
+  const flippedFaceIndices = Array.from(new Set(faceIndices));
+  flippedFaceIndices.forEach((f) => mesh.flipFace(f));
+  return { geometry: mesh.toBufferGeometry(), flippedFaceIndices };
+}
+
+/**
+ * Make face windings consistent and point the normals outwards.
+ *
+ * Within each connected group of faces, orientation spreads from face to
+ * face so that neighbours run along their shared edges in opposite
+ * directions. Each group then faces out of the volume it encloses, measured
+ * by its signed volume (or into it with `inside`). Groups enclosing no
+ * volume, such as flat patches, keep the orientation most of their area
+ * already has. An EditableMesh is edited in place; a BufferGeometry is left
+ * untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param options - Which way to point the normals and which faces to reorient
+ * @returns Result containing the new geometry and the flipped faces
+ */
+export function recalculateNormals(
+  source: MeshSource,
+  options: RecalculateNormalsOptions = {}
+): FlipFacesResult {
+  const mesh = toEditableMesh(source);
+  const faceIndices = options.faceIndices ?? mesh.faces.map((_, i) => i);
+  assertIndices(faceIndices, mesh.faces.length, 'Face');
+  const included = new Set(faceIndices);
+
+  // Whether each face must be flipped to agree with its group's first face
+  const flipped = new Map<number, boolean>();
+  const runsForward = (e: number, f: number) =>
+    edgeDirectionInFace(mesh, e, f)[0] === mesh.edges[e].vertices[0];
+  const flippedFaceIndices: number[] = [];
+
+  for (const start of included) {
+    if (flipped.has(start)) continue;
+    flipped.set(start, false);
+    const group = [start];
+    for (let i = 0; i < group.length; i++) {
+      const f = group[i];
+      for (const e of mesh.faces[f].edges) {
+        for (const g of mesh.edges[e].faces) {
+          if (g === f || !included.has(g) || flipped.has(g)) continue;
+          flipped.set(g, flipped.get(f) !== (runsForward(e, f) === runsForward(e, g)));
+          group.push(g);
+        }
+      }
+    }
+
+    // Signed volume around the group's centroid, and area on each side
+    const center = new Vector3();
+    let cornerCount = 0;
+    for (const f of group) {
+      for (const v of mesh.faces[f].vertices) {
+        center.add(new Vector3(...mesh.vertices[v].position));
+        cornerCount++;
+      }
+    }
+    center.divideScalar(cornerCount);
+    const bounds = new Box3();
+    let volume = 0;
+    let keptArea = 0;
+    let flippedArea = 0;
+    for (const f of group) {
+      const points = mesh.faces[f].vertices.map((v) =>
+        new Vector3(...mesh.vertices[v].position).sub(center)
+      );
+      points.forEach((p) => bounds.expandByPoint(p));
+      let faceVolume = 0;
+      const areaVector = new Vector3();
+      for (let i = 1; i < points.length - 1; i++) {
+        const cross = points[i].clone().sub(points[0]).cross(points[i + 1].clone().sub(points[0]));
+        areaVector.add(cross);
+        faceVolume += points[0].dot(cross) / 6;
+      }
+      const area = areaVector.length() / 2;
+      if (flipped.get(f)) {
+        volume -= faceVolume;
+        flippedArea += area;
+      } else {
+        volume += faceVolume;
+        keptArea += area;
+      }
+    }
+
+    const size = bounds.getSize(new Vector3()).length();
+    const enclosesVolume = Math.abs(volume) > size ** 3 * 1e-9;
+    const flipGroup = enclosesVolume ? volume < 0 !== !!options.inside : flippedArea > keptArea;
+    for (const f of group) {
+      if (flipped.get(f) !== flipGroup) {
+        mesh.flipFace(f);
+        flippedFaceIndices.push(f);
+      }
+    }
+  }
+
+  return { geometry: mesh.toBufferGeometry(), flippedFaceIndices };
+}
+
+/**
+ * Shade faces smooth or flat.
+ *
+ * Smooth faces share averaged normals with the smooth faces around them,
+ * stopping at sharp edges; flat faces use their own face normal. Indices
+ * are unchanged. An EditableMesh is edited in place; a BufferGeometry is
+ * left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param faceIndices - Indices of the faces to shade
+ * @param smooth - Whether to shade the faces smooth
+ * @returns The new geometry with split normals
+ */
+export function setFacesSmooth(source: MeshSource, faceIndices: number[], smooth: boolean): BufferGeometry {
+  const mesh = toEditableMesh(source);
+  assertIndices(faceIndices, mesh.faces.length, 'Face');
+  for (const f of faceIndices) mesh.faces[f].smooth = smooth;
+  return mesh.toBufferGeometry();
+}
+
+/**
+ * Mark edges sharp, or clear the mark. Smooth shading does not cross a
+ * sharp edge, so it shows as a hard edge between smooth faces.
+ *
+ * Indices are unchanged. An EditableMesh is edited in place; a
+ * BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param edgeIndices - Indices of the edges to mark
+ * @param sharp - Whether the edges are sharp
+ * @returns The new geometry with split normals
+ */
+export function markEdgesSharp(source: MeshSource, edgeIndices: number[], sharp = true): BufferGeometry {
+  const mesh = toEditableMesh(source);
+  assertIndices(edgeIndices, mesh.edges.length, 'Edge');
+  for (const e of edgeIndices) mesh.edges[e].sharp = sharp;
+  return mesh.toBufferGeometry();
+}
+
+/**
+ * Set the auto smooth angle: smooth faces meeting at a sharper angle than
+ * this are shaded with a hard edge between them, as if it were marked sharp.
+ *
+ * An EditableMesh is edited in place; a BufferGeometry is left untouched.
+ *
+ * @param source - The original BufferGeometry or EditableMesh
+ * @param angle - Angle in degrees, or null to disable auto smooth
+ * @returns The new geometry with split normals
+ */
+export function setAutoSmooth(source: MeshSource, angle: number | null): BufferGeometry {
+  const mesh = toEditableMesh(source);
+  if (angle !== null && !(angle >= 0 && angle <= 180)) {
+    throw new Error('Auto smooth angle must be between 0 and 180 degrees');
+  }
+  mesh.autoSmoothAngle = angle;
+  return mesh.toBufferGeometry();
+}
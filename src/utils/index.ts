@@ -1 +1,33 @@
 export * from './geometry';
+export { triangulatePolygon, polygonNormal } from './triangulate';
+export {
+  selectInShape,
+  combineSelection,
+  convertSelection,
+  findLinked,
+  findEdgeLoop,
+  findEdgeRing,
+  findFaceLoop,
+  growSelection,
+  shrinkSelection,
+  invertSelection,
+  randomSelection,
+  nthSelection,
+  findSimilar,
+} from './selection';
+export type { SelectionShape, ShapeSelectionOptions, SimilarCriterion } from './selection';
+export { computeProportionalWeights, falloffWeight } from './proportional';
+export { snapPoint, snapRotation, snapScale } from './snapping';
+export type { SnapResult } from './snapping';
+export { getSelectionCenter, getPivotPoint, getPivotGroups, getOrientationBasis } from './transform';
+export type { PivotOptions, PivotGroup } from './transform';
+export { EditableMesh } from './editableMesh';
+export type {
+  LoopAttributes,
+  MeshAttributeLayout,
+  MeshVertex,
+  MeshEdge,
+  MeshFace,
+  MeshIndexRemap,
+  EditableMeshOptions,
+} from './editableMesh';
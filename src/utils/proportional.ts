@@ -0,0 +1,170 @@
+import type { ProportionalEditOptions, ProportionalFalloff } from '../types';
+import type { EditableMesh } from './editableMesh';
+
+/**
+ * Deterministic random value in [0, 1) for a vertex, so a vertex keeps its
+ * random falloff for the whole drag.
+ * @internal
+ */
+function hashRandom(index: number, seed: number): number {
+  let t = (Math.imul(index, 0x9e3779b1) ^ Math.imul(seed, 0x85ebca6b)) >>> 0;
+  t = Math.imul(t ^ (t >>> 16), 0x7feb352d);
+  t = Math.imul(t ^ (t >>> 15), 0x846ca68b);
+  return ((t ^ (t >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * Weight of a falloff curve, from 1 at the selection to 0 at the radius.
+ *
+ * @param falloff - The falloff curve
+ * @param t - Closeness, 1 at the selection and 0 at the radius
+ * @param random - Random factor for the `'random'` curve
+ * @returns Weight between 0 and 1
+ */
+export function falloffWeight(falloff: ProportionalFalloff, t: number, random = 1): number {
+  const x = Math.min(1, Math.max(0, t));
+  switch (falloff) {
+    case 'smooth':
+      return x * x * (3 - 2 * x);
+    case 'sphere':
+      return Math.sqrt(x * (2 - x));
+    case 'linear':
+      return x;
+    case 'sharp':
+      return x * x;
+    case 'constant':
+      return 1;
+    case 'random':
+      return x * random;
+  }
+}
+
+/**
+ * Straight-line distance to the nearest source vertex, for vertices within
+ * the radius.
+ * @internal
+ */
+function euclideanDistances(mesh: EditableMesh, sources: number[], radius: number): Map<number, number> {
+  const distances = new Map<number, number>();
+  const sourcePositions = sources.map((index) => mesh.vertices[index].position);
+  mesh.vertices.forEach((vertex, index) => {
+    let nearest = Infinity;
+    for (const p of sourcePositions) {
+      const dx = vertex.position[0] - p[0];
+      const dy = vertex.position[1] - p[1];
+      const dz = vertex.position[2] - p[2];
+      nearest = Math.min(nearest, dx * dx + dy * dy + dz * dz);
+    }
+    const distance = Math.sqrt(nearest);
+    if (distance < radius) distances.set(index, distance);
+  });
+  return distances;
+}
+
+/**
+ * Shortest distance along edges to the nearest source vertex, for vertices
+ * within the radius (multi-source Dijkstra).
+ * @internal
+ */
+function geodesicDistances(mesh: EditableMesh, sources: number[], radius: number): Map<number, number> {
+  const distances = new Map<number, number>();
+  const heap: Array<[number, number]> = [];
+
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  for (const index of sources) {
+    distances.set(index, 0);
+    push([0, index]);
+  }
+
+  while (heap.length > 0) {
+    const [distance, index] = pop();
+    if (distance > distances.get(index)!) continue;
+    const p = mesh.vertices[index].position;
+    for (const neighbor of mesh.getVertexNeighbors(index)) {
+      const q = mesh.vertices[neighbor].position;
+      const next = distance + Math.hypot(q[0] - p[0], q[1] - p[1], q[2] - p[2]);
+      if (next >= radius || next >= (distances.get(neighbor) ?? Infinity)) continue;
+      distances.set(neighbor, next);
+      push([next, neighbor]);
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Compute how strongly unselected vertices follow a transform of the given
+ * vertices under proportional editing.
+ *
+ * Vertices closer than the radius to any of the given vertices get a
+ * weight from the falloff curve. With `connectedOnly`, distance is measured
+ * along edges, so vertices of disconnected parts or across a gap are not
+ * affected.
+ *
+ * @param mesh - The editable mesh
+ * @param vertexIndices - Indices of the transformed vertices
+ * @param options - Radius, falloff and connectivity
+ * @returns Map from unselected vertex index to weight in (0, 1]
+ *
+ * @example
+ * ```ts
+ * const weights = computeProportionalWeights(mesh, [4], { radius: 1, falloff: 'sphere' });
+ * moveVertices(mesh, [4], [0, 0.5, 0], undefined, weights);
+ * ```
+ */
+export function computeProportionalWeights(
+  mesh: EditableMesh,
+  vertexIndices: Iterable<number>,
+  options: ProportionalEditOptions
+): Map<number, number> {
+  const { radius, falloff = 'smooth', connectedOnly = false, seed = 0 } = options;
+  if (!(radius >= 0)) {
+    throw new Error('Proportional editing radius must not be negative');
+  }
+
+  const selected = new Set(Array.from(vertexIndices).filter((index) => mesh.vertices[index]));
+  const weights = new Map<number, number>();
+  if (selected.size === 0 || radius === 0) return weights;
+
+  const sources = Array.from(selected);
+  const distances = connectedOnly
+    ? geodesicDistances(mesh, sources, radius)
+    : euclideanDistances(mesh, sources, radius);
+
+  for (const [index, distance] of distances) {
+    if (selected.has(index)) continue;
+    const weight = falloffWeight(falloff, 1 - distance / radius, hashRandom(index, seed));
+    if (weight > 0) weights.set(index, weight);
+  }
+  return weights;
+}
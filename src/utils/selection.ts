@@ -0,0 +1,738 @@
+import { Matrix4, Raycaster, Vector2, Vector3, type Camera, type Object3D } from 'three';
+import type { EditMode, SelectionOperation } from '../types';
+import type { EditableMesh } from './editableMesh';
+
+/**
+ * A screen-space selection shape, in CSS pixels from the top-left corner of
+ * the canvas.
+ * - `'box'`: Rectangle spanned by two corners
+ * - `'circle'`: Brush of a radius around a center
+ * - `'lasso'`: Freehand polygon through the given points
+ */
+export type SelectionShape =
+  | { type: 'box'; start: [number, number]; end: [number, number] }
+  | { type: 'circle'; center: [number, number]; radius: number }
+  | { type: 'lasso'; points: Array<[number, number]> };
+
+/**
+ * Options for selecting mesh elements inside a screen-space shape.
+ */
+export interface ShapeSelectionOptions {
+  /** Camera the shape was drawn through */
+  camera: Camera;
+  /** Size of the canvas in CSS pixels */
+  size: { width: number; height: number };
+  /** World matrix of the edited mesh @default identity */
+  matrixWorld?: Matrix4;
+  /**
+   * Surface hiding elements behind it, usually a mesh of the edited
+   * geometry. When omitted, elements are selected through the mesh.
+   */
+  occluder?: Object3D;
+}
+
+/**
+ * Whether a point lies inside a shape.
+ * @internal
+ */
+function shapeContains(shape: SelectionShape, [x, y]: [number, number]): boolean {
+  if (shape.type === 'box') {
+    return (
+      x >= Math.min(shape.start[0], shape.end[0]) &&
+      x <= Math.max(shape.start[0], shape.end[0]) &&
+      y >= Math.min(shape.start[1], shape.end[1]) &&
+      y <= Math.max(shape.start[1], shape.end[1])
+    );
+  }
+  if (shape.type === 'circle') {
+    return Math.hypot(x - shape.center[0], y - shape.center[1]) <= shape.radius;
+  }
+  // Even-odd rule
+  let inside = false;
+  const points = shape.points;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether two screen segments cross.
+ * @internal
+ */
+function segmentsCross(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number],
+  d: [number, number]
+): boolean {
+  const side = (p: [number, number], q: [number, number], r: [number, number]) =>
+    (q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]);
+  const d1 = side(c, d, a);
+  const d2 = side(c, d, b);
+  const d3 = side(a, b, c);
+  const d4 = side(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+/**
+ * Whether a screen segment touches a shape.
+ * @internal
+ */
+function shapeTouchesSegment(shape: SelectionShape, a: [number, number], b: [number, number]): boolean {
+  if (shapeContains(shape, a) || shapeContains(shape, b)) return true;
+  if (shape.type === 'circle') {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((shape.center[0] - a[0]) * dx + (shape.center[1] - a[1]) * dy) / lengthSq));
+    return Math.hypot(a[0] + dx * t - shape.center[0], a[1] + dy * t - shape.center[1]) <= shape.radius;
+  }
+  const outline: Array<[number, number]> =
+    shape.type === 'box'
+      ? [
+          [shape.start[0], shape.start[1]],
+          [shape.end[0], shape.start[1]],
+          [shape.end[0], shape.end[1]],
+          [shape.start[0], shape.end[1]],
+        ]
+      : shape.points;
+  return outline.some((p, i) => segmentsCross(a, b, p, outline[(i + 1) % outline.length]));
+}
+
+/**
+ * Select the vertices, edges or faces of a mesh that fall inside a
+ * screen-space shape.
+ *
+ * Vertices are selected when their projection is inside the shape, and faces
+ * when their center is. In edge mode, box and lasso select edges lying fully
+ * inside the shape, or the edges crossing it when none do; the circle brush
+ * selects every edge it touches. Elements behind the camera are ignored.
+ *
+ * With an `occluder`, only elements visible from the camera are selected:
+ * vertices, edge midpoints and face centers hidden behind the occluder's
+ * surface are skipped.
+ *
+ * @param mesh - The mesh to select from
+ * @param editMode - Which kind of element to select
+ * @param shape - The shape drawn on screen
+ * @param options - Camera, canvas size and occlusion
+ * @returns Indices of the selected elements
+ */
+export function selectInShape(
+  mesh: EditableMesh,
+  editMode: EditMode,
+  shape: SelectionShape,
+  options: ShapeSelectionOptions
+): number[] {
+  const { camera, size, matrixWorld = new Matrix4(), occluder } = options;
+  const raycaster = new Raycaster();
+
+  const toWorld = (position: [number, number, number]) => new Vector3(...position).applyMatrix4(matrixWorld);
+  const toScreen = (world: Vector3): [number, number] | null => {
+    const ndc = world.clone().project(camera);
+    if (ndc.z < -1 || ndc.z > 1) return null;
+    return [((ndc.x + 1) / 2) * size.width, ((1 - ndc.y) / 2) * size.height];
+  };
+  const isVisible = (world: Vector3): boolean => {
+    if (!occluder) return true;
+    const ndc = world.clone().project(camera);
+    raycaster.setFromCamera(new Vector2(ndc.x, ndc.y), camera);
+    const distance = raycaster.ray.origin.distanceTo(world);
+    const hit = raycaster.intersectObject(occluder, true)[0];
+    return !hit || hit.distance >= distance - Math.max(1e-4, distance * 1e-3);
+  };
+
+  const worldPositions = mesh.vertices.map((v) => toWorld(v.position));
+  const screenPositions = worldPositions.map(toScreen);
+
+  if (editMode === 'vertex') {
+    const selected: number[] = [];
+    screenPositions.forEach((point, i) => {
+      if (point && shapeContains(shape, point) && isVisible(worldPositions[i])) selected.push(i);
+    });
+    return selected;
+  }
+
+  if (editMode === 'edge') {
+    const inside: number[] = [];
+    const touching: number[] = [];
+    mesh.edges.forEach((edge, i) => {
+      const a = screenPositions[edge.vertices[0]];
+      const b = screenPositions[edge.vertices[1]];
+      if (!a || !b) return;
+      if (shape.type !== 'circle' && shapeContains(shape, a) && shapeContains(shape, b)) {
+        inside.push(i);
+      } else if (shapeTouchesSegment(shape, a, b)) {
+        touching.push(i);
+      }
+    });
+    const candidates = shape.type === 'circle' || inside.length === 0 ? touching : inside;
+    return candidates.filter((i) => {
+      const [a, b] = mesh.edges[i].vertices;
+      return isVisible(worldPositions[a].clone().add(worldPositions[b]).multiplyScalar(0.5));
+    });
+  }
+
+  const selected: number[] = [];
+  mesh.faces.forEach((_, i) => {
+    const center = toWorld(mesh.getFaceCenter(i));
+    const point = toScreen(center);
+    if (point && shapeContains(shape, point) && isVisible(center)) selected.push(i);
+  });
+  return selected;
+}
+
+/**
+ * Combine a selection with a set of indices.
+ * - `'set'`: Replace the selection
+ * - `'add'`: Add the indices to the selection
+ * - `'subtract'`: Remove the indices from the selection
+ * - `'intersect'`: Keep only selected indices that are also in `indices`
+ *
+ * @param current - The current selection
+ * @param indices - The indices to combine with
+ * @param operation - How to combine them
+ * @returns A new selection set
+ */
+export function combineSelection(
+  current: Iterable<number>,
+  indices: Iterable<number>,
+  operation: SelectionOperation
+): Set<number> {
+  if (operation === 'set') return new Set(indices);
+  const result = new Set(current);
+  if (operation === 'add') {
+    for (const index of indices) result.add(index);
+    return result;
+  }
+  if (operation === 'subtract') {
+    for (const index of indices) result.delete(index);
+    return result;
+  }
+  const keep = new Set(indices);
+  return new Set(Array.from(result).filter((index) => keep.has(index)));
+}
+
+/**
+ * Convert a selection of one kind of element to another.
+ *
+ * Vertices and edges are taken from selected edges and faces. Going the
+ * other way, an edge is selected when both its vertices are, and a face when
+ * all its vertices (or edges) are.
+ *
+ * @param mesh - The mesh the indices belong to
+ * @param indices - The selected elements
+ * @param from - The kind of element selected
+ * @param to - The kind of element to select
+ * @returns Indices of the converted selection
+ */
+export function convertSelection(
+  mesh: EditableMesh,
+  indices: Iterable<number>,
+  from: EditMode,
+  to: EditMode
+): number[] {
+  const selected = new Set(indices);
+  if (from === to) return Array.from(selected);
+
+  if (to === 'vertex') {
+    const vertices = new Set<number>();
+    for (const index of selected) {
+      const element = from === 'edge' ? mesh.edges[index] : mesh.faces[index];
+      element?.vertices.forEach((v) => vertices.add(v));
+    }
+    return Array.from(vertices);
+  }
+
+  if (to === 'edge') {
+    if (from === 'face') {
+      const edges = new Set<number>();
+      for (const index of selected) mesh.faces[index]?.edges.forEach((e) => edges.add(e));
+      return Array.from(edges);
+    }
+    const edges: number[] = [];
+    mesh.edges.forEach((edge, i) => {
+      if (edge.vertices.every((v) => selected.has(v))) edges.push(i);
+    });
+    return edges;
+  }
+
+  const faces: number[] = [];
+  mesh.faces.forEach((face, i) => {
+    const elements = from === 'vertex' ? face.vertices : face.edges;
+    if (elements.every((element) => selected.has(element))) faces.push(i);
+  });
+  return faces;
+}
+
+/**
+ * Find every element connected to the given ones.
+ *
+ * Vertices and edges are connected through edges, faces through shared
+ * edges.
+ *
+ * @param mesh - The mesh to search
+ * @param editMode - The kind of element given and returned
+ * @param indices - The elements to start from
+ * @returns Indices of the elements in the same connected components
+ */
+export function findLinked(mesh: EditableMesh, editMode: EditMode, indices: Iterable<number>): number[] {
+  if (editMode === 'face') {
+    const linked = new Set<number>();
+    const queue = Array.from(indices).filter((f) => mesh.faces[f]);
+    queue.forEach((f) => linked.add(f));
+    while (queue.length > 0) {
+      for (const neighbor of mesh.getFaceNeighbors(queue.pop()!)) {
+        if (linked.has(neighbor)) continue;
+        linked.add(neighbor);
+        queue.push(neighbor);
+      }
+    }
+    return Array.from(linked);
+  }
+
+  const seeds = editMode === 'vertex' ? Array.from(indices) : convertSelection(mesh, indices, 'edge', 'vertex');
+  const linked = new Set<number>();
+  const queue = seeds.filter((v) => mesh.vertices[v]);
+  queue.forEach((v) => linked.add(v));
+  while (queue.length > 0) {
+    for (const neighbor of mesh.getVertexNeighbors(queue.pop()!)) {
+      if (linked.has(neighbor)) continue;
+      linked.add(neighbor);
+      queue.push(neighbor);
+    }
+  }
+  return editMode === 'vertex' ? Array.from(linked) : convertSelection(mesh, linked, 'vertex', 'edge');
+}
+
+/**
+ * The edge continuing an edge loop across a vertex, or -1 where the loop
+ * stops.
+ *
+ * Interior loops continue through 4-valent vertices to the edge sharing no
+ * face with the current one, so they stop at poles. Boundary loops follow
+ * the boundary while it does not branch, and loose edges follow vertices
+ * with two edges.
+ * @internal
+ */
+function nextLoopEdge(mesh: EditableMesh, edgeIndex: number, vertexIndex: number): number {
+  const edge = mesh.edges[edgeIndex];
+  const vertexEdges = mesh.vertices[vertexIndex].edges.filter((e) => e !== edgeIndex);
+
+  let candidates: number[];
+  if (edge.faces.length === 0) {
+    candidates = vertexEdges.length === 1 ? vertexEdges : [];
+  } else if (edge.faces.length === 1) {
+    candidates = vertexEdges.filter((e) => mesh.edges[e].faces.length === 1);
+  } else if (edge.faces.length === 2 && vertexEdges.length === 3) {
+    candidates = vertexEdges.filter((e) => !mesh.edges[e].faces.some((f) => edge.faces.includes(f)));
+  } else {
+    candidates = [];
+  }
+  return candidates.length === 1 && mesh.edges[candidates[0]].faces.length === edge.faces.length
+    ? candidates[0]
+    : -1;
+}
+
+/**
+ * Find the edge loop through an edge, following Blender's rules.
+ *
+ * The loop runs through 4-valent vertices to the opposite edge and stops at
+ * poles (vertices with any other number of edges) and where it reaches a
+ * boundary. An edge on a boundary selects the boundary loop instead.
+ *
+ * @param mesh - The mesh to search
+ * @param edgeIndex - The edge to start from
+ * @returns Indices of the edges in the loop, in order along it
+ */
+export function findEdgeLoop(mesh: EditableMesh, edgeIndex: number): number[] {
+  const start = mesh.edges[edgeIndex];
+  if (!start) return [];
+  const visited = new Set([edgeIndex]);
+  const sides: number[][] = [];
+
+  for (const startVertex of [start.vertices[1], start.vertices[0]]) {
+    const side: number[] = [];
+    let current = edgeIndex;
+    let vertex = startVertex;
+    for (;;) {
+      const next = nextLoopEdge(mesh, current, vertex);
+      if (next === edgeIndex) return [edgeIndex, ...side];
+      if (next === -1 || visited.has(next)) break;
+      visited.add(next);
+      side.push(next);
+      vertex = mesh.getOtherVertex(next, vertex);
+      current = next;
+    }
+    sides.push(side);
+  }
+  return [...sides[1].reverse(), edgeIndex, ...sides[0]];
+}
+
+/**
+ * Walk the ring of an edge across quads in both directions.
+ * @internal
+ */
+function walkEdgeRing(mesh: EditableMesh, edgeIndex: number): { edges: number[]; faces: number[] } {
+  const start = mesh.edges[edgeIndex];
+  if (!start) return { edges: [], faces: [] };
+  const visitedEdges = new Set([edgeIndex]);
+  const visitedFaces = new Set<number>();
+  const sides: Array<{ edges: number[]; faces: number[] }> = [];
+
+  for (const startFace of start.faces.slice(0, 2)) {
+    const side = { edges: [] as number[], faces: [] as number[] };
+    let current = edgeIndex;
+    let faceIndex = startFace;
+    while (faceIndex !== -1 && !visitedFaces.has(faceIndex)) {
+      const face = mesh.faces[faceIndex];
+      if (face.vertices.length !== 4) break;
+      visitedFaces.add(faceIndex);
+      side.faces.push(faceIndex);
+      const next = face.edges[(face.edges.indexOf(current) + 2) % 4];
+      if (visitedEdges.has(next)) break;
+      visitedEdges.add(next);
+      side.edges.push(next);
+      const [a, b] = mesh.edges[next].faces;
+      faceIndex = mesh.edges[next].faces.length !== 2 ? -1 : a === faceIndex ? b : a;
+      current = next;
+    }
+    sides.push(side);
+  }
+
+  const forward = sides[0] ?? { edges: [], faces: [] };
+  const backward = sides[1] ?? { edges: [], faces: [] };
+  return {
+    edges: [...backward.edges.reverse(), edgeIndex, ...forward.edges],
+    faces: [...backward.faces.reverse(), ...forward.faces],
+  };
+}
+
+/**
+ * Find the edge ring through an edge: the edges opposite each other across
+ * a strip of quads. The ring stops at faces that are not quads and at
+ * boundaries.
+ *
+ * @param mesh - The mesh to search
+ * @param edgeIndex - The edge to start from
+ * @returns Indices of the edges in the ring, in order along it
+ */
+export function findEdgeRing(mesh: EditableMesh, edgeIndex: number): number[] {
+  return walkEdgeRing(mesh, edgeIndex).edges;
+}
+
+/**
+ * Find the face loop crossing an edge: the strip of quads its edge ring
+ * runs across. The loop stops at faces that are not quads and at
+ * boundaries.
+ *
+ * @param mesh - The mesh to search
+ * @param edgeIndex - An edge the loop crosses
+ * @returns Indices of the faces in the loop, in order along it
+ */
+export function findFaceLoop(mesh: EditableMesh, edgeIndex: number): number[] {
+  return walkEdgeRing(mesh, edgeIndex).faces;
+}
+
+/**
+ * Number of elements of a kind in a mesh.
+ * @internal
+ */
+function elementCount(mesh: EditableMesh, editMode: EditMode): number {
+  if (editMode === 'vertex') return mesh.vertices.length;
+  if (editMode === 'edge') return mesh.edges.length;
+  return mesh.faces.length;
+}
+
+/**
+ * Grow a selection by one ring of adjacent elements: vertices connected by
+ * an edge to a selected vertex, and edges or faces sharing a vertex with a
+ * selected edge or face.
+ *
+ * @param mesh - The mesh the indices belong to
+ * @param editMode - The kind of element selected
+ * @param indices - The selected elements
+ * @returns Indices of the grown selection
+ */
+export function growSelection(mesh: EditableMesh, editMode: EditMode, indices: Iterable<number>): number[] {
+  const vertices = new Set(convertSelection(mesh, indices, editMode, 'vertex'));
+  if (editMode === 'vertex') {
+    for (const v of Array.from(vertices)) mesh.getVertexNeighbors(v).forEach((n) => vertices.add(n));
+    return Array.from(vertices);
+  }
+  const elements = editMode === 'edge' ? mesh.edges : mesh.faces;
+  const grown: number[] = [];
+  elements.forEach((element, i) => {
+    if (element.vertices.some((v) => vertices.has(v))) grown.push(i);
+  });
+  return grown;
+}
+
+/**
+ * Shrink a selection by one ring, deselecting the elements adjacent (as in
+ * `growSelection`) to an unselected element.
+ *
+ * @param mesh - The mesh the indices belong to
+ * @param editMode - The kind of element selected
+ * @param indices - The selected elements
+ * @returns Indices of the shrunk selection
+ */
+export function shrinkSelection(mesh: EditableMesh, editMode: EditMode, indices: Iterable<number>): number[] {
+  const selected = new Set(indices);
+  const unselected: number[] = [];
+  for (let i = 0; i < elementCount(mesh, editMode); i++) {
+    if (!selected.has(i)) unselected.push(i);
+  }
+  const removed = new Set(growSelection(mesh, editMode, unselected));
+  return Array.from(selected).filter((i) => !removed.has(i));
+}
+
+/**
+ * Invert a selection.
+ *
+ * @param mesh - The mesh the indices belong to
+ * @param editMode - The kind of element selected
+ * @param indices - The selected elements
+ * @returns Indices of the elements that are not selected
+ */
+export function invertSelection(mesh: EditableMesh, editMode: EditMode, indices: Iterable<number>): number[] {
+  const selected = new Set(indices);
+  const inverted: number[] = [];
+  for (let i = 0; i < elementCount(mesh, editMode); i++) {
+    if (!selected.has(i)) inverted.push(i);
+  }
+  return inverted;
+}
+
+/**
+ * Pick a random share of a mesh's elements. The same seed always picks the
+ * same elements.
+ *
+ * @param mesh - The mesh to pick from
+ * @param editMode - The kind of element to pick
+ * @param ratio - Share of the elements to pick, from 0 to 1
+ * @param seed - Seed of the random generator
+ * @returns Indices of the picked elements
+ */
+export function randomSelection(mesh: EditableMesh, editMode: EditMode, ratio: number, seed = 0): number[] {
+  if (ratio < 0 || ratio > 1) {
+    throw new Error('Random selection ratio must be between 0 and 1');
+  }
+  // mulberry32
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const indices = Array.from({ length: elementCount(mesh, editMode) }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, Math.round(indices.length * ratio)).sort((a, b) => a - b);
+}
+
+/**
+ * Keep every nth element of a selection, like Blender's Checker Deselect.
+ *
+ * Each connected part of the selection is walked outwards from its lowest
+ * index, through edges for vertices, shared vertices for edges and shared
+ * edges for faces. Elements whose step count from the start is a multiple
+ * of `n` are kept, so a selected loop alternates and a selected grid of
+ * faces becomes a checkerboard for `n = 2`.
+ *
+ * @param mesh - The mesh the indices belong to
+ * @param editMode - The kind of element selected
+ * @param indices - The selected elements
+ * @param n - Keep one element in every `n` steps
+ * @returns Indices of the kept elements
+ */
+export function nthSelection(mesh: EditableMesh, editMode: EditMode, indices: Iterable<number>, n: number): number[] {
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error('Nth selection step must be a positive integer');
+  }
+  const selected = new Set(indices);
+  const neighbors = (index: number): number[] => {
+    if (editMode === 'vertex') return mesh.getVertexNeighbors(index);
+    if (editMode === 'face') return mesh.getFaceNeighbors(index);
+    return mesh.edges[index].vertices.flatMap((v) => mesh.vertices[v].edges).filter((e) => e !== index);
+  };
+
+  const depth = new Map<number, number>();
+  for (const start of Array.from(selected).sort((a, b) => a - b)) {
+    if (depth.has(start)) continue;
+    depth.set(start, 0);
+    const queue = [start];
+    for (let k = 0; k < queue.length; k++) {
+      const current = queue[k];
+      for (const neighbor of neighbors(current)) {
+        if (!selected.has(neighbor) || depth.has(neighbor)) continue;
+        depth.set(neighbor, depth.get(current)! + 1);
+        queue.push(neighbor);
+      }
+    }
+  }
+  return Array.from(selected).filter((i) => depth.get(i)! % n === 0);
+}
+
+/**
+ * What makes elements similar for `findSimilar`.
+ *
+ * Faces:
+ * - `'normal'`: Normals within `threshold` degrees
+ * - `'area'`: Areas differing by at most `threshold` times the larger one
+ * - `'coplanar'`: Normals within `threshold` degrees, with the face center
+ *   within `threshold` degrees of the reference plane seen from the
+ *   reference center
+ * - `'material'`: Same material group
+ *
+ * Edges:
+ * - `'length'`: Lengths differing by at most `threshold` times the larger one
+ * - `'faceAngle'`: Angles between the two faces within `threshold` degrees;
+ *   only edges with two faces match
+ * - `'boundary'`: Same number of faces: loose, boundary, manifold or non-manifold
+ *
+ * Vertices:
+ * - `'valence'`: Edge counts differing by at most `threshold`
+ * - `'positionX'`, `'positionY'`, `'positionZ'`: Coordinates on the axis
+ *   within `threshold` world units
+ */
+export type SimilarCriterion =
+  | 'normal'
+  | 'area'
+  | 'coplanar'
+  | 'material'
+  | 'length'
+  | 'faceAngle'
+  | 'boundary'
+  | 'valence'
+  | 'positionX'
+  | 'positionY'
+  | 'positionZ';
+
+/**
+ * The kind of element each similarity criterion applies to.
+ * @internal
+ */
+const CRITERION_MODES: Record<SimilarCriterion, EditMode> = {
+  normal: 'face',
+  area: 'face',
+  coplanar: 'face',
+  material: 'face',
+  length: 'edge',
+  faceAngle: 'edge',
+  boundary: 'edge',
+  valence: 'vertex',
+  positionX: 'vertex',
+  positionY: 'vertex',
+  positionZ: 'vertex',
+};
+
+/**
+ * Whether two values differ by at most a fraction of the larger one.
+ * @internal
+ */
+function withinRatio(a: number, b: number, threshold: number): boolean {
+  return Math.abs(a - b) <= threshold * Math.max(Math.abs(a), Math.abs(b)) + 1e-9;
+}
+
+/**
+ * Angle between the two faces of an edge in degrees, or null unless the
+ * edge has exactly two faces.
+ * @internal
+ */
+function edgeFaceAngle(mesh: EditableMesh, edgeIndex: number): number | null {
+  const faces = mesh.edges[edgeIndex].faces;
+  if (faces.length !== 2) return null;
+  const cos = mesh.getFaceNormal(faces[0]).dot(mesh.getFaceNormal(faces[1]));
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
+
+/**
+ * Find the elements similar to any of the given ones.
+ *
+ * @param mesh - The mesh to search
+ * @param editMode - The kind of element given and returned
+ * @param indices - The reference elements
+ * @param criterion - What makes elements similar
+ * @param threshold - Tolerance of the criterion, see `SimilarCriterion`
+ * @returns Indices of the reference elements and every element similar to one
+ */
+export function findSimilar(
+  mesh: EditableMesh,
+  editMode: EditMode,
+  indices: Iterable<number>,
+  criterion: SimilarCriterion,
+  threshold = 0
+): number[] {
+  if (CRITERION_MODES[criterion] !== editMode) {
+    const elements = editMode === 'vertex' ? 'vertices' : `${editMode}s`;
+    throw new Error(`Similarity criterion "${criterion}" does not apply to ${elements}`);
+  }
+  if (threshold < 0) {
+    throw new Error('Similarity threshold must not be negative');
+  }
+  const references = Array.from(new Set(indices));
+  if (references.length === 0) return [];
+
+  const cosThreshold = Math.cos((Math.min(threshold, 180) * Math.PI) / 180) - 1e-9;
+  const sinThreshold = Math.sin((Math.min(threshold, 90) * Math.PI) / 180);
+  let matches: (index: number, reference: number) => boolean;
+
+  if (criterion === 'normal' || criterion === 'coplanar') {
+    const normals = mesh.faces.map((_, f) => mesh.getFaceNormal(f));
+    const centers = mesh.faces.map((_, f) => new Vector3(...mesh.getFaceCenter(f)));
+    matches = (f, r) => {
+      if (normals[f].dot(normals[r]) < cosThreshold) return false;
+      if (criterion === 'normal') return true;
+      const offset = centers[f].clone().sub(centers[r]);
+      return Math.abs(offset.dot(normals[r])) <= offset.length() * sinThreshold + 1e-6;
+    };
+  } else if (criterion === 'area') {
+    const areas = mesh.faces.map((_, f) => mesh.getFaceArea(f));
+    matches = (f, r) => withinRatio(areas[f], areas[r], threshold);
+  } else if (criterion === 'material') {
+    matches = (f, r) => mesh.faces[f].materialIndex === mesh.faces[r].materialIndex;
+  } else if (criterion === 'length') {
+    const lengths = mesh.edges.map((edge) =>
+      new Vector3(...mesh.vertices[edge.vertices[0]].position).distanceTo(
+        new Vector3(...mesh.vertices[edge.vertices[1]].position)
+      )
+    );
+    matches = (e, r) => withinRatio(lengths[e], lengths[r], threshold);
+  } else if (criterion === 'faceAngle') {
+    const angles = mesh.edges.map((_, e) => edgeFaceAngle(mesh, e));
+    matches = (e, r) => {
+      const angle = angles[e];
+      const reference = angles[r];
+      return angle !== null && reference !== null && Math.abs(angle - reference) <= threshold + 1e-6;
+    };
+  } else if (criterion === 'boundary') {
+    const kind = (e: number) => Math.min(mesh.edges[e].faces.length, 3);
+    matches = (e, r) => kind(e) === kind(r);
+  } else if (criterion === 'valence') {
+    matches = (v, r) => Math.abs(mesh.vertices[v].edges.length - mesh.vertices[r].edges.length) <= threshold;
+  } else {
+    const axis = criterion === 'positionX' ? 0 : criterion === 'positionY' ? 1 : 2;
+    matches = (v, r) =>
+      Math.abs(mesh.vertices[v].position[axis] - mesh.vertices[r].position[axis]) <= threshold + 1e-9;
+  }
+
+  const similar: number[] = [];
+  const selected = new Set(references);
+  for (let i = 0; i < elementCount(mesh, editMode); i++) {
+    if (selected.has(i) || references.some((r) => matches(i, r))) similar.push(i);
+  }
+  return similar;
+}
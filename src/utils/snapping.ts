@@ -0,0 +1,181 @@
+import { Line3, Quaternion, Triangle, Vector3 } from 'three';
+import type { SnapOptions, SnapTarget } from '../types';
+import type { EditableMesh } from './editableMesh';
+import { triangulatePolygon } from './triangulate';
+
+/**
+ * A point after snapping, with what it snapped to.
+ */
+export interface SnapResult {
+  /** The snapped position */
+  position: [number, number, number];
+  /** What the point snapped to */
+  target: SnapTarget;
+  /** The vertex snapped to */
+  vertexIndex?: number;
+  /** The edge snapped to (for `midpoint` and `edge` snaps) */
+  edgeIndex?: number;
+  /** The face snapped to */
+  faceIndex?: number;
+  /** Normal of the face snapped to */
+  normal?: [number, number, number];
+}
+
+/**
+ * Snap a point to the mesh or the world grid.
+ *
+ * Vertices, edge midpoints, edges and faces are tried in that order, taking
+ * the nearest element of the first kind within `distance`. Otherwise the
+ * point snaps to the grid, when enabled. Elements using an excluded vertex,
+ * such as the vertices being moved, are never snapped to.
+ *
+ * @param mesh - The editable mesh
+ * @param point - The point to snap
+ * @param options - Snap targets, grid size and distance
+ * @param exclude - Vertices whose elements are ignored
+ * @returns The snapped point, or null if nothing is in reach
+ *
+ * @example
+ * ```ts
+ * const snap = snapPoint(mesh, [0.48, 1.02, 0], { targets: ['vertex', 'grid'] }, new Set([3]));
+ * ```
+ */
+export function snapPoint(
+  mesh: EditableMesh,
+  point: [number, number, number],
+  options: SnapOptions,
+  exclude: Set<number> = new Set()
+): SnapResult | null {
+  const { targets = ['grid'], gridSize = 0.25, distance = 0.1 } = options;
+  if (!(gridSize > 0)) {
+    throw new Error('Snap grid size must be positive');
+  }
+  const enabled = new Set(targets);
+  const p = new Vector3(...point);
+
+  if (enabled.has('vertex')) {
+    let nearest = -1;
+    let nearestDistance = distance;
+    mesh.vertices.forEach((vertex, index) => {
+      if (exclude.has(index)) return;
+      const d = p.distanceTo(new Vector3(...vertex.position));
+      if (d <= nearestDistance) {
+        nearest = index;
+        nearestDistance = d;
+      }
+    });
+    if (nearest !== -1) {
+      return { position: [...mesh.vertices[nearest].position], target: 'vertex', vertexIndex: nearest };
+    }
+  }
+
+  if (enabled.has('midpoint') || enabled.has('edge')) {
+    let midpoint: SnapResult | null = null;
+    let onEdge: SnapResult | null = null;
+    let midpointDistance = distance;
+    let edgeDistance = distance;
+    for (let index = 0; index < mesh.edges.length; index++) {
+      const edge = mesh.edges[index];
+      if (edge.vertices.some((v) => exclude.has(v))) continue;
+      const [a, b] = edge.vertices.map((v) => new Vector3(...mesh.vertices[v].position));
+      if (enabled.has('midpoint')) {
+        const center = a.clone().lerp(b, 0.5);
+        if (p.distanceTo(center) <= midpointDistance) {
+          midpointDistance = p.distanceTo(center);
+          midpoint = { position: center.toArray(), target: 'midpoint', edgeIndex: index };
+        }
+      }
+      if (enabled.has('edge')) {
+        const closest = new Line3(a, b).closestPointToPoint(p, true, new Vector3());
+        if (p.distanceTo(closest) <= edgeDistance) {
+          edgeDistance = p.distanceTo(closest);
+          onEdge = { position: closest.toArray(), target: 'edge', edgeIndex: index };
+        }
+      }
+    }
+    const edgeSnap = midpoint ?? onEdge;
+    if (edgeSnap) return edgeSnap;
+  }
+
+  if (enabled.has('face')) {
+    let nearest: SnapResult | null = null;
+    let nearestDistance = distance;
+    const triangle = new Triangle();
+    const closest = new Vector3();
+    for (let index = 0; index < mesh.faces.length; index++) {
+      const face = mesh.faces[index];
+      if (face.vertices.some((v) => exclude.has(v))) continue;
+      const points = face.vertices.map((v) => mesh.vertices[v].position);
+      for (const [a, b, c] of triangulatePolygon(points)) {
+        triangle.set(new Vector3(...points[a]), new Vector3(...points[b]), new Vector3(...points[c]));
+        triangle.closestPointToPoint(p, closest);
+        const d = p.distanceTo(closest);
+        if (d <= nearestDistance) {
+          nearestDistance = d;
+          nearest = {
+            position: closest.toArray(),
+            target: 'face',
+            faceIndex: index,
+            normal: mesh.getFaceNormal(index).toArray(),
+          };
+        }
+      }
+    }
+    if (nearest) return nearest;
+  }
+
+  if (enabled.has('grid')) {
+    return {
+      position: [
+        Math.round(point[0] / gridSize) * gridSize,
+        Math.round(point[1] / gridSize) * gridSize,
+        Math.round(point[2] / gridSize) * gridSize,
+      ],
+      target: 'grid',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Round the angle of a rotation to a multiple of a step, keeping its axis.
+ *
+ * @param rotation - Quaternion rotation as {x, y, z, w}
+ * @param step - Angle increment in degrees
+ * @returns The snapped rotation
+ */
+export function snapRotation(
+  rotation: { x: number; y: number; z: number; w: number },
+  step: number
+): { x: number; y: number; z: number; w: number } {
+  if (!(step > 0)) {
+    throw new Error('Rotation snap step must be positive');
+  }
+  const q = new Quaternion(rotation.x, rotation.y, rotation.z, rotation.w).normalize();
+  const axis = new Vector3(q.x, q.y, q.z);
+  if (axis.lengthSq() < 1e-12) return { x: 0, y: 0, z: 0, w: 1 };
+  axis.normalize();
+  const angle = 2 * Math.atan2(Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z), q.w);
+  const stepRadians = (step * Math.PI) / 180;
+  q.setFromAxisAngle(axis, Math.round(angle / stepRadians) * stepRadians);
+  return { x: q.x, y: q.y, z: q.z, w: q.w };
+}
+
+/**
+ * Round scale factors to multiples of a step.
+ *
+ * @param scale - Scale factors [sx, sy, sz]
+ * @param step - Scale increment
+ * @returns The snapped scale
+ */
+export function snapScale(scale: [number, number, number], step: number): [number, number, number] {
+  if (!(step > 0)) {
+    throw new Error('Scale snap step must be positive');
+  }
+  return [
+    Math.round(scale[0] / step) * step,
+    Math.round(scale[1] / step) * step,
+    Math.round(scale[2] / step) * step,
+  ];
+}
@@ -0,0 +1,236 @@
+import { Box3, Matrix4, Quaternion, Vector3 } from 'three';
+import type { EditMode, PivotPoint, TransformOrientation } from '../types';
+import type { EditableMesh } from './editableMesh';
+import { convertSelection } from './selection';
+
+/**
+ * Median of the vertices of a selection.
+ *
+ * @param mesh - The editable mesh
+ * @param editMode - The kind of elements selected
+ * @param indices - The selected elements
+ * @returns The median point, or null for an empty selection
+ */
+export function getSelectionCenter(
+  mesh: EditableMesh,
+  editMode: EditMode,
+  indices: Iterable<number>
+): [number, number, number] | null {
+  const vertices = convertSelection(mesh, indices, editMode, 'vertex');
+  if (vertices.length === 0) return null;
+  return medianOf(mesh, vertices);
+}
+
+/**
+ * Options for finding the pivot point of a selection.
+ */
+export interface PivotOptions {
+  /** Position of the 3D cursor, for the `'cursor'` pivot @default [0, 0, 0] */
+  cursor?: [number, number, number];
+  /** Active element of the edit mode, for the `'active'` pivot */
+  active?: number | null;
+}
+
+/**
+ * A group of vertices transformed about one center.
+ */
+export interface PivotGroup {
+  /** The vertices of the group */
+  vertexIndices: number[];
+  /** The point the group rotates and scales about */
+  center: [number, number, number];
+}
+
+/**
+ * Median of a set of vertices.
+ * @internal
+ */
+function medianOf(mesh: EditableMesh, vertices: number[]): [number, number, number] {
+  const center: [number, number, number] = [0, 0, 0];
+  for (const index of vertices) {
+    const position = mesh.vertices[index].position;
+    center[0] += position[0] / vertices.length;
+    center[1] += position[1] / vertices.length;
+    center[2] += position[2] / vertices.length;
+  }
+  return center;
+}
+
+/**
+ * Split selected elements into groups connected through shared vertices,
+ * returning the vertices of each.
+ * @internal
+ */
+function selectionIslands(mesh: EditableMesh, editMode: EditMode, indices: number[]): number[][] {
+  const parent = new Map<number, number>();
+  const find = (v: number): number => {
+    let root = v;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(v, root);
+    return root;
+  };
+  for (const index of indices) {
+    const vertices = convertSelection(mesh, [index], editMode, 'vertex');
+    for (const v of vertices) if (!parent.has(v)) parent.set(v, v);
+    for (const v of vertices.slice(1)) parent.set(find(v), find(vertices[0]));
+  }
+  const islands = new Map<number, number[]>();
+  for (const v of parent.keys()) {
+    const root = find(v);
+    const island = islands.get(root);
+    if (island) {
+      island.push(v);
+    } else {
+      islands.set(root, [v]);
+    }
+  }
+  return [...islands.values()];
+}
+
+/**
+ * Point a selection rotates and scales about.
+ *
+ * `'individual'` gives the median of the whole selection, where a shared
+ * gizmo is placed; use `getPivotGroups` for the center of each group.
+ * `'active'` falls back to the median without an active element.
+ *
+ * @param mesh - The editable mesh
+ * @param editMode - The kind of elements selected
+ * @param indices - The selected elements
+ * @param pivot - The pivot mode
+ * @param options - The 3D cursor and the active element
+ * @returns The pivot point, or null for an empty selection
+ */
+export function getPivotPoint(
+  mesh: EditableMesh,
+  editMode: EditMode,
+  indices: Iterable<number>,
+  pivot: PivotPoint,
+  options: PivotOptions = {}
+): [number, number, number] | null {
+  const vertices = convertSelection(mesh, indices, editMode, 'vertex');
+  if (vertices.length === 0) return null;
+  const { cursor = [0, 0, 0], active } = options;
+
+  if (pivot === 'cursor') return [...cursor];
+  if (pivot === 'boundingBox') {
+    const box = new Box3();
+    vertices.forEach((v) => box.expandByPoint(new Vector3(...mesh.vertices[v].position)));
+    return box.getCenter(new Vector3()).toArray();
+  }
+  if (pivot === 'active' && active !== undefined && active !== null) {
+    const activeVertices = convertSelection(mesh, [active], editMode, 'vertex');
+    if (activeVertices.length > 0) return medianOf(mesh, activeVertices);
+  }
+  return medianOf(mesh, vertices);
+}
+
+/**
+ * Vertices of a selection grouped by the point each group rotates and
+ * scales about: one group around the pivot point, or for `'individual'`
+ * one group per connected set of selected edges or faces around its median.
+ * Selected vertices always form one group.
+ *
+ * @param mesh - The editable mesh
+ * @param editMode - The kind of elements selected
+ * @param indices - The selected elements
+ * @param pivot - The pivot mode
+ * @param options - The 3D cursor and the active element
+ * @returns The groups, empty for an empty selection
+ *
+ * @example
+ * ```ts
+ * for (const { vertexIndices, center } of getPivotGroups(mesh, 'face', [0, 5], 'individual')) {
+ *   transformVerticesAroundCenter(mesh, vertexIndices, center, rotation, [1, 1, 1]);
+ * }
+ * ```
+ */
+export function getPivotGroups(
+  mesh: EditableMesh,
+  editMode: EditMode,
+  indices: Iterable<number>,
+  pivot: PivotPoint,
+  options: PivotOptions = {}
+): PivotGroup[] {
+  const selected = Array.from(indices);
+  if (pivot === 'individual' && editMode !== 'vertex') {
+    return selectionIslands(mesh, editMode, selected).map((vertexIndices) => ({
+      vertexIndices,
+      center: medianOf(mesh, vertexIndices),
+    }));
+  }
+  const center = getPivotPoint(mesh, editMode, selected, pivot, options);
+  if (!center) return [];
+  return [{ vertexIndices: convertSelection(mesh, selected, editMode, 'vertex'), center }];
+}
+
+/**
+ * Axes aligned to a selection: Z along its normal and X along its first
+ * edge where possible.
+ * @internal
+ */
+function normalBasis(mesh: EditableMesh, editMode: EditMode, indices: Iterable<number>): Quaternion {
+  const selected = Array.from(indices);
+  const vertices = convertSelection(mesh, selected, editMode, 'vertex');
+  const vertexSet = new Set(vertices);
+
+  // Normal of the enclosed faces, or of the faces around the vertices
+  const around = new Set(vertices.flatMap((v) => mesh.getVertexFaces(v)));
+  const inside = [...around].filter((f) => mesh.faces[f].vertices.every((v) => vertexSet.has(v)));
+  const z = new Vector3();
+  for (const f of inside.length > 0 ? inside : around) z.add(mesh.getFaceNormal(f));
+  if (z.lengthSq() < 1e-12) return new Quaternion();
+  z.normalize();
+
+  // Tangent along the first selected edge
+  const edges = convertSelection(mesh, selected, editMode, 'edge');
+  const x = new Vector3();
+  const edgeVertices =
+    edges.length > 0
+      ? mesh.edges[edges[0]].vertices
+      : vertices.length > 0 && mesh.getVertexNeighbors(vertices[0]).length > 0
+        ? [vertices[0], mesh.getVertexNeighbors(vertices[0])[0]]
+        : null;
+  if (edgeVertices) {
+    const [a, b] = edgeVertices.map((v) => new Vector3(...mesh.vertices[v].position));
+    x.subVectors(b, a);
+  }
+  x.addScaledVector(z, -x.dot(z));
+  if (x.lengthSq() < 1e-12) {
+    x.set(1, 0, 0).addScaledVector(z, -z.x);
+    if (x.lengthSq() < 1e-6) x.set(0, 1, 0).addScaledVector(z, -z.y);
+  }
+  x.normalize();
+  const y = new Vector3().crossVectors(z, x);
+  return new Quaternion().setFromRotationMatrix(new Matrix4().makeBasis(x, y, z));
+}
+
+/**
+ * Orientation of the transform axes, in the mesh's local space.
+ *
+ * The axes are the columns of the returned rotation: rotate the unit X, Y
+ * and Z vectors by it to get them.
+ *
+ * @param mesh - The editable mesh
+ * @param editMode - The kind of elements selected
+ * @param indices - The selected elements
+ * @param orientation - Which axes to use
+ * @param matrixWorld - World matrix of the edited mesh, for global axes
+ * @returns The orientation as a quaternion {x, y, z, w}
+ */
+export function getOrientationBasis(
+  mesh: EditableMesh,
+  editMode: EditMode,
+  indices: Iterable<number>,
+  orientation: TransformOrientation,
+  matrixWorld?: Matrix4
+): { x: number; y: number; z: number; w: number } {
+  let basis = new Quaternion();
+  if (orientation === 'normal') {
+    basis = normalBasis(mesh, editMode, indices);
+  } else if (orientation === 'global' && matrixWorld) {
+    matrixWorld.decompose(new Vector3(), basis, new Vector3());
+    basis.invert();
+  }
+  return { x: basis.x, y: basis.y, z: basis.z, w: basis.w };
+}
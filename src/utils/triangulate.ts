@@ -0,0 +1,247 @@
+import { Vector3 } from 'three';
+
+/**
+ * A 2D point of the polygon being clipped, pointing back at its input index.
+ * @internal
+ */
+interface PolygonPoint {
+  x: number;
+  y: number;
+  index: number;
+}
+
+/**
+ * Normal of the best-fit plane of a polygon, using Newell's method. Its
+ * direction follows the polygon's winding. Returns a zero vector for
+ * degenerate polygons.
+ *
+ * @param points - The polygon's corner positions in order
+ */
+export function polygonNormal(points: Array<[number, number, number]>): Vector3 {
+  const normal = new Vector3();
+  points.forEach((current, i) => {
+    const next = points[(i + 1) % points.length];
+    normal.x += (current[1] - next[1]) * (current[2] + next[2]);
+    normal.y += (current[2] - next[2]) * (current[0] + next[0]);
+    normal.z += (current[0] - next[0]) * (current[1] + next[1]);
+  });
+  return normal.lengthSq() > 0 ? normal.normalize() : normal;
+}
+
+/**
+ * Twice the signed area of a 2D polygon, positive when counter-clockwise.
+ * @internal
+ */
+function signedArea(points: PolygonPoint[]): number {
+  let area = 0;
+  points.forEach((current, i) => {
+    const next = points[(i + 1) % points.length];
+    area += current.x * next.y - next.x * current.y;
+  });
+  return area;
+}
+
+/**
+ * Twice the signed area of a triangle, positive when counter-clockwise.
+ * @internal
+ */
+function cross(a: PolygonPoint, b: PolygonPoint, c: PolygonPoint): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+/**
+ * Whether a point lies inside or on a counter-clockwise triangle.
+ * @internal
+ */
+function inTriangle(p: PolygonPoint, a: PolygonPoint, b: PolygonPoint, c: PolygonPoint): boolean {
+  return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+}
+
+/**
+ * Whether two segments touch or cross.
+ * @internal
+ */
+function segmentsTouch(p1: PolygonPoint, p2: PolygonPoint, q1: PolygonPoint, q2: PolygonPoint): boolean {
+  const epsilon = 1e-12;
+  const onSegment = (a: PolygonPoint, b: PolygonPoint, p: PolygonPoint) =>
+    p.x <= Math.max(a.x, b.x) + epsilon &&
+    p.x >= Math.min(a.x, b.x) - epsilon &&
+    p.y <= Math.max(a.y, b.y) + epsilon &&
+    p.y >= Math.min(a.y, b.y) - epsilon;
+  const o1 = cross(p1, p2, q1);
+  const o2 = cross(p1, p2, q2);
+  const o3 = cross(q1, q2, p1);
+  const o4 = cross(q1, q2, p2);
+  if (((o1 > epsilon && o2 < -epsilon) || (o1 < -epsilon && o2 > epsilon)) &&
+      ((o3 > epsilon && o4 < -epsilon) || (o3 < -epsilon && o4 > epsilon))) {
+    return true;
+  }
+  return (
+    (Math.abs(o1) <= epsilon && onSegment(p1, p2, q1)) ||
+    (Math.abs(o2) <= epsilon && onSegment(p1, p2, q2)) ||
+    (Math.abs(o3) <= epsilon && onSegment(q1, q2, p1)) ||
+    (Math.abs(o4) <= epsilon && onSegment(q1, q2, p2))
+  );
+}
+
+/**
+ * Whether the direction from corner `i` of a ring towards `target` points
+ * into the ring's interior.
+ * @internal
+ */
+function locallyInside(ring: PolygonPoint[], i: number, target: PolygonPoint): boolean {
+  const prev = ring[(i + ring.length - 1) % ring.length];
+  const corner = ring[i];
+  const next = ring[(i + 1) % ring.length];
+  return cross(prev, corner, next) >= 0
+    ? cross(corner, target, next) <= 0 && cross(corner, prev, target) <= 0
+    : cross(corner, target, prev) > 0 || cross(corner, next, target) > 0;
+}
+
+/**
+ * Splice a clockwise hole into a counter-clockwise polygon, through the
+ * shortest cut from a hole point to a polygon point that crosses no edge.
+ * @internal
+ */
+function bridgeHole(polygon: PolygonPoint[], hole: PolygonPoint[], otherHoles: PolygonPoint[][]): PolygonPoint[] {
+  const pairs: Array<[number, number, number]> = [];
+  hole.forEach((m, hi) => {
+    polygon.forEach((p, pi) => pairs.push([hi, pi, (m.x - p.x) ** 2 + (m.y - p.y) ** 2]));
+  });
+  pairs.sort((a, b) => a[2] - b[2]);
+
+  const rings = [polygon, hole, ...otherHoles];
+  const isClear = (m: PolygonPoint, p: PolygonPoint) =>
+    rings.every((ring) =>
+      ring.every((a, i) => {
+        const b = ring[(i + 1) % ring.length];
+        if ([a.index, b.index].some((index) => index === m.index || index === p.index)) return true;
+        return !segmentsTouch(m, p, a, b);
+      })
+    );
+
+  const [hi, pi] =
+    pairs.find(
+      ([hi, pi]) =>
+        locallyInside(polygon, pi, hole[hi]) &&
+        locallyInside(hole, hi, polygon[pi]) &&
+        isClear(hole[hi], polygon[pi])
+    ) ?? pairs[0];
+
+  const rotated = [...hole.slice(hi), ...hole.slice(0, hi)];
+  return [...polygon.slice(0, pi + 1), ...rotated, rotated[0], polygon[pi], ...polygon.slice(pi + 1)];
+}
+
+/**
+ * Triangulate a polygon by ear clipping, with optional holes.
+ *
+ * The polygon may be concave and non-planar: it is projected onto its
+ * best-fit plane before clipping. Holes are cut into the outer polygon so a
+ * hole loop subtracts from it. Triangles follow the winding of the outer
+ * polygon. Corners lying on a straight line between their neighbours may be
+ * left out of the triangles.
+ *
+ * @param points - The outer polygon's corner positions in order
+ * @param holes - Corner positions of each hole
+ * @returns Corner index triples, indexing the outer corners followed by the corners of each hole in order
+ */
+export function triangulatePolygon(
+  points: Array<[number, number, number]>,
+  holes: Array<Array<[number, number, number]>> = []
+): Array<[number, number, number]> {
+  const triangles: Array<[number, number, number]> = [];
+  if (points.length < 3) return triangles;
+  if (points.length === 3 && holes.length === 0) return [[0, 1, 2]];
+
+  // Project onto the best-fit plane, counter-clockwise around its normal
+  const normal = polygonNormal(points);
+  if (normal.lengthSq() === 0) {
+    for (let i = 1; i < points.length - 1; i++) triangles.push([0, i, i + 1]);
+    return triangles;
+  }
+  const u = new Vector3(1, 0, 0);
+  if (Math.abs(normal.x) > 0.9) u.set(0, 1, 0);
+  u.sub(normal.clone().multiplyScalar(u.dot(normal))).normalize();
+  const v = normal.clone().cross(u);
+  let offset = 0;
+  const project = (loop: Array<[number, number, number]>): PolygonPoint[] =>
+    loop.map((p, i) => {
+      const position = new Vector3(...p);
+      return { x: position.dot(u), y: position.dot(v), index: offset + i };
+    });
+
+  let polygon = project(points);
+  offset = points.length;
+  const projectedHoles = holes.map((hole) => {
+    const projected = project(hole);
+    offset += hole.length;
+    // Holes run clockwise
+    return signedArea(projected) > 0 ? projected.reverse() : projected;
+  });
+  const remaining = projectedHoles.filter((hole) => hole.length >= 3);
+  while (remaining.length > 0) {
+    const hole = remaining.shift()!;
+    polygon = bridgeHole(polygon, hole, remaining);
+  }
+
+  // Clip ears until a triangle is left. Searching from the second corner
+  // gives convex polygons a fan from the first corner.
+  const area = Math.abs(signedArea(polygon)) || 1;
+  const epsilon = area * 1e-10;
+  while (polygon.length > 3) {
+    const count = polygon.length;
+    let ear = -1;
+    for (let k = 0; k < count && ear === -1; k++) {
+      const i = (k + 1) % count;
+      const a = polygon[(i + count - 1) % count];
+      const b = polygon[i];
+      const c = polygon[(i + 1) % count];
+      if (cross(a, b, c) <= epsilon) continue;
+      const blocked = polygon.some(
+        (p) =>
+          p !== a &&
+          p !== b &&
+          p !== c &&
+          p.index !== a.index &&
+          p.index !== b.index &&
+          p.index !== c.index &&
+          inTriangle(p, a, b, c)
+      );
+      if (!blocked) ear = i;
+    }
+
+    if (ear === -1) {
+      // No clean ear: drop a straight corner, or clip the most convex one
+      let best = 0;
+      let bestCross = -Infinity;
+      for (let i = 0; i < count; i++) {
+        const value = cross(polygon[(i + count - 1) % count], polygon[i], polygon[(i + 1) % count]);
+        if (Math.abs(value) <= epsilon) {
+          polygon.splice(i, 1);
+          best = -1;
+          break;
+        }
+        if (value > bestCross) {
+          bestCross = value;
+          best = i;
+        }
+      }
+      if (best === -1) continue;
+      ear = best;
+    }
+
+    const a = polygon[(ear + count - 1) % count];
+    const b = polygon[ear];
+    const c = polygon[(ear + 1) % count];
+    if (a.index !== b.index && b.index !== c.index && a.index !== c.index) {
+      triangles.push([a.index, b.index, c.index]);
+    }
+    polygon.splice(ear, 1);
+  }
+
+  const [a, b, c] = polygon;
+  if (Math.abs(cross(a, b, c)) > epsilon && a.index !== b.index && b.index !== c.index && a.index !== c.index) {
+    triangles.push([a.index, b.index, c.index]);
+  }
+  return triangles;
+}
@@ -2,15 +2,30 @@ import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import type { Meta, StoryObj } from '@storybook/react';
 import { Canvas, useFrame, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, PivotControls, Line, Html } from '@react-three/drei';
-import { BoxGeometry, SphereGeometry, TorusGeometry, Matrix4, Vector3, Quaternion, BufferGeometry, DoubleSide, Raycaster, Mesh } from 'three';
+import { BoxGeometry, PlaneGeometry, SphereGeometry, TorusGeometry, Matrix4, Vector3, Quaternion, BufferGeometry, DoubleSide, Raycaster, Mesh } from 'three';
 import { MeshEditor } from '../src/components/MeshEditor';
 import { MeshEditorMenuBar } from '../src/components/MeshEditorMenuBar';
 import { LoopCutPreview } from '../src/components/LoopCutPreview';
+import { InsetPreview } from '../src/components/InsetPreview';
+import { BevelPreview } from '../src/components/BevelPreview';
+import { KnifeTool } from '../src/components/KnifeTool';
+import { SelectionTool, type SelectionToolType } from '../src/components/SelectionTool';
+import { EditModeOverlay } from '../src/components/EditModeOverlay';
+import { TransformTool } from '../src/components/TransformTool';
+import { getSelectionCenter } from '../src/utils/transform';
 import { useMeshEditor } from '../src/hooks/useMeshEditor';
-import type { EditorMode, EditMode } from '../src/types';
+import type {
+  EditorMode,
+  EditMode,
+  PivotPoint,
+  ProportionalFalloff,
+  SnapTarget,
+  TransformOrientation,
+} from '../src/types';
 import type { VertexControlRenderProps } from '../src/components/VertexHandle';
 import type { EdgeControlRenderProps } from '../src/components/EdgeLine';
 import type { FaceControlRenderProps } from '../src/components/FaceHighlight';
+import type { SelectionControlRenderProps } from '../src/components/SelectionControl';
 import type { LoopCutPath } from '../src/utils/geometry';
 import '../src/styles/globals.css';
 
@@ -30,7 +45,7 @@ type Story = StoryObj<typeof MeshEditor>;
  * Helper component for vertex PivotControls.
  * Only shows translation controls (no rotation/scale for single vertices).
  */
-function VertexPivotControl({ vertex, onMove }: VertexControlRenderProps) {
+function VertexPivotControl({ vertex, onMove, onDragStart, onDragEnd }: VertexControlRenderProps) {
   const matrixRef = useRef(new Matrix4());
 
   // Update matrix when vertex position changes
@@ -46,6 +61,8 @@ function VertexPivotControl({ vertex, onMove }: VertexControlRenderProps) {
       activeAxes={[true, true, true]}
       disableRotations
       disableScaling
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
       onDrag={(matrix) => {
         const position = new Vector3();
         position.setFromMatrixPosition(matrix);
@@ -60,7 +77,7 @@ function VertexPivotControl({ vertex, onMove }: VertexControlRenderProps) {
 }
 
 /**
- * Helper component for edge/face PivotControls.
+ * Helper component for edge, face and selection PivotControls.
  * Supports translation, rotation, and scale.
  */
 function TransformPivotControl({
@@ -68,7 +85,9 @@ function TransformPivotControl({
   onMoveByDelta,
   onTransform,
   onCaptureInitialPositions,
-}: EdgeControlRenderProps | FaceControlRenderProps) {
+  onDragStart,
+  onDragEnd,
+}: EdgeControlRenderProps | FaceControlRenderProps | SelectionControlRenderProps) {
   const initialMatrixRef = useRef<Matrix4 | null>(null);
   const appliedDeltaRef = useRef<[number, number, number]>([0, 0, 0]);
 
@@ -83,7 +102,8 @@ function TransformPivotControl({
     initialMatrixRef.current = matrix.clone();
     appliedDeltaRef.current = [0, 0, 0];
     onCaptureInitialPositions();
-  }, [matrix, onCaptureInitialPositions]);
+    onDragStart?.();
+  }, [matrix, onCaptureInitialPositions, onDragStart]);
 
   const handleDrag = useCallback(
     (localMatrix: Matrix4) => {
@@ -150,6 +170,7 @@ function TransformPivotControl({
       autoTransform={false}
       onDragStart={handleDragStart}
       onDrag={handleDrag}
+      onDragEnd={onDragEnd}
     >
       <mesh visible={false}>
         <sphereGeometry args={[0.01]} />
@@ -159,21 +180,35 @@ function TransformPivotControl({
 }
 
 function MeshEditorWithMenuBar() {
-  const [mode, setMode] = useState<EditorMode>('edit');
-  const [editMode, setEditMode] = useState<EditMode>('vertex');
+  const [randomSeed, setRandomSeed] = useState(0);
 
   const geometry = useMemo(() => {
-    const geo = new BoxGeometry(1, 1, 1);
+    const geo = new BoxGeometry(1, 1, 1, 3, 3, 3);
     return geo;
   }, []);
 
+  const editor = useMeshEditor({ geometry, initialMode: 'edit', initialEditMode: 'vertex' });
+
+  // A new seed each time, so Random picks a different set
+  const handleSelectRandom = useCallback(() => {
+    editor.selectRandom(0.5, randomSeed);
+    setRandomSeed((seed) => seed + 1);
+  }, [editor, randomSeed]);
+
   return (
     <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
       <MeshEditorMenuBar
-        mode={mode}
-        editMode={editMode}
-        onModeChange={setMode}
-        onEditModeChange={setEditMode}
+        mode={editor.state.mode}
+        editMode={editor.state.editMode}
+        onModeChange={editor.setMode}
+        onEditModeChange={editor.setEditMode}
+        onSelectAll={editor.selectAll}
+        onDeselectAll={editor.deselectAll}
+        onInvertSelection={editor.invertSelection}
+        onGrowSelection={editor.growSelection}
+        onShrinkSelection={editor.shrinkSelection}
+        onSelectRandom={handleSelectRandom}
+        onSelectNth={() => editor.selectNth(2)}
         className="m-2"
       />
       <div style={{ flex: 1 }}>
@@ -182,10 +217,7 @@ function MeshEditorWithMenuBar() {
           <directionalLight position={[10, 10, 5]} intensity={1} />
           <MeshEditor
             geometry={geometry}
-            mode={mode}
-            editMode={editMode}
-            onModeChange={setMode}
-            onEditModeChange={setEditMode}
+            editor={editor}
             vertexSize={0.06}
             renderVertexControl={(props) => <VertexPivotControl {...props} />}
             renderEdgeControl={(props) => <TransformPivotControl {...props} />}
@@ -217,6 +249,7 @@ This demo shows the mesh editor with PivotControls from @react-three/drei.
 ## Controls
 - Use the **Mode** dropdown to switch between Object Mode and Edit Mode
 - In Edit Mode, use the **Selection** buttons to switch between Vertex, Edge, and Face
+- Use the **Select** menu to select all, none or the inverse, grow or shrink the selection, pick a random half or checker deselect
 - Click elements to select them
 - Shift+Click to add to selection
 - Drag the PivotControls gizmo to transform selected elements
@@ -866,6 +899,293 @@ editor.extrudeFace(faceIndex, distance);
   },
 };
 
+function InsetFacesDemo() {
+  const [thickness, setThickness] = useState(0.1);
+  const [depth, setDepth] = useState(0);
+  const [individual, setIndividual] = useState(false);
+  const geometry = useMemo(() => new BoxGeometry(1, 1, 1, 2, 2, 2), []);
+
+  const editor = useMeshEditor({
+    geometry,
+    initialMode: 'edit',
+    initialEditMode: 'face',
+  });
+
+  const selectedFaces = useMemo(
+    () => Array.from(editor.state.selectedFaces),
+    [editor.state.selectedFaces]
+  );
+
+  const outlines = useMemo(
+    () =>
+      selectedFaces.length > 0
+        ? editor.getInsetPreview(selectedFaces, thickness, depth, { individual })
+        : null,
+    [editor, selectedFaces, thickness, depth, individual]
+  );
+
+  const handleInset = useCallback(() => {
+    editor.insetFaces(selectedFaces, thickness, depth, { individual });
+  }, [editor, selectedFaces, thickness, depth, individual]);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <span className="text-sm font-medium">Inset Faces Demo</span>
+        <div className="h-6 w-px bg-border" />
+        <label className="flex items-center gap-2 text-sm">
+          Thickness:
+          <input
+            type="range"
+            min="0.01"
+            max="0.4"
+            step="0.01"
+            value={thickness}
+            onChange={(e) => setThickness(parseFloat(e.target.value))}
+            className="w-24"
+          />
+          <span className="w-12 text-muted-foreground">{thickness.toFixed(2)}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          Depth:
+          <input
+            type="range"
+            min="-0.5"
+            max="0.5"
+            step="0.05"
+            value={depth}
+            onChange={(e) => setDepth(parseFloat(e.target.value))}
+            className="w-24"
+          />
+          <span className="w-12 text-muted-foreground">{depth.toFixed(2)}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={individual}
+            onChange={(e) => setIndividual(e.target.checked)}
+          />
+          Individual
+        </label>
+        <button
+          onClick={handleInset}
+          disabled={selectedFaces.length === 0}
+          className="rounded bg-orange-500 px-3 py-1 text-sm text-white hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Inset Selected Faces
+        </button>
+        {selectedFaces.length === 0 && (
+          <span className="text-sm text-muted-foreground">Shift+click faces to select them</span>
+        )}
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [3, 3, 3], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <MeshEditor
+            geometry={geometry}
+            mode="edit"
+            editMode="face"
+            editor={editor}
+            renderFaceControl={(props) => <TransformPivotControl {...props} />}
+          />
+          <InsetPreview outlines={outlines} color="#ffff00" lineWidth={3} />
+          <OrbitControls makeDefault />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const InsetFaces: Story = {
+  render: () => <InsetFacesDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Inset Faces
+
+Shrinks the selected faces inward and bridges them to their original boundary
+with a ring of quads, the usual first step before extruding panels.
+
+## How to use
+1. Click a face, Shift+click to select more
+2. Adjust thickness and depth; the dashed outline previews the new border
+3. Check **Individual** to inset every face on its own
+4. Click "Inset Selected Faces"
+
+## API
+\`\`\`tsx
+const editor = useMeshEditor({ geometry });
+
+// Preview the inner border
+const outlines = editor.getInsetPreview(faceIndices, 0.1, 0, { individual: false });
+<InsetPreview outlines={outlines} />
+
+// Apply the inset
+editor.insetFaces(faceIndices, 0.1, 0, { individual: false });
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+function BevelDemo() {
+  const [editMode, setEditMode] = useState<EditMode>('edge');
+  const [width, setWidth] = useState(0.1);
+  const [segments, setSegments] = useState(1);
+  const [profile, setProfile] = useState(0.5);
+  const geometry = useMemo(() => new BoxGeometry(1, 1, 1), []);
+
+  const editor = useMeshEditor({
+    geometry,
+    initialMode: 'edit',
+    initialEditMode: 'edge',
+  });
+
+  const handleEditModeChange = useCallback(
+    (nextEditMode: EditMode) => {
+      setEditMode(nextEditMode);
+      editor.setEditMode(nextEditMode);
+    },
+    [editor]
+  );
+
+  const outline = useMemo(
+    () => editor.getBevelPreview({ width, segments, profile }),
+    [editor, width, segments, profile]
+  );
+
+  const handleBevel = useCallback(() => {
+    editor.bevel({ width, segments, profile });
+  }, [editor, width, segments, profile]);
+
+  const selectionSize =
+    editMode === 'vertex' ? editor.state.selectedVertices.size : editor.state.selectedEdges.size;
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <MeshEditorMenuBar
+          mode="edit"
+          editMode={editMode}
+          onModeChange={() => {}}
+          onEditModeChange={handleEditModeChange}
+        />
+        <div className="h-6 w-px bg-border" />
+        <label className="flex items-center gap-2 text-sm">
+          Width:
+          <input
+            type="range"
+            min="0.01"
+            max="0.4"
+            step="0.01"
+            value={width}
+            onChange={(e) => setWidth(parseFloat(e.target.value))}
+            className="w-24"
+          />
+          <span className="w-12 text-muted-foreground">{width.toFixed(2)}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          Segments:
+          <input
+            type="range"
+            min="1"
+            max="8"
+            step="1"
+            value={segments}
+            onChange={(e) => setSegments(parseInt(e.target.value, 10))}
+            className="w-24"
+          />
+          <span className="w-12 text-muted-foreground">{segments}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          Profile:
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={profile}
+            onChange={(e) => setProfile(parseFloat(e.target.value))}
+            className="w-24"
+          />
+          <span className="w-12 text-muted-foreground">{profile.toFixed(2)}</span>
+        </label>
+        <button
+          onClick={handleBevel}
+          disabled={selectionSize === 0 || editMode === 'face'}
+          className="rounded bg-orange-500 px-3 py-1 text-sm text-white hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Bevel
+        </button>
+        <button
+          onClick={editor.undo}
+          disabled={!editor.canUndo}
+          className="rounded bg-gray-500 px-3 py-1 text-sm text-white hover:bg-gray-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Undo
+        </button>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [3, 3, 3], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <MeshEditor
+            geometry={geometry}
+            mode="edit"
+            editMode={editMode}
+            editor={editor}
+            vertexSize={0.06}
+          />
+          <BevelPreview outline={outline} color="#ffff00" lineWidth={2} />
+          <OrbitControls makeDefault />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const Bevel: Story = {
+  render: () => <BevelDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Bevel
+
+Bevels the selected edges (in edge mode) or vertices (in vertex mode).
+
+## How to use
+1. Click an edge, Shift+click to select more (try the three edges of a corner)
+2. Adjust width, segments and profile; the dashed lines preview the bevel
+3. Click **Bevel**
+
+## Technical Details
+- Each edge becomes a strip of quads following the profile (0.5 is round, 0.25 a flat chamfer)
+- Where three or more beveled edges meet, the strips are joined by a corner patch
+- The bevel faces are selected afterwards
+
+## API
+\`\`\`tsx
+const editor = useMeshEditor({ geometry });
+
+// Preview the bevel of the selection
+const outline = editor.getBevelPreview({ width: 0.1, segments: 3, profile: 0.5 });
+<BevelPreview outline={outline} />
+
+// Bevel the selected edges (or vertices, in vertex mode)
+editor.bevel({ width: 0.1, segments: 3, profile: 0.5 });
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
 /**
  * Find the nearest edge to a point on a face.
  * Returns the edge index that is closest to the intersection point.
@@ -873,20 +1193,18 @@ editor.extrudeFace(faceIndex, distance);
 function findNearestEdge(
   intersectionPoint: Vector3,
   faceIndex: number,
-  faces: { index: number; vertexIndices: [number, number, number] }[],
+  faces: { index: number; vertexIndices: number[] }[],
   edges: { index: number; vertexIndices: [number, number] }[],
   vertices: { position: [number, number, number] }[]
 ): number | null {
-  // Find which triangle was hit (faceIndex is the triangle index from raycaster)
   const face = faces[faceIndex];
   if (!face) return null;
 
   // Get the edges of this face
-  const faceEdges: [number, number][] = [
-    [face.vertexIndices[0], face.vertexIndices[1]],
-    [face.vertexIndices[1], face.vertexIndices[2]],
-    [face.vertexIndices[2], face.vertexIndices[0]],
-  ];
+  const faceEdges: [number, number][] = face.vertexIndices.map((v, i) => [
+    v,
+    face.vertexIndices[(i + 1) % face.vertexIndices.length],
+  ]);
 
   // Find the closest edge
   let nearestEdgeIndex: number | null = null;
@@ -960,9 +1278,10 @@ function LoopCutMeshInner({
     (event: ThreeEvent<PointerEvent>) => {
       event.stopPropagation();
       if (event.faceIndex !== undefined && event.point) {
+        // The raycaster reports a buffer triangle; map it to its polygon face
         const nearestEdge = findNearestEdge(
           event.point,
-          event.faceIndex,
+          editor.mesh.triangleFaces[event.faceIndex],
           editor.faces,
           editor.edges,
           editor.vertices
@@ -970,7 +1289,7 @@ function LoopCutMeshInner({
         setHoveredEdgeIndex(nearestEdge);
       }
     },
-    [editor.faces, editor.edges, editor.vertices]
+    [editor.mesh, editor.faces, editor.edges, editor.vertices]
   );
 
   const handlePointerOut = useCallback(() => {
@@ -1098,50 +1417,16 @@ editor.executeLoopCut(path);
 };
 
 /**
- * Interactive edge component for edge loop selection.
- */
-function SelectableEdge({
-  edge,
-  vertices,
-  isSelected,
-  onSelect,
-}: {
-  edge: { index: number; vertexIndices: [number, number] };
-  vertices: { position: [number, number, number] }[];
-  isSelected: boolean;
-  onSelect: (edgeIndex: number, addToSelection: boolean) => void;
-}) {
-  const points = useMemo(() => {
-    const v1 = vertices[edge.vertexIndices[0]];
-    const v2 = vertices[edge.vertexIndices[1]];
-    if (!v1 || !v2) return [];
-    return [v1.position, v2.position] as [[number, number, number], [number, number, number]];
-  }, [edge.vertexIndices, vertices]);
-
-  if (points.length < 2) return null;
-
-  return (
-    <Line
-      points={points}
-      color={isSelected ? '#ff6b00' : '#ffffff'}
-      lineWidth={isSelected ? 4 : 2}
-      onClick={(e) => {
-        e.stopPropagation();
-        onSelect(edge.index, e.shiftKey);
-      }}
-    />
-  );
-}
-
-/**
- * Inner component for Edge Loop to Face demo.
+ * Inner component for the Knife demo that uses useMeshEditor.
  */
-function EdgeLoopToFaceMeshInner({
+function KnifeMeshInner({
   geometry,
-  onFaceCreated,
+  angleConstraint,
+  onCutComplete,
 }: {
   geometry: BufferGeometry;
-  onFaceCreated: () => void;
+  angleConstraint: boolean;
+  onCutComplete: () => void;
 }) {
   const editor = useMeshEditor({
     geometry,
@@ -1149,29 +1434,905 @@ function EdgeLoopToFaceMeshInner({
     initialEditMode: 'edge',
   });
 
-  // Validate selected edges on each render
-  const validation = editor.validateSelectedEdgeLoop();
-  const hasFace = validation.isValid ? editor.selectedEdgeLoopHasFace() : false;
-
-  const handleSelectEdge = useCallback(
-    (edgeIndex: number, addToSelection: boolean) => {
-      editor.selectEdge(edgeIndex, addToSelection);
-    },
-    [editor]
+  return (
+    <group>
+      <EditModeOverlay
+        geometry={editor.currentGeometry}
+        edges={editor.edges}
+        vertices={editor.vertices}
+      />
+      <KnifeTool editor={editor} angleConstraint={angleConstraint} onCut={onCutComplete} />
+    </group>
   );
+}
 
-  const handleCreateFace = useCallback(() => {
-    const success = editor.createFaceFromSelectedEdges();
-    if (success) {
-      onFaceCreated();
-    }
-  }, [editor, onFaceCreated]);
+function KnifeDemo() {
+  const [key, setKey] = useState(0);
+  const [cutCount, setCutCount] = useState(0);
+  const [angleConstraint, setAngleConstraint] = useState(false);
+  const geometry = useMemo(() => new BoxGeometry(1, 1, 1), []);
 
-  const selectedCount = editor.state.selectedEdges.size;
+  const handleCutComplete = useCallback(() => {
+    setCutCount((c) => c + 1);
+  }, []);
 
-  return (
-    <group>
-      {/* Semi-transparent mesh */}
+  const handleReset = useCallback(() => {
+    setKey((k) => k + 1);
+    setCutCount(0);
+  }, []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <span className="text-sm font-medium">Knife Demo</span>
+        <div className="h-6 w-px bg-border" />
+        <span className="text-sm text-muted-foreground">
+          Click points on the surface, then press Enter to cut. Backspace removes a point, Escape
+          cancels.
+        </span>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={angleConstraint}
+            onChange={(e) => setAngleConstraint(e.target.checked)}
+          />
+          Angle constraint (or hold Shift)
+        </label>
+        <span className="text-sm">
+          Cuts made: <span className="font-mono">{cutCount}</span>
+        </span>
+        <button
+          onClick={handleReset}
+          className="rounded bg-gray-500 px-3 py-1 text-sm text-white hover:bg-gray-600"
+        >
+          Reset
+        </button>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [3, 3, 3], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <KnifeMeshInner
+            key={key}
+            geometry={geometry}
+            angleConstraint={angleConstraint}
+            onCutComplete={handleCutComplete}
+          />
+          <OrbitControls makeDefault />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const Knife: Story = {
+  render: () => <KnifeDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Knife
+
+This demo shows the knife tool, similar to Blender's K tool.
+
+## How to use
+1. Click successive points on the surface to draw the cut (yellow dashed line)
+2. Points snap to vertices, edge midpoints and edges near the cursor
+3. Hold Shift to constrain segments to 45° steps on screen
+4. Press Enter to cut every face the path crosses
+
+## API
+\`\`\`tsx
+const editor = useMeshEditor({ geometry });
+
+// Interactive tool, rendered inside the Canvas
+<KnifeTool editor={editor} snapDistance={0.08} />
+
+// Or cut programmatically
+editor.knifeCut(
+  [
+    { position: [-0.5, 0, 0.5], faceIndex: 0 },
+    { position: [0.5, 0, 0.5], faceIndex: 0 },
+  ],
+  { viewDirection: [0, 0, -1] }
+);
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+/**
+ * Inner component for the Selection Tools demo that uses useMeshEditor.
+ */
+function SelectionToolsMeshInner({
+  geometry,
+  editMode,
+  tool,
+  selectThrough,
+  brushRadius,
+  syncSelection,
+  onSelectionCountChange,
+}: {
+  geometry: BufferGeometry;
+  editMode: EditMode;
+  tool: SelectionToolType | null;
+  selectThrough: boolean;
+  brushRadius: number;
+  syncSelection: boolean;
+  onSelectionCountChange: (count: number) => void;
+}) {
+  const editor = useMeshEditor({
+    geometry,
+    initialMode: 'edit',
+    initialEditMode: editMode,
+    syncSelection,
+  });
+  const { selectedVertices, selectedEdges, selectedFaces } = editor.state;
+  useEffect(() => {
+    onSelectionCountChange(selectedVertices.size + selectedEdges.size + selectedFaces.size);
+  }, [selectedVertices, selectedEdges, selectedFaces, onSelectionCountChange]);
+
+  return (
+    <group>
+      <MeshEditor geometry={geometry} mode="edit" editMode={editMode} editor={editor} vertexSize={0.02} />
+      {tool && (
+        <SelectionTool
+          editor={editor}
+          tool={tool}
+          selectThrough={selectThrough}
+          brushRadius={brushRadius}
+        />
+      )}
+    </group>
+  );
+}
+
+function SelectionToolsDemo() {
+  const [editMode, setEditMode] = useState<EditMode>('vertex');
+  const [tool, setTool] = useState<SelectionToolType | null>('box');
+  const [selectThrough, setSelectThrough] = useState(false);
+  const [brushRadius, setBrushRadius] = useState(40);
+  const [syncSelection, setSyncSelection] = useState(false);
+  const [selectionCount, setSelectionCount] = useState(0);
+  const geometry = useMemo(() => new SphereGeometry(1, 48, 24), []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <span className="text-sm font-medium">Selection Tools Demo</span>
+        <div className="h-6 w-px bg-border" />
+        <div className="flex gap-1">
+          {(['vertex', 'edge', 'face'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setEditMode(mode)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                editMode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(['box', 'circle', 'lasso', null] as const).map((option) => (
+            <button
+              key={option ?? 'navigate'}
+              onClick={() => setTool(option)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                tool === option ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {option ?? 'navigate'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={selectThrough}
+            onChange={(e) => setSelectThrough(e.target.checked)}
+          />
+          Select through
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={syncSelection}
+            onChange={(e) => setSyncSelection(e.target.checked)}
+          />
+          Sync vertex/edge/face selection
+        </label>
+        {tool === 'circle' && (
+          <label className="flex items-center gap-2 text-sm">
+            Brush
+            <input
+              type="range"
+              min="10"
+              max="120"
+              value={brushRadius}
+              onChange={(e) => setBrushRadius(parseInt(e.target.value))}
+              className="w-24"
+            />
+            <span className="w-10 font-mono">{brushRadius}px</span>
+          </label>
+        )}
+        <span className="text-sm">
+          Selected: <span className="font-mono">{selectionCount}</span>
+        </span>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [2.5, 2, 2.5], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <SelectionToolsMeshInner
+            geometry={geometry}
+            editMode={editMode}
+            tool={tool}
+            selectThrough={selectThrough}
+            brushRadius={brushRadius}
+            syncSelection={syncSelection}
+            onSelectionCountChange={setSelectionCount}
+          />
+          <OrbitControls makeDefault enabled={tool === null} />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const SelectionTools: Story = {
+  render: () => <SelectionToolsDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Selection Tools
+
+This demo shows box, circle and lasso selection on a dense sphere, in every edit mode.
+
+## How to use
+1. Pick a tool and drag on the canvas. Switch to Navigate to orbit the camera
+2. Hold Shift to add to the selection, Ctrl to subtract, or both to intersect
+3. The circle brush paints the selection as it moves
+4. Enable "Select through" to also select elements hidden behind the mesh
+5. In edge mode, Alt+click an edge to select its loop, or Ctrl+Alt+click to select its ring
+6. Switching edit mode converts the selection: faces select their vertices, vertices select the edges and faces they enclose
+7. Enable "Sync vertex/edge/face selection" to keep all three selections up to date at once
+
+## API
+\`\`\`tsx
+const editor = useMeshEditor({ geometry });
+
+// Interactive tool, rendered inside the Canvas
+<SelectionTool editor={editor} tool="lasso" selectThrough={false} />
+
+// Or select programmatically
+const indices = selectInShape(editor.mesh, 'vertex', { type: 'box', start: [0, 0], end: [200, 150] }, {
+  camera,
+  size,
+});
+editor.selectElements(indices, 'add');
+
+// Topology-aware selection
+editor.selectEdgeLoop(edgeIndex);
+editor.selectEdgeRing(edgeIndex, true);
+editor.selectFaceLoop(edgeIndex);
+editor.selectLinked();
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+function ProportionalEditingDemo() {
+  const [editMode, setEditMode] = useState<EditMode>('vertex');
+  const [enabled, setEnabled] = useState(true);
+  const [radius, setRadius] = useState(0.8);
+  const [falloff, setFalloff] = useState<ProportionalFalloff>('smooth');
+  const [connectedOnly, setConnectedOnly] = useState(false);
+  const geometry = useMemo(() => new PlaneGeometry(3, 3, 24, 24).rotateX(-Math.PI / 2), []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <span className="text-sm font-medium">Proportional Editing Demo</span>
+        <div className="h-6 w-px bg-border" />
+        <div className="flex gap-1">
+          {(['vertex', 'edge', 'face'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setEditMode(mode)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                editMode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+          Proportional editing
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          Radius
+          <input
+            type="range"
+            min="0.1"
+            max="2"
+            step="0.05"
+            value={radius}
+            onChange={(e) => setRadius(parseFloat(e.target.value))}
+            className="w-24"
+          />
+          <span className="w-10 font-mono">{radius.toFixed(2)}</span>
+        </label>
+        <div className="flex gap-1">
+          {(['smooth', 'sphere', 'linear', 'sharp', 'constant', 'random'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setFalloff(option)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                falloff === option ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={connectedOnly}
+            onChange={(e) => setConnectedOnly(e.target.checked)}
+          />
+          Connected only
+        </label>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [2.5, 2.5, 2.5], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <MeshEditor
+            geometry={geometry}
+            mode="edit"
+            editMode={editMode}
+            vertexSize={0.03}
+            proportionalEditing={enabled ? { radius, falloff, connectedOnly } : undefined}
+            renderVertexControl={(props) => <VertexPivotControl {...props} />}
+            renderEdgeControl={(props) => <TransformPivotControl {...props} />}
+            renderFaceControl={(props) => <TransformPivotControl {...props} />}
+          />
+          <OrbitControls makeDefault />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const ProportionalEditing: Story = {
+  render: () => <ProportionalEditingDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Proportional Editing
+
+This demo shows proportional (soft) editing on a subdivided plane.
+
+## How to use
+1. Select a vertex, edge or face and drag its gizmo
+2. Unselected vertices inside the circle follow, weighted by the falloff curve
+3. Change the radius and falloff to shape the influence
+4. Enable "Connected only" to measure distance along edges, so only vertices connected to the selection move
+
+## API
+\`\`\`tsx
+<MeshEditor
+  geometry={geometry}
+  proportionalEditing={{ radius: 0.8, falloff: 'smooth', connectedOnly: false }}
+/>
+
+// Or compute the weights yourself
+const weights = computeProportionalWeights(editor.mesh, [vertexIndex], { radius: 0.8, falloff: 'sphere' });
+moveVertices(editor.mesh, [vertexIndex], [0, 0.5, 0], undefined, weights);
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+function SnappingDemo() {
+  const [editMode, setEditMode] = useState<EditMode>('vertex');
+  const [targets, setTargets] = useState<SnapTarget[]>(['vertex', 'grid']);
+  const [gridSize, setGridSize] = useState(0.25);
+  const [alignToNormal, setAlignToNormal] = useState(false);
+  const [stepTransforms, setStepTransforms] = useState(true);
+  const geometry = useMemo(() => new BoxGeometry(1, 1, 1, 2, 2, 2), []);
+
+  const toggleTarget = (target: SnapTarget) =>
+    setTargets((current) =>
+      current.includes(target) ? current.filter((t) => t !== target) : [...current, target]
+    );
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <span className="text-sm font-medium">Snapping Demo</span>
+        <div className="h-6 w-px bg-border" />
+        <div className="flex gap-1">
+          {(['vertex', 'edge', 'face'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setEditMode(mode)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                editMode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(['grid', 'vertex', 'midpoint', 'edge', 'face'] as const).map((target) => (
+            <button
+              key={target}
+              onClick={() => toggleTarget(target)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                targets.includes(target) ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {target}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          Grid
+          <input
+            type="range"
+            min="0.05"
+            max="1"
+            step="0.05"
+            value={gridSize}
+            onChange={(e) => setGridSize(parseFloat(e.target.value))}
+            className="w-24"
+          />
+          <span className="w-10 font-mono">{gridSize.toFixed(2)}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={alignToNormal}
+            onChange={(e) => setAlignToNormal(e.target.checked)}
+          />
+          Align to face normal
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={stepTransforms}
+            onChange={(e) => setStepTransforms(e.target.checked)}
+          />
+          Rotate by 15°, scale by 0.25
+        </label>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [2.5, 2, 2.5], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <MeshEditor
+            geometry={geometry}
+            mode="edit"
+            editMode={editMode}
+            snapping={{
+              targets,
+              gridSize,
+              alignToNormal,
+              rotationStep: stepTransforms ? 15 : undefined,
+              scaleStep: stepTransforms ? 0.25 : undefined,
+            }}
+            renderVertexControl={(props) => <VertexPivotControl {...props} />}
+            renderEdgeControl={(props) => <TransformPivotControl {...props} />}
+            renderFaceControl={(props) => <TransformPivotControl {...props} />}
+          />
+          <OrbitControls makeDefault />
+          <gridHelper args={[10, 40]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const Snapping: Story = {
+  render: () => <SnappingDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Snapping
+
+This demo shows snapping of vertex, edge and face transforms.
+
+## How to use
+1. Pick the snap targets. Vertices, midpoints, edges and faces within reach take precedence over the grid
+2. Drag a gizmo: the median of the moved vertices snaps, and a marker shows the snap target
+3. Enable "Align to face normal" and drag a face onto another face to lay it flat against it
+4. Rotations snap to 15° and scales to steps of 0.25 when enabled
+
+## API
+\`\`\`tsx
+<MeshEditor
+  geometry={geometry}
+  snapping={{
+    targets: ['vertex', 'midpoint', 'edge', 'face', 'grid'],
+    gridSize: 0.25,
+    distance: 0.1,
+    alignToNormal: true,
+    rotationStep: 15,
+    scaleStep: 0.25,
+  }}
+/>
+
+// Every control passing through moveVerticesByDelta, updateVertexPosition
+// or transformVertices is snapped, and the target is exposed for custom markers
+editor.snapResult; // { position, target: 'vertex', vertexIndex: 4 }
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+/**
+ * Inner component for the Transform Tool demo that uses useMeshEditor.
+ */
+function TransformToolMeshInner({
+  geometry,
+  editMode,
+  orientation,
+  onActiveChange,
+}: {
+  geometry: BufferGeometry;
+  editMode: EditMode;
+  orientation: TransformOrientation;
+  onActiveChange: (active: boolean) => void;
+}) {
+  const editor = useMeshEditor({
+    geometry,
+    initialMode: 'edit',
+    initialEditMode: editMode,
+  });
+
+  return (
+    <group rotation={[0, Math.PI / 6, 0]}>
+      <MeshEditor geometry={geometry} mode="edit" editMode={editMode} editor={editor} />
+      <TransformTool
+        editor={editor}
+        orientation={orientation}
+        onStart={() => onActiveChange(true)}
+        onEnd={() => onActiveChange(false)}
+      />
+    </group>
+  );
+}
+
+function TransformToolDemo() {
+  const [editMode, setEditMode] = useState<EditMode>('face');
+  const [orientation, setOrientation] = useState<TransformOrientation>('normal');
+  const [active, setActive] = useState(false);
+  const geometry = useMemo(() => new BoxGeometry(1, 1, 1, 2, 2, 2), []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <span className="text-sm font-medium">Transform Tool Demo</span>
+        <div className="h-6 w-px bg-border" />
+        <div className="flex gap-1">
+          {(['vertex', 'edge', 'face'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setEditMode(mode)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                editMode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-sm">Second axis press:</span>
+          {(['local', 'normal'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setOrientation(option)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                orientation === option ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <span className="text-sm text-muted-foreground">
+          Hover the canvas and press G, R or S. X/Y/Z constrain (Shift for planes), type a value,
+          Enter or click to confirm, Escape or right-click to cancel.
+        </span>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [2.5, 2, 2.5], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <TransformToolMeshInner
+            geometry={geometry}
+            editMode={editMode}
+            orientation={orientation}
+            onActiveChange={setActive}
+          />
+          <OrbitControls makeDefault enabled={!active} />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const TransformTools: Story = {
+  render: () => <TransformToolDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Transform Tool
+
+This demo shows modal grab, rotate and scale, driven from the keyboard.
+
+## How to use
+1. Select elements, hover the canvas and press **G** to grab, **R** to rotate or **S** to scale
+2. Move the mouse to transform the selection about its median point
+3. Press **X**, **Y** or **Z** to constrain to an axis, or **Shift** + axis to constrain to the plane
+4. Press the same axis again to switch to the second orientation (local or normal), and a third time to clear it
+5. Type a value, e.g. **G X 0.5 Enter**, **R Z 90 Enter** or **S 2 Enter**. **-** flips the sign
+6. Confirm with **Enter** or a left click. **Escape** or a right click restores the selection
+
+## API
+\`\`\`tsx
+const editor = useMeshEditor({ geometry });
+
+<MeshEditor geometry={geometry} editor={editor} />
+<TransformTool
+  editor={editor}
+  orientation="normal"
+  onStart={(mode) => setOrbitEnabled(false)}
+  onEnd={(mode, confirmed) => setOrbitEnabled(true)}
+/>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+const PIVOT_LABELS: Record<PivotPoint, string> = {
+  median: 'Median point',
+  boundingBox: 'Bounding box center',
+  cursor: '3D cursor',
+  individual: 'Individual origins',
+  active: 'Active element',
+};
+
+function PivotPointDemo() {
+  const [editMode, setEditMode] = useState<EditMode>('face');
+  const [pivotPoint, setPivotPoint] = useState<PivotPoint>('median');
+  const [cursor, setCursor] = useState<[number, number, number]>([1, 0, 1]);
+  const geometry = useMemo(() => new BoxGeometry(1, 1, 1, 2, 2, 2), []);
+  const editor = useMeshEditor({
+    geometry,
+    initialMode: 'edit',
+    initialEditMode: 'face',
+    pivotPoint,
+    cursor,
+  });
+
+  const { state } = editor;
+  const selection =
+    editMode === 'vertex' ? state.selectedVertices : editMode === 'edge' ? state.selectedEdges : state.selectedFaces;
+  const active = editMode === 'vertex' ? state.activeVertex : editMode === 'edge' ? state.activeEdge : state.activeFace;
+
+  const handleCursorToSelection = () => {
+    const center = getSelectionCenter(editor.mesh, editMode, selection);
+    if (center) setCursor(center);
+  };
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <span className="text-sm font-medium">Pivot Point Demo</span>
+        <div className="h-6 w-px bg-border" />
+        <div className="flex gap-1">
+          {(['vertex', 'edge', 'face'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setEditMode(mode)}
+              className={`rounded px-3 py-1 text-sm capitalize ${
+                editMode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(PIVOT_LABELS) as PivotPoint[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setPivotPoint(option)}
+              className={`rounded px-3 py-1 text-sm ${
+                pivotPoint === option ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {PIVOT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleCursorToSelection}
+          className="rounded bg-gray-500 px-3 py-1 text-sm text-white hover:bg-gray-600"
+        >
+          Cursor to selection
+        </button>
+        <span className="text-sm">
+          Active: <span className="font-mono">{active === null ? 'none' : `${editMode} ${active}`}</span>
+        </span>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [2.5, 2, 2.5], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <MeshEditor
+            geometry={geometry}
+            mode="edit"
+            editMode={editMode}
+            editor={editor}
+            renderSelectionControl={(props) => <TransformPivotControl {...props} />}
+          />
+          <mesh position={cursor}>
+            <sphereGeometry args={[0.03, 16, 8]} />
+            <meshBasicMaterial color="#ff3352" depthTest={false} />
+          </mesh>
+          <OrbitControls makeDefault />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const PivotPoints: Story = {
+  render: () => <PivotPointDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Pivot Points
+
+This demo shows a single gizmo shared by the whole selection, rotating and scaling about a pivot point.
+
+## How to use
+1. Select several faces (Shift+Click to add). The last clicked one is the active element
+2. Pick a pivot point and rotate or scale with the gizmo:
+   - **Median point**: the median of the selected vertices
+   - **Bounding box center**: the center of their bounding box
+   - **3D cursor**: the red marker. "Cursor to selection" moves it to the selection
+   - **Individual origins**: each connected group of faces or edges about its own median
+   - **Active element**: the last clicked element
+
+## API
+\`\`\`tsx
+const editor = useMeshEditor({ geometry, pivotPoint: 'individual', cursor: [1, 0, 1] });
+
+<MeshEditor
+  geometry={geometry}
+  editor={editor}
+  renderSelectionControl={({ center, onMoveByDelta, onTransform, onCaptureInitialPositions }) => (
+    <PivotControls matrix={new Matrix4().setPosition(...center)} ... />
+  )}
+/>
+
+// Or transform the selection directly
+editor.captureSelection();
+editor.transformSelection(rotation, [1, 1, 1]);
+editor.state.activeFace; // last clicked selected face
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+/**
+ * Interactive edge component for edge loop selection.
+ */
+function SelectableEdge({
+  edge,
+  vertices,
+  isSelected,
+  onSelect,
+}: {
+  edge: { index: number; vertexIndices: [number, number] };
+  vertices: { position: [number, number, number] }[];
+  isSelected: boolean;
+  onSelect: (edgeIndex: number, addToSelection: boolean) => void;
+}) {
+  const points = useMemo(() => {
+    const v1 = vertices[edge.vertexIndices[0]];
+    const v2 = vertices[edge.vertexIndices[1]];
+    if (!v1 || !v2) return [];
+    return [v1.position, v2.position] as [[number, number, number], [number, number, number]];
+  }, [edge.vertexIndices, vertices]);
+
+  if (points.length < 2) return null;
+
+  return (
+    <Line
+      points={points}
+      color={isSelected ? '#ff6b00' : '#ffffff'}
+      lineWidth={isSelected ? 4 : 2}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelect(edge.index, e.shiftKey);
+      }}
+    />
+  );
+}
+
+/**
+ * Inner component for Edge Loop to Face demo.
+ */
+function EdgeLoopToFaceMeshInner({
+  geometry,
+  onFaceCreated,
+}: {
+  geometry: BufferGeometry;
+  onFaceCreated: () => void;
+}) {
+  const editor = useMeshEditor({
+    geometry,
+    initialMode: 'edit',
+    initialEditMode: 'edge',
+  });
+
+  // Validate selected edges on each render
+  const validation = editor.validateSelectedEdgeLoop();
+  const hasFace = validation.isValid ? editor.selectedEdgeLoopHasFace() : false;
+
+  const handleSelectEdge = useCallback(
+    (edgeIndex: number, addToSelection: boolean) => {
+      editor.selectEdge(edgeIndex, addToSelection);
+    },
+    [editor]
+  );
+
+  const handleCreateFace = useCallback(() => {
+    const success = editor.createFaceFromSelectedEdges();
+    if (success) {
+      onFaceCreated();
+    }
+  }, [editor, onFaceCreated]);
+
+  const selectedCount = editor.state.selectedEdges.size;
+
+  return (
+    <group>
+      {/* Semi-transparent mesh */}
       <mesh geometry={editor.currentGeometry}>
         <meshStandardMaterial color="#6699cc" transparent opacity={0.3} side={DoubleSide} />
       </mesh>
@@ -1336,3 +2497,293 @@ const success = editor.createFaceFromSelectedEdges();
     },
   },
 };
+
+function UndoRedoDemo() {
+  const [editMode, setEditMode] = useState<EditMode>('vertex');
+  const geometry = useMemo(() => new BoxGeometry(1, 1, 1), []);
+
+  const editor = useMeshEditor({
+    geometry,
+    initialMode: 'edit',
+    initialEditMode: 'vertex',
+    historyLimit: 100,
+  });
+
+  const handleEditModeChange = useCallback(
+    (nextEditMode: EditMode) => {
+      setEditMode(nextEditMode);
+      editor.setEditMode(nextEditMode);
+    },
+    [editor]
+  );
+
+  const handleExtrude = useCallback(() => {
+    if (editMode === 'vertex') {
+      editor.extrudeVertices(Array.from(editor.state.selectedVertices), [0, 0.3, 0]);
+    } else if (editMode === 'edge') {
+      editor.extrudeEdges(Array.from(editor.state.selectedEdges), [0, 0.3, 0]);
+    } else {
+      editor.extrudeFaces(Array.from(editor.state.selectedFaces), 0.3);
+    }
+  }, [editor, editMode]);
+
+  const selectionSize =
+    editMode === 'vertex'
+      ? editor.state.selectedVertices.size
+      : editMode === 'edge'
+        ? editor.state.selectedEdges.size
+        : editor.state.selectedFaces.size;
+
+  const handleDelete = useCallback(() => {
+    if (editMode === 'vertex') {
+      editor.deleteVertices(Array.from(editor.state.selectedVertices));
+    } else if (editMode === 'edge') {
+      editor.deleteEdges(Array.from(editor.state.selectedEdges));
+    } else {
+      editor.deleteFaces(Array.from(editor.state.selectedFaces));
+    }
+  }, [editor, editMode]);
+
+  const handleDissolve = useCallback(() => {
+    if (editMode === 'vertex') {
+      editor.dissolveVertices(Array.from(editor.state.selectedVertices));
+    } else if (editMode === 'edge') {
+      editor.dissolveEdges(Array.from(editor.state.selectedEdges));
+    } else {
+      editor.deleteFaces(Array.from(editor.state.selectedFaces), { onlyFaces: true });
+    }
+  }, [editor, editMode]);
+
+  const handleSubdivide = useCallback(() => {
+    const { mesh, state } = editor;
+    const edgeIndices =
+      editMode === 'edge'
+        ? Array.from(state.selectedEdges)
+        : editMode === 'face'
+          ? Array.from(new Set(Array.from(state.selectedFaces).flatMap((f) => mesh.faces[f].edges)))
+          : mesh.edges
+              .map((edge, index) => ({ edge, index }))
+              .filter(({ edge }) => edge.vertices.every((v) => state.selectedVertices.has(v)))
+              .map(({ index }) => index);
+    editor.subdivide(edgeIndices, 1);
+  }, [editor, editMode]);
+
+  const [mergeReport, setMergeReport] = useState<string | null>(null);
+  const [showFaceNormals, setShowFaceNormals] = useState(false);
+
+  const handleMergeAtCenter = useCallback(() => {
+    const removed = editor.mergeVertices(Array.from(editor.state.selectedVertices), 'center');
+    setMergeReport(`Removed ${removed} vertices`);
+  }, [editor]);
+
+  const handleMergeByDistance = useCallback(() => {
+    const removed = editor.mergeByDistance(0.01);
+    setMergeReport(`Removed ${removed} vertices`);
+  }, [editor]);
+
+  // Ctrl+Z / Ctrl+Shift+Z keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        editor.redo();
+      } else {
+        editor.undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editor]);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="m-2 flex flex-wrap items-center gap-4 rounded-md border bg-background p-3">
+        <MeshEditorMenuBar
+          mode="edit"
+          editMode={editMode}
+          onModeChange={() => {}}
+          onEditModeChange={handleEditModeChange}
+        />
+        <div className="h-6 w-px bg-border" />
+        <button
+          onClick={editor.undo}
+          disabled={!editor.canUndo}
+          className="rounded bg-gray-500 px-3 py-1 text-sm text-white hover:bg-gray-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          onClick={editor.redo}
+          disabled={!editor.canRedo}
+          className="rounded bg-gray-500 px-3 py-1 text-sm text-white hover:bg-gray-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Redo
+        </button>
+        <button
+          onClick={handleExtrude}
+          disabled={selectionSize === 0}
+          className="rounded bg-orange-500 px-3 py-1 text-sm text-white hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Extrude Selection
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={selectionSize === 0}
+          className="rounded bg-red-500 px-3 py-1 text-sm text-white hover:bg-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Delete
+        </button>
+        <button
+          onClick={handleDissolve}
+          disabled={selectionSize === 0}
+          className="rounded bg-red-500 px-3 py-1 text-sm text-white hover:bg-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {editMode === 'face' ? 'Delete Only Faces' : 'Dissolve'}
+        </button>
+        <button
+          onClick={handleSubdivide}
+          disabled={selectionSize === 0}
+          className="rounded bg-orange-500 px-3 py-1 text-sm text-white hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Subdivide
+        </button>
+        <button
+          onClick={() => editor.bridgeSelectedEdgeLoops({ segments: 2 })}
+          disabled={editMode !== 'edge' || selectionSize < 2}
+          className="rounded bg-orange-500 px-3 py-1 text-sm text-white hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Bridge Edge Loops
+        </button>
+        <button
+          onClick={handleMergeAtCenter}
+          disabled={editMode !== 'vertex' || selectionSize < 2}
+          className="rounded bg-purple-500 px-3 py-1 text-sm text-white hover:bg-purple-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Merge at Center
+        </button>
+        <button
+          onClick={handleMergeByDistance}
+          className="rounded bg-purple-500 px-3 py-1 text-sm text-white hover:bg-purple-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Merge by Distance
+        </button>
+        <button
+          onClick={() => editor.flipFaces(Array.from(editor.state.selectedFaces))}
+          disabled={editMode !== 'face' || selectionSize === 0}
+          className="rounded bg-teal-500 px-3 py-1 text-sm text-white hover:bg-teal-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Flip Normals
+        </button>
+        <button
+          onClick={() => editor.recalculateNormals()}
+          className="rounded bg-teal-500 px-3 py-1 text-sm text-white hover:bg-teal-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Recalculate Normals
+        </button>
+        <button
+          onClick={() => editor.setFacesSmooth(Array.from(editor.state.selectedFaces), true)}
+          disabled={editMode !== 'face' || selectionSize === 0}
+          className="rounded bg-teal-500 px-3 py-1 text-sm text-white hover:bg-teal-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Shade Smooth
+        </button>
+        <button
+          onClick={() => editor.setFacesSmooth(Array.from(editor.state.selectedFaces), false)}
+          disabled={editMode !== 'face' || selectionSize === 0}
+          className="rounded bg-teal-500 px-3 py-1 text-sm text-white hover:bg-teal-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Shade Flat
+        </button>
+        <button
+          onClick={() => {
+            const selected = Array.from(editor.state.selectedEdges);
+            editor.markEdgesSharp(selected, !selected.every((e) => editor.edges[e]?.sharp));
+          }}
+          disabled={editMode !== 'edge' || selectionSize === 0}
+          className="rounded bg-teal-500 px-3 py-1 text-sm text-white hover:bg-teal-600 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Toggle Sharp
+        </button>
+        <label className="flex items-center gap-1 text-sm">
+          <input
+            type="checkbox"
+            checked={editor.mesh.autoSmoothAngle !== null}
+            onChange={(e) => editor.setAutoSmooth(e.target.checked ? 30 : null)}
+          />
+          Auto Smooth 30°
+        </label>
+        <label className="flex items-center gap-1 text-sm">
+          <input
+            type="checkbox"
+            checked={showFaceNormals}
+            onChange={(e) => setShowFaceNormals(e.target.checked)}
+          />
+          Show Normals
+        </label>
+        {mergeReport && <span className="text-sm text-muted-foreground">{mergeReport}</span>}
+        <span className="text-sm text-muted-foreground">Ctrl+Z to undo, Ctrl+Shift+Z to redo</span>
+      </div>
+      <div style={{ flex: 1 }}>
+        <Canvas camera={{ position: [3, 3, 3], fov: 50 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <MeshEditor
+            geometry={geometry}
+            mode="edit"
+            editMode={editMode}
+            editor={editor}
+            vertexSize={0.06}
+            showFaceNormals={showFaceNormals}
+            renderVertexControl={(props) => <VertexPivotControl {...props} />}
+            renderEdgeControl={(props) => <TransformPivotControl {...props} />}
+            renderFaceControl={(props) => <TransformPivotControl {...props} />}
+          />
+          <OrbitControls makeDefault />
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+    </div>
+  );
+}
+
+export const UndoRedo: Story = {
+  render: () => <UndoRedoDemo />,
+  parameters: {
+    docs: {
+      description: {
+        story: `
+# Undo / Redo
+
+Every geometry operation is recorded on a history stack. A whole gizmo drag
+is collapsed into a single step, and the selection is restored together with
+the geometry.
+
+## How to use
+1. Drag vertices, edges or faces, or extrude, delete or dissolve the selection
+   (tick **Show Normals** to check face winding, and fix it with **Flip Normals**
+   or **Recalculate Normals**)
+2. Shade faces smooth or flat, toggle sharp edges (drawn in cyan) or enable auto
+   smooth to control where the shading breaks
+3. Click **Undo** / **Redo** or use Ctrl+Z / Ctrl+Shift+Z
+
+## API
+\`\`\`tsx
+const editor = useMeshEditor({ geometry, historyLimit: 100 });
+
+editor.undo();
+editor.redo();
+editor.canUndo; // boolean
+editor.canRedo; // boolean
+
+// Group several operations into one undo step
+editor.beginHistoryGroup();
+editor.moveVerticesByDelta([0], [0.1, 0, 0]);
+editor.moveVerticesByDelta([0], [0.1, 0, 0]);
+editor.endHistoryGroup();
+\`\`\`
+        `,
+      },
+    },
+  },
+};